@@ -0,0 +1,296 @@
+// Declarative FAR/DFARS Clause Rule Engine
+
+class AcquisitionRegulationRuleEngine {
+  // Kind of value each fact holds; operators and condition values must suit it
+  private static FACT_TYPES: Record<RuleFact, RuleFactType> = {
+    category: 'TEXT',
+    agency: 'TEXT',
+    estimatedValue: 'AMOUNT',
+    bidTotal: 'AMOUNT',
+    vendorCertifications: 'LIST',
+    vendorNaicsCodes: 'LIST'
+  };
+
+  // Fact types each operator can be applied to
+  private static OPERATOR_FACT_TYPES: Record<RuleOperator, RuleFactType[]> = {
+    equals: ['TEXT', 'AMOUNT'],
+    notEquals: ['TEXT', 'AMOUNT'],
+    in: ['TEXT'],
+    notIn: ['TEXT'],
+    gt: ['AMOUNT'],
+    gte: ['AMOUNT'],
+    lt: ['AMOUNT'],
+    lte: ['AMOUNT'],
+    includes: ['LIST'],
+    excludes: ['LIST'],
+    inGroup: ['TEXT']
+  };
+
+  private library: RegulationRuleLibrary | null = null;
+  private priceCalculator = new TotalEvaluatedPriceCalculator();
+
+  // Rule Library Import: compliance staff edit the file, no code release needed
+  async loadRuleLibrary(filePath: string): Promise<RegulationRuleLibrary> {
+    const contents = await nodeFs.promises.readFile(filePath, 'utf8');
+    return this.importRuleLibrary(contents);
+  }
+
+  // Validates the whole library before replacing the active one
+  importRuleLibrary(contents: string): RegulationRuleLibrary {
+    const library: RegulationRuleLibrary = JSON.parse(contents);
+
+    if (!library || !Array.isArray(library.rules)) {
+      throw new Error('Regulation rule library must contain a rules array');
+    }
+    library.thresholds = library.thresholds || {};
+    library.agencyGroups = library.agencyGroups || {};
+
+    Object.entries(library.thresholds).forEach(([name, amount]) => {
+      if (typeof amount !== 'number' || amount < 0) {
+        throw new Error(`Threshold ${name} must be a non-negative number`);
+      }
+    });
+
+    const ruleIds = new Set<string>();
+    library.rules.forEach(rule => {
+      if (!rule.ruleId || !rule.clause) {
+        throw new Error('Every regulation rule requires a ruleId and clause');
+      }
+      if (ruleIds.has(rule.ruleId)) {
+        throw new Error(`Duplicate regulation rule ${rule.ruleId}`);
+      }
+      ruleIds.add(rule.ruleId);
+
+      rule.requiredRepresentations = rule.requiredRepresentations || [];
+      rule.requiredDocuments = rule.requiredDocuments || [];
+      this.validateCondition(rule.appliesWhen, rule.ruleId, library);
+    });
+
+    this.library = library;
+    return library;
+  }
+
+  getLibraryVersion(): string | undefined {
+    return this.library ? this.library.version : undefined;
+  }
+
+  // Clauses that apply to the acquisition, with the representations and documents each requires
+  findApplicableRules(bid: VendorBid, solicitation: BidSolicitation, vendor?: VendorProfile): RegulationRule[] {
+    const library = this.requireLibrary();
+    const facts = this.collectFacts(bid, solicitation, vendor);
+
+    return library.rules.filter(rule => this.evaluateCondition(rule.appliesWhen, facts, library) === true);
+  }
+
+  // Assessor the evaluation engine scores COMPLIANCE with, looking vendors up in the registry
+  forVendorRegistry(vendorRegistry: VendorRegistry): RegulatoryComplianceAssessor {
+    return (bid, solicitation) => this.evaluate(bid, solicitation, vendorRegistry.getVendor(bid.vendorId));
+  }
+
+  // Check a bid's representations and documents against every applicable clause
+  evaluate(bid: VendorBid, solicitation: BidSolicitation, vendor?: VendorProfile): RegulatoryComplianceResult {
+    const applicable = this.findApplicableRules(bid, solicitation, vendor);
+    const representations = new Set(bid.representations || []);
+    const documents = new Set(bid.complianceDocuments);
+
+    const requiredRepresentations = new Set(applicable.flatMap(rule => rule.requiredRepresentations));
+    const requiredDocuments = new Set(applicable.flatMap(rule => rule.requiredDocuments));
+    const missingRepresentations = new Set<string>();
+    const missingDocuments = new Set<string>();
+    const findings: string[] = [];
+
+    if (!vendor) {
+      findings.push(`No registry profile for vendor ${bid.vendorId}; vendor-specific clauses were not assessed`);
+    }
+
+    applicable.forEach(rule => {
+      const absentRepresentations = rule.requiredRepresentations.filter(item => !representations.has(item));
+      const absentDocuments = rule.requiredDocuments.filter(item => !documents.has(item));
+
+      absentRepresentations.forEach(item => missingRepresentations.add(item));
+      absentDocuments.forEach(item => missingDocuments.add(item));
+
+      if (absentRepresentations.length > 0) {
+        findings.push(`${rule.clause} (${rule.title}) requires representations: ${absentRepresentations.join(', ')}`);
+      }
+      if (absentDocuments.length > 0) {
+        findings.push(`${rule.clause} (${rule.title}) requires documents: ${absentDocuments.join(', ')}`);
+      }
+    });
+
+    return {
+      compliant: missingRepresentations.size === 0 && missingDocuments.size === 0,
+      applicableClauses: applicable.map(rule => rule.clause),
+      missingRepresentations: [...missingRepresentations],
+      missingDocuments: [...missingDocuments],
+      requirementsAssessed: requiredRepresentations.size + requiredDocuments.size,
+      findings,
+      ruleLibraryVersion: this.getLibraryVersion()
+    };
+  }
+
+  private collectFacts(bid: VendorBid, solicitation: BidSolicitation, vendor?: VendorProfile): RuleFacts {
+    const asOf = new Date();
+
+    return {
+      category: ProcurementCategory[solicitation.category],
+      agency: solicitation.agencyName,
+      estimatedValue: solicitation.budget,
+      bidTotal: this.priceCalculator.calculate(bid, solicitation).total,
+      vendorCertifications: vendor
+        ? vendor.certifications
+          .filter(certification => !certification.expiresOn || certification.expiresOn.getTime() > asOf.getTime())
+          .map(certification => certification.type)
+        : undefined,
+      vendorNaicsCodes: vendor ? vendor.naicsCodes : undefined
+    };
+  }
+
+  // Unknown facts (e.g. no vendor profile) evaluate to undefined, which stays unknown through
+  // 'not' and only decides 'all'/'any' when no other child does; a rule never applies on unknown
+  private evaluateCondition(condition: RuleCondition, facts: RuleFacts, library: RegulationRuleLibrary): boolean | undefined {
+    if ('all' in condition) {
+      const results = condition.all.map(child => this.evaluateCondition(child, facts, library));
+      if (results.includes(false)) return false;
+      return results.includes(undefined) ? undefined : true;
+    }
+    if ('any' in condition) {
+      const results = condition.any.map(child => this.evaluateCondition(child, facts, library));
+      if (results.includes(true)) return true;
+      return results.includes(undefined) ? undefined : false;
+    }
+    if ('not' in condition) {
+      const result = this.evaluateCondition(condition.not, facts, library);
+      return result === undefined ? undefined : !result;
+    }
+
+    const actual = facts[condition.fact];
+    if (actual === undefined) return undefined;
+
+    const expected = condition.threshold !== undefined
+      ? library.thresholds[condition.threshold]
+      : condition.value;
+
+    switch (condition.operator) {
+      case 'equals': return actual === expected;
+      case 'notEquals': return actual !== expected;
+      case 'in': return (expected as RuleValue[]).includes(actual as string);
+      case 'notIn': return !(expected as RuleValue[]).includes(actual as string);
+      case 'gt': return (actual as number) > (expected as number);
+      case 'gte': return (actual as number) >= (expected as number);
+      case 'lt': return (actual as number) < (expected as number);
+      case 'lte': return (actual as number) <= (expected as number);
+      case 'includes': return (actual as string[]).includes(expected as string);
+      case 'excludes': return !(actual as string[]).includes(expected as string);
+      case 'inGroup': return library.agencyGroups[expected as string].includes(actual as string);
+    }
+  }
+
+  private validateCondition(condition: RuleCondition, ruleId: string, library: RegulationRuleLibrary) {
+    if (!condition || typeof condition !== 'object') {
+      throw new Error(`Rule ${ruleId} has a missing or malformed appliesWhen condition`);
+    }
+    if ('all' in condition || 'any' in condition) {
+      const children = 'all' in condition ? condition.all : condition.any;
+      if (!Array.isArray(children)) {
+        throw new Error(`Rule ${ruleId} combines conditions with a non-array`);
+      }
+      children.forEach(child => this.validateCondition(child, ruleId, library));
+      return;
+    }
+    if ('not' in condition) {
+      this.validateCondition(condition.not, ruleId, library);
+      return;
+    }
+
+    if (!Object.keys(AcquisitionRegulationRuleEngine.FACT_TYPES).includes(condition.fact)) {
+      throw new Error(`Rule ${ruleId} references unknown fact ${condition.fact}`);
+    }
+    if (!Object.keys(AcquisitionRegulationRuleEngine.OPERATOR_FACT_TYPES).includes(condition.operator)) {
+      throw new Error(`Rule ${ruleId} uses unknown operator ${condition.operator}`);
+    }
+    const factType = AcquisitionRegulationRuleEngine.FACT_TYPES[condition.fact];
+    if (!AcquisitionRegulationRuleEngine.OPERATOR_FACT_TYPES[condition.operator].includes(factType)) {
+      throw new Error(`Rule ${ruleId} cannot apply operator ${condition.operator} to fact ${condition.fact}`);
+    }
+    if (condition.threshold !== undefined && !(condition.threshold in library.thresholds)) {
+      throw new Error(`Rule ${ruleId} references undefined threshold ${condition.threshold}`);
+    }
+    if (condition.threshold !== undefined && factType !== 'AMOUNT') {
+      throw new Error(`Rule ${ruleId} compares non-amount fact ${condition.fact} to threshold ${condition.threshold}`);
+    }
+    if (condition.threshold === undefined && condition.value === undefined) {
+      throw new Error(`Rule ${ruleId} condition on ${condition.fact} needs a value or threshold`);
+    }
+    if ((condition.operator === 'in' || condition.operator === 'notIn') && !Array.isArray(condition.value)) {
+      throw new Error(`Rule ${ruleId} operator ${condition.operator} requires an array value`);
+    }
+    if (condition.threshold === undefined && !this.valueSuitsFact(condition.value!, factType, condition.operator)) {
+      throw new Error(
+        `Rule ${ruleId} compares ${condition.fact} with ${JSON.stringify(condition.value)}, which is the wrong type`
+      );
+    }
+    if (condition.operator === 'inGroup' && !library.agencyGroups[condition.value as string]) {
+      throw new Error(`Rule ${ruleId} references undefined agency group ${condition.value}`);
+    }
+  }
+
+  // Amount facts take numbers; text and list facts take strings, as an array for in/notIn
+  private valueSuitsFact(value: RuleValue | RuleValue[], factType: RuleFactType, operator: RuleOperator): boolean {
+    const expectedType = factType === 'AMOUNT' ? 'number' : 'string';
+    if (operator === 'in' || operator === 'notIn') {
+      return Array.isArray(value) && value.every(item => typeof item === expectedType);
+    }
+    return typeof value === expectedType;
+  }
+
+  private requireLibrary(): RegulationRuleLibrary {
+    if (!this.library) {
+      throw new Error('No regulation rule library has been loaded');
+    }
+    return this.library;
+  }
+}
+
+// Type Definitions
+type RuleFact = 'category' | 'agency' | 'estimatedValue' | 'bidTotal' | 'vendorCertifications' | 'vendorNaicsCodes';
+
+type RuleFactType = 'TEXT' | 'AMOUNT' | 'LIST';
+
+type RuleOperator =
+  'equals' | 'notEquals' | 'in' | 'notIn' |
+  'gt' | 'gte' | 'lt' | 'lte' |
+  'includes' | 'excludes' |  // Membership in a list-valued fact
+  'inGroup';                  // Agency belongs to a named agency group
+
+type RuleValue = string | number;
+
+type RuleFacts = Record<RuleFact, RuleValue | string[] | undefined>;
+
+type RuleCondition =
+  { all: RuleCondition[] } |
+  { any: RuleCondition[] } |
+  { not: RuleCondition } |
+  {
+    fact: RuleFact;
+    operator: RuleOperator;
+    value?: RuleValue | RuleValue[];
+    threshold?: string;  // Named dollar threshold from the library, used instead of value
+  };
+
+interface RegulationRule {
+  ruleId: string;
+  clause: string;
+  title: string;
+  appliesWhen: RuleCondition;
+  requiredRepresentations: string[];  // Provision numbers the offer must complete
+  requiredDocuments: string[];        // Document types expected in complianceDocuments
+}
+
+interface RegulationRuleLibrary {
+  version: string;
+  effectiveDate?: string;
+  thresholds: Record<string, number>;
+  agencyGroups: Record<string, string[]>;
+  rules: RegulationRule[];
+}
@@ -0,0 +1,386 @@
+// Approval Chains with Delegation and SLA Escalation for Human Workflow Steps
+
+class ApprovalChainManager {
+  private static HOUR_MS = 60 * 60 * 1000;
+
+  private chains: Map<string, ApprovalChain> = new Map();
+  private roleMembers: Map<string, Set<string>> = new Map();
+  private delegations: ApprovalDelegation[] = [];
+  private chainSequence = 0;
+  private delegationSequence = 0;
+
+  // Role Directory: any member of an approver role may decide that approval
+  assignRole(userId: string, role: string) {
+    if (!this.roleMembers.has(role)) {
+      this.roleMembers.set(role, new Set());
+    }
+    this.roleMembers.get(role)!.add(userId);
+  }
+
+  removeRole(userId: string, role: string) {
+    const members = this.roleMembers.get(role);
+    if (members) members.delete(userId);
+  }
+
+  hasRole(userId: string, role: string): boolean {
+    const members = this.roleMembers.get(role);
+    return Boolean(members && members.has(userId));
+  }
+
+  // Out-of-Office Delegation: the delegate acts for the delegator within the window
+  delegate(delegatorId: string, delegateId: string, startsAt: Date, endsAt: Date, reason: string): ApprovalDelegation {
+    if (delegatorId === delegateId) {
+      throw new Error(`${delegatorId} cannot delegate approvals to themselves`);
+    }
+    if (endsAt.getTime() <= startsAt.getTime()) {
+      throw new Error('Delegation must end after it starts');
+    }
+
+    const overlapping = this.delegations.find(existing =>
+      existing.delegatorId === delegatorId && !existing.revokedAt &&
+      existing.startsAt.getTime() < endsAt.getTime() && startsAt.getTime() < existing.endsAt.getTime()
+    );
+    if (overlapping) {
+      throw new Error(`${delegatorId} already delegates to ${overlapping.delegateId} during that period`);
+    }
+
+    this.delegationSequence += 1;
+    const delegation: ApprovalDelegation = {
+      delegationId: `DLG-${String(this.delegationSequence).padStart(6, '0')}`,
+      delegatorId,
+      delegateId,
+      startsAt,
+      endsAt,
+      reason
+    };
+    this.delegations.push(delegation);
+    return delegation;
+  }
+
+  revokeDelegation(delegationId: string, revokedAt: Date = new Date()) {
+    const delegation = this.delegations.find(candidate => candidate.delegationId === delegationId);
+    if (!delegation) {
+      throw new Error(`Unknown delegation: ${delegationId}`);
+    }
+    delegation.revokedAt = revokedAt;
+  }
+
+  getActiveDelegations(asOf: Date = new Date()): ApprovalDelegation[] {
+    return this.delegations.filter(delegation => this.isActive(delegation, asOf));
+  }
+
+  // Chain Lifecycle: sequential chains activate one approver at a time, parallel chains all at once
+  openChain(instanceId: string, stepId: string, definition: ApprovalChainDefinition, openedAt: Date = new Date()): ApprovalChain {
+    this.validateConfiguration(definition, `Approval chain on ${stepId}`);
+    this.chainSequence += 1;
+    const chainId = `APR-${String(this.chainSequence).padStart(6, '0')}`;
+
+    const chain: ApprovalChain = {
+      chainId,
+      instanceId,
+      stepId,
+      definition,
+      status: 'PENDING',
+      tasks: definition.approvers.map((approver, index) => ({
+        taskId: `${chainId}-${index + 1}`,
+        approver,
+        originalApprover: approver,
+        status: 'PENDING',
+        escalationLevel: 0
+      })),
+      breaches: [],
+      openedAt
+    };
+
+    const initial = definition.mode === 'PARALLEL' ? chain.tasks : chain.tasks.slice(0, 1);
+    initial.forEach(task => this.activate(chain, task, openedAt));
+
+    this.chains.set(chainId, chain);
+    return chain;
+  }
+
+  getChain(chainId: string): ApprovalChain {
+    const chain = this.chains.get(chainId);
+    if (!chain) {
+      throw new Error(`Unknown approval chain: ${chainId}`);
+    }
+    return chain;
+  }
+
+  // Record a decision on the active task the actor may decide, directly or as a delegate
+  decide(
+    chainId: string,
+    actor: string,
+    decision: ApprovalDecision,
+    comment?: string,
+    decidedAt: Date = new Date()
+  ): ApprovalTask {
+    const chain = this.getChain(chainId);
+    if (chain.status !== 'PENDING') {
+      throw new Error(`Approval chain ${chainId} is already ${chain.status}`);
+    }
+
+    // One person decides at most one approval per chain, whether directly or through a delegate
+    const decidedPrincipals = new Set(chain.tasks
+      .filter(task => task.decidedBy)
+      .flatMap(task => [task.decidedBy, task.onBehalfOf || task.decidedBy]));
+    if (decidedPrincipals.has(actor)) {
+      throw new Error(`${actor} has already decided an approval in chain ${chainId}`);
+    }
+
+    const candidates = chain.tasks
+      .filter(task => task.status === 'ACTIVE')
+      .flatMap(task => {
+        const authority = this.resolveAuthority(task.approver, actor, decidedAt);
+        return authority ? [{ task, authority }] : [];
+      });
+    if (candidates.length === 0) {
+      throw new Error(`${actor} is not an active approver for chain ${chainId}`);
+    }
+
+    const match = candidates.find(candidate => !decidedPrincipals.has(candidate.authority.onBehalfOf));
+    if (!match) {
+      throw new Error(
+        `${actor} acts for ${candidates[0].authority.onBehalfOf}, who has already decided an approval in chain ${chainId}`
+      );
+    }
+
+    const { task, authority } = match;
+    task.status = decision;
+    task.decidedBy = actor;
+    task.onBehalfOf = authority.onBehalfOf;
+    task.decidedAt = decidedAt;
+    task.comment = comment;
+
+    if (decision === 'REJECTED') {
+      chain.tasks.filter(other => other.status === 'ACTIVE' || other.status === 'PENDING')
+        .forEach(other => { other.status = 'CANCELLED'; });
+      this.conclude(chain, 'REJECTED', decidedAt);
+      return task;
+    }
+
+    const nextTask = chain.tasks.find(other => other.status === 'PENDING');
+    if (chain.definition.mode === 'SEQUENTIAL' && nextTask) {
+      this.activate(chain, nextTask, decidedAt);
+    } else if (chain.tasks.every(other => other.status === 'APPROVED')) {
+      this.conclude(chain, 'APPROVED', decidedAt);
+    }
+    return task;
+  }
+
+  // SLA Sweep: overdue tasks move to the next escalation level; the last level stays breached.
+  // Levels whose approver already holds or decided another task of the chain are skipped, since
+  // one person may decide only one approval per chain
+  escalateOverdue(chainId: string, asOf: Date = new Date()): SlaBreach[] {
+    const chain = this.getChain(chainId);
+    if (chain.status !== 'PENDING') return [];
+
+    const breaches: SlaBreach[] = [];
+    chain.tasks
+      .filter(task => task.status === 'ACTIVE' && task.dueAt!.getTime() < asOf.getTime())
+      .forEach(task => {
+        const alreadyRecorded = chain.breaches.some(breach =>
+          breach.taskId === task.taskId && breach.escalationLevel === task.escalationLevel
+        );
+        if (alreadyRecorded) return;
+
+        const path = chain.definition.escalationPath;
+        let targetLevel = task.escalationLevel;
+        while (targetLevel < path.length && this.isAlreadyInvolved(chain, path[targetLevel], task)) {
+          targetLevel += 1;
+        }
+        const escalatedTo = path[targetLevel];
+        const breach: SlaBreach = {
+          taskId: task.taskId,
+          escalationLevel: task.escalationLevel,
+          approver: task.approver,
+          dueAt: task.dueAt!,
+          detectedAt: asOf,
+          escalatedTo
+        };
+        chain.breaches.push(breach);
+        breaches.push(breach);
+
+        if (escalatedTo) {
+          task.approver = escalatedTo;
+          task.escalationLevel = targetLevel + 1;
+          task.dueAt = new Date(asOf.getTime() + chain.definition.slaHours * ApprovalChainManager.HOUR_MS);
+        }
+      });
+    return breaches;
+  }
+
+  cancelChain(chainId: string, cancelledAt: Date = new Date()) {
+    const chain = this.getChain(chainId);
+    if (chain.status !== 'PENDING') return;
+
+    chain.tasks.filter(task => task.status === 'ACTIVE' || task.status === 'PENDING')
+      .forEach(task => { task.status = 'CANCELLED'; });
+    this.conclude(chain, 'CANCELLED', cancelledAt);
+  }
+
+  // Work queue: active approvals the user can decide now, including those held through delegation
+  getPendingApprovals(userId: string, asOf: Date = new Date()): PendingApproval[] {
+    return [...this.chains.values()]
+      .filter(chain => chain.status === 'PENDING')
+      .flatMap(chain => chain.tasks
+        .filter(task => task.status === 'ACTIVE')
+        .flatMap(task => {
+          const authority = this.resolveAuthority(task.approver, userId, asOf);
+          return authority ? [{
+            chainId: chain.chainId,
+            instanceId: chain.instanceId,
+            stepId: chain.stepId,
+            task,
+            onBehalfOf: authority.onBehalfOf,
+            overdue: task.dueAt!.getTime() < asOf.getTime()
+          }] : [];
+        }));
+  }
+
+  // Structural validation shared by definition loading and instance start
+  validateConfiguration(configuration: ApprovalChainConfiguration, ownerLabel: string) {
+    const invalid = (detail: string) => new Error(`${ownerLabel}: ${detail}`);
+
+    if (!['SEQUENTIAL', 'PARALLEL'].includes(configuration.mode)) {
+      throw invalid(`unknown approval mode ${configuration.mode}`);
+    }
+    if (!Array.isArray(configuration.approvers) || configuration.approvers.length === 0) {
+      throw invalid('approvers must list at least one approver');
+    }
+    if (configuration.slaHours !== undefined && !(configuration.slaHours > 0)) {
+      throw invalid('slaHours must be positive');
+    }
+
+    [...configuration.approvers, ...(configuration.escalationPath || [])].forEach(approver => {
+      if (approver.type === 'ROLE' && !approver.role) throw invalid('role approvers need a role');
+      if (approver.type === 'PERSON' && !approver.userId) throw invalid('person approvers need a userId');
+      if (approver.type !== 'ROLE' && approver.type !== 'PERSON') {
+        throw invalid(`unknown approver type ${(approver as { type: string }).type}`);
+      }
+    });
+  }
+
+  // Returns null when the actor cannot decide for the approver
+  private resolveAuthority(approver: ApproverReference, actor: string, asOf: Date): { onBehalfOf?: string } | null {
+    const principals = approver.type === 'PERSON'
+      ? [approver.userId]
+      : [...(this.roleMembers.get(approver.role) || [])];
+
+    if (principals.includes(actor)) return {};
+
+    const delegation = this.delegations.find(candidate =>
+      candidate.delegateId === actor && principals.includes(candidate.delegatorId) && this.isActive(candidate, asOf)
+    );
+    return delegation ? { onBehalfOf: delegation.delegatorId } : null;
+  }
+
+  // Whether the approver already holds another undecided task, or has already decided one, in the chain
+  private isAlreadyInvolved(chain: ApprovalChain, approver: ApproverReference, except: ApprovalTask): boolean {
+    const sameApprover = (other: ApproverReference) => approver.type === 'ROLE'
+      ? other.type === 'ROLE' && other.role === approver.role
+      : other.type === 'PERSON' && other.userId === approver.userId;
+
+    return chain.tasks.some(task => task !== except && (
+      ((task.status === 'ACTIVE' || task.status === 'PENDING') && sameApprover(task.approver)) ||
+      (approver.type === 'PERSON' && (task.decidedBy === approver.userId || task.onBehalfOf === approver.userId))
+    ));
+  }
+
+  private isActive(delegation: ApprovalDelegation, asOf: Date): boolean {
+    return !delegation.revokedAt &&
+      delegation.startsAt.getTime() <= asOf.getTime() &&
+      asOf.getTime() < delegation.endsAt.getTime();
+  }
+
+  private activate(chain: ApprovalChain, task: ApprovalTask, activatedAt: Date) {
+    task.status = 'ACTIVE';
+    task.activatedAt = activatedAt;
+    task.dueAt = new Date(activatedAt.getTime() + chain.definition.slaHours * ApprovalChainManager.HOUR_MS);
+  }
+
+  private conclude(chain: ApprovalChain, status: ApprovalChainStatus, concludedAt: Date) {
+    chain.status = status;
+    chain.concludedAt = concludedAt;
+  }
+}
+
+// Type Definitions
+type ApprovalMode = 'SEQUENTIAL' | 'PARALLEL';
+
+type ApprovalDecision = 'APPROVED' | 'REJECTED';
+
+type ApprovalTaskStatus = 'PENDING' | 'ACTIVE' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+type ApprovalChainStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+type ApproverReference =
+  { type: 'ROLE'; role: string } |
+  { type: 'PERSON'; userId: string };
+
+// Rule-level configuration; slaHours falls back to the automation priority default
+interface ApprovalChainConfiguration {
+  mode: ApprovalMode;
+  approvers: ApproverReference[];
+  escalationPath?: ApproverReference[];  // Level 1, 2, ... targets for overdue approvals
+  slaHours?: number;
+}
+
+interface ApprovalChainDefinition extends ApprovalChainConfiguration {
+  escalationPath: ApproverReference[];
+  slaHours: number;
+}
+
+interface ApprovalTask {
+  taskId: string;
+  approver: ApproverReference;          // Current approver, after any escalation
+  originalApprover: ApproverReference;
+  status: ApprovalTaskStatus;
+  escalationLevel: number;
+  activatedAt?: Date;
+  dueAt?: Date;
+  decidedBy?: string;
+  onBehalfOf?: string;                  // Delegator when decided by a delegate
+  decidedAt?: Date;
+  comment?: string;
+}
+
+interface SlaBreach {
+  taskId: string;
+  escalationLevel: number;
+  approver: ApproverReference;
+  dueAt: Date;
+  detectedAt: Date;
+  escalatedTo?: ApproverReference;      // Absent once the escalation path is exhausted
+}
+
+interface ApprovalChain {
+  chainId: string;
+  instanceId: string;
+  stepId: string;
+  definition: ApprovalChainDefinition;
+  status: ApprovalChainStatus;
+  tasks: ApprovalTask[];
+  breaches: SlaBreach[];
+  openedAt: Date;
+  concludedAt?: Date;
+}
+
+interface ApprovalDelegation {
+  delegationId: string;
+  delegatorId: string;
+  delegateId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string;
+  revokedAt?: Date;
+}
+
+interface PendingApproval {
+  chainId: string;
+  instanceId: string;
+  stepId: string;
+  task: ApprovalTask;
+  onBehalfOf?: string;
+  overdue: boolean;
+}
@@ -0,0 +1,305 @@
+// Collusion and Bid-Rigging Pattern Detection Across a Solicitation's Bids
+
+class BidCollusionDetector {
+  // Detection thresholds; all analysis runs locally against stored bids
+  private static THRESHOLDS = {
+    NEAR_IDENTICAL_PRICE_RATIO: 0.005,  // Totals within 0.5% of each other
+    IDENTICAL_LINE_ITEM_SHARE: 0.8,     // 80% of shared CLINs priced identically
+    PHRASING_SIMILARITY: 0.25,          // Jaccard similarity of proposal word shingles
+    SHINGLE_SIZE: 5,                    // Words per shingle
+    ROTATION_MIN_SOLICITATIONS: 4,      // Shared solicitations before rotation is judged
+    COVER_BID_MARGIN: { MIN: 0.01, MAX: 0.05 },  // Loser priced 1-5% above the winner
+    COVER_BID_MIN_OCCURRENCES: 3,
+    COVER_BID_MIN_SHARE: 0.75
+  };
+
+  private priceCalculator = new TotalEvaluatedPriceCalculator();
+
+  // Run every pattern check and queue any flags for the contracting officer
+  analyzeAndQueue(
+    solicitation: BidSolicitation,
+    bids: VendorBid[],
+    awardHistory: AwardHistoryRecord[],
+    reviewQueue: ContractingOfficerReviewQueue
+  ): CollusionFlag[] {
+    const flags = this.analyze(solicitation, bids, awardHistory);
+
+    flags.forEach(flag => reviewQueue.enqueue({
+      solicitationId: solicitation.id,
+      source: 'COLLUSION_DETECTION',
+      summary: `${flag.pattern}: ${flag.evidence}`,
+      vendorIds: flag.vendorIds,
+      details: flag
+    }));
+
+    return flags;
+  }
+
+  analyze(solicitation: BidSolicitation, bids: VendorBid[], awardHistory: AwardHistoryRecord[]): CollusionFlag[] {
+    const solicitationId = solicitation.id;
+    const flags: CollusionFlag[] = [];
+    const prices = this.priceBids(bids, solicitation);
+
+    this.vendorPairs(bids).forEach(([first, second]) => {
+      flags.push(
+        ...this.checkIdenticalPricing(solicitationId, first, second, prices),
+        ...this.checkSharedDocumentMetadata(solicitationId, first, second),
+        ...this.checkSimilarPhrasing(solicitationId, first, second)
+      );
+    });
+
+    const vendorIds = bids.map(bid => bid.vendorId);
+    flags.push(
+      ...this.checkRotatingWinners(solicitationId, vendorIds, awardHistory),
+      ...this.checkCoverBidding(solicitationId, vendorIds, awardHistory)
+    );
+
+    return flags;
+  }
+
+  // Identical or near-identical total evaluated prices and CLIN amounts
+  private checkIdenticalPricing(
+    solicitationId: string,
+    first: VendorBid,
+    second: VendorBid,
+    prices: Map<string, TotalEvaluatedPrice>
+  ): CollusionFlag[] {
+    const thresholds = BidCollusionDetector.THRESHOLDS;
+    const flags: CollusionFlag[] = [];
+
+    const firstPrice = prices.get(first.vendorId);
+    const secondPrice = prices.get(second.vendorId);
+    if (!firstPrice || !secondPrice) return flags;
+
+    const lowerTotal = Math.min(firstPrice.total, secondPrice.total);
+    const difference = Math.abs(firstPrice.total - secondPrice.total);
+    if (lowerTotal > 0 && difference / lowerTotal <= thresholds.NEAR_IDENTICAL_PRICE_RATIO) {
+      flags.push(this.flag(solicitationId, 'IDENTICAL_PRICING', [first, second],
+        difference === 0 ? 'HIGH' : 'MEDIUM',
+        `Total evaluated prices differ by ${difference} (${((difference / lowerTotal) * 100).toFixed(2)}%)`,
+        { firstTotal: firstPrice.total, secondTotal: secondPrice.total }
+      ));
+    }
+
+    const sharedClins = firstPrice.lineItems.flatMap(item => {
+      const other = secondPrice.lineItems.find(candidate => candidate.clin === item.clin);
+      return other ? [[item, other] as const] : [];
+    });
+    const identicalClins = sharedClins.filter(([item, other]) => item.evaluatedAmount === other.evaluatedAmount);
+
+    if (
+      sharedClins.length > 1 &&
+      identicalClins.length / sharedClins.length >= thresholds.IDENTICAL_LINE_ITEM_SHARE
+    ) {
+      flags.push(this.flag(solicitationId, 'IDENTICAL_PRICING', [first, second], 'HIGH',
+        `${identicalClins.length} of ${sharedClins.length} shared CLINs carry identical evaluated amounts`,
+        { sharedClins: sharedClins.length, identicalClins: identicalClins.length }
+      ));
+    }
+
+    return flags;
+  }
+
+  // Same author, editor or organization recorded in different vendors' documents
+  private checkSharedDocumentMetadata(solicitationId: string, first: VendorBid, second: VendorBid): CollusionFlag[] {
+    const fields: (keyof SubmittedDocumentMetadata)[] = ['author', 'lastModifiedBy', 'organization'];
+
+    const valuesFor = (bid: VendorBid, field: keyof SubmittedDocumentMetadata) => new Set(
+      (bid.documentMetadata || [])
+        .map(metadata => metadata[field])
+        .filter(value => typeof value === 'string' && value.trim())
+        .map(value => (value as string).trim().toLowerCase())
+    );
+
+    return fields.flatMap(field => {
+      const secondValues = valuesFor(second, field);
+      const shared = [...valuesFor(first, field)].filter(value => secondValues.has(value));
+
+      return shared.length === 0 ? [] : [this.flag(solicitationId, 'SHARED_DOCUMENT_METADATA', [first, second],
+        'HIGH',
+        `Submitted documents share ${field}: ${shared.join(', ')}`,
+        { sharedValues: shared.length }
+      )];
+    });
+  }
+
+  // Overlapping phrasing between proposedSolution texts
+  private checkSimilarPhrasing(solicitationId: string, first: VendorBid, second: VendorBid): CollusionFlag[] {
+    const firstShingles = this.shingles(first.proposedSolution);
+    const secondShingles = this.shingles(second.proposedSolution);
+    if (firstShingles.size === 0 || secondShingles.size === 0) return [];
+
+    const intersection = [...firstShingles].filter(shingle => secondShingles.has(shingle)).length;
+    const similarity = intersection / (firstShingles.size + secondShingles.size - intersection);
+
+    if (similarity < BidCollusionDetector.THRESHOLDS.PHRASING_SIMILARITY) return [];
+
+    return [this.flag(solicitationId, 'SIMILAR_PHRASING', [first, second],
+      similarity >= 0.5 ? 'HIGH' : 'MEDIUM',
+      `Proposed solutions share ${(similarity * 100).toFixed(0)}% of their ` +
+        `${BidCollusionDetector.THRESHOLDS.SHINGLE_SIZE}-word phrases`,
+      { similarity, sharedPhrases: intersection }
+    )];
+  }
+
+  // Awards among the same bidders taking turns
+  private checkRotatingWinners(
+    solicitationId: string,
+    vendorIds: string[],
+    awardHistory: AwardHistoryRecord[]
+  ): CollusionFlag[] {
+    const group = new Set(vendorIds);
+    const sharedCompetitions = awardHistory
+      .filter(record => record.bids.filter(bid => group.has(bid.vendorId)).length >= 2)
+      .sort((a, b) => a.awardedAt.getTime() - b.awardedAt.getTime());
+
+    if (sharedCompetitions.length < BidCollusionDetector.THRESHOLDS.ROTATION_MIN_SOLICITATIONS) {
+      return [];
+    }
+
+    const winners = sharedCompetitions.map(record => record.awardedVendorId);
+    const allWithinGroup = winners.every(winner => group.has(winner));
+    const noRepeatWins = winners.every((winner, index) => index === 0 || winner !== winners[index - 1]);
+    const distinctWinners = new Set(winners);
+
+    if (!allWithinGroup || !noRepeatWins || distinctWinners.size < 2) return [];
+
+    return [{
+      solicitationId,
+      pattern: 'ROTATING_WINNERS',
+      vendorIds: [...distinctWinners],
+      severity: distinctWinners.size >= 3 ? 'HIGH' : 'MEDIUM',
+      evidence: `Awards across ${sharedCompetitions.length} prior solicitations rotated among ` +
+        `${[...distinctWinners].join(', ')} with no vendor winning twice in a row`,
+      metrics: { sharedSolicitations: sharedCompetitions.length, distinctWinners: distinctWinners.size }
+    }];
+  }
+
+  // One vendor repeatedly losing by a thin margin to the same winner
+  private checkCoverBidding(
+    solicitationId: string,
+    vendorIds: string[],
+    awardHistory: AwardHistoryRecord[]
+  ): CollusionFlag[] {
+    const thresholds = BidCollusionDetector.THRESHOLDS;
+    const flags: CollusionFlag[] = [];
+
+    vendorIds.forEach(winnerId => vendorIds.forEach(coverId => {
+      if (winnerId === coverId) return;
+
+      const shared = awardHistory.filter(record =>
+        record.awardedVendorId === winnerId &&
+        record.bids.some(bid => bid.vendorId === coverId)
+      );
+      const thinLosses = shared.filter(record => {
+        const winning = record.bids.find(bid => bid.vendorId === winnerId);
+        const cover = record.bids.find(bid => bid.vendorId === coverId);
+        if (!winning || !cover || winning.totalEvaluatedPrice <= 0) return false;
+
+        const margin = (cover.totalEvaluatedPrice - winning.totalEvaluatedPrice) / winning.totalEvaluatedPrice;
+        return margin >= thresholds.COVER_BID_MARGIN.MIN && margin <= thresholds.COVER_BID_MARGIN.MAX;
+      });
+
+      if (
+        thinLosses.length >= thresholds.COVER_BID_MIN_OCCURRENCES &&
+        thinLosses.length / shared.length >= thresholds.COVER_BID_MIN_SHARE
+      ) {
+        flags.push({
+          solicitationId,
+          pattern: 'COVER_BIDDING',
+          vendorIds: [winnerId, coverId],
+          severity: 'MEDIUM',
+          evidence: `${coverId} bid 1-5% above winner ${winnerId} in ${thinLosses.length} of ` +
+            `${shared.length} prior solicitations they both entered`,
+          metrics: { thinLosses: thinLosses.length, sharedSolicitations: shared.length }
+        });
+      }
+    }));
+
+    return flags;
+  }
+
+  // Bids whose CLINs cannot be priced are left out of price comparisons rather than failing the analysis
+  private priceBids(bids: VendorBid[], solicitation: BidSolicitation): Map<string, TotalEvaluatedPrice> {
+    const prices = new Map<string, TotalEvaluatedPrice>();
+    bids.forEach(bid => {
+      try {
+        prices.set(bid.vendorId, this.priceCalculator.calculate(bid, solicitation));
+      } catch (error) {
+        return;
+      }
+    });
+    return prices;
+  }
+
+  private vendorPairs(bids: VendorBid[]): [VendorBid, VendorBid][] {
+    const pairs: [VendorBid, VendorBid][] = [];
+    bids.forEach((first, i) => bids.slice(i + 1).forEach(second => pairs.push([first, second])));
+    return pairs;
+  }
+
+  private shingles(text: string): Set<string> {
+    const size = BidCollusionDetector.THRESHOLDS.SHINGLE_SIZE;
+    const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+    const shingles = new Set<string>();
+
+    for (let i = 0; i + size <= words.length; i++) {
+      shingles.add(words.slice(i, i + size).join(' '));
+    }
+    return shingles;
+  }
+
+  private flag(
+    solicitationId: string,
+    pattern: CollusionPattern,
+    bids: VendorBid[],
+    severity: CollusionSeverity,
+    evidence: string,
+    metrics: Record<string, number>
+  ): CollusionFlag {
+    return {
+      solicitationId,
+      pattern,
+      vendorIds: bids.map(bid => bid.vendorId),
+      severity,
+      evidence,
+      metrics
+    };
+  }
+}
+
+// Type Definitions
+type CollusionPattern =
+  'IDENTICAL_PRICING' |
+  'SHARED_DOCUMENT_METADATA' |
+  'SIMILAR_PHRASING' |
+  'ROTATING_WINNERS' |
+  'COVER_BIDDING';
+
+type CollusionSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+// File properties captured from a vendor's submitted documents
+interface SubmittedDocumentMetadata {
+  fileName: string;
+  author?: string;
+  lastModifiedBy?: string;
+  organization?: string;
+  createdAt?: Date;
+}
+
+// Stored outcome of a past solicitation, used for cross-solicitation patterns
+interface AwardHistoryRecord {
+  solicitationId: string;
+  awardedAt: Date;
+  awardedVendorId: string;
+  bids: { vendorId: string; totalEvaluatedPrice: number }[];
+}
+
+interface CollusionFlag {
+  solicitationId: string;
+  pattern: CollusionPattern;
+  vendorIds: string[];
+  severity: CollusionSeverity;
+  evidence: string;
+  metrics: Record<string, number>;
+}
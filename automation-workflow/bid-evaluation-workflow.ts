@@ -2,116 +2,781 @@
 
 // Weighted Scoring Model for Bid Evaluation
 class BidEvaluationEngine {
-  // Core evaluation criteria weights
-  private static EVALUATION_CRITERIA = {
+  // Core evaluation criteria weights (default weighting profile)
+  private static EVALUATION_CRITERIA: Record<string, number> = {
     PRICE: 0.4,            // Price competitiveness
     TECHNICAL_MERIT: 0.3,  // Solution quality
     VENDOR_RELIABILITY: 0.2, // Vendor track record
     COMPLIANCE: 0.1        // Regulatory adherence
   };
 
+  // Allowed rounding drift when checking that profile weights sum to 1
+  private static WEIGHT_SUM_TOLERANCE = 0.0001;
+
+  // Small-business subcontracting share that earns full participation points
+  private static SMALL_BUSINESS_PARTICIPATION_TARGET = 0.3;
+
+  // Score bands used to classify findings for debriefs
+  private static FINDING_THRESHOLDS = {
+    STRENGTH: 80,   // At or above: strength
+    WEAKNESS: 60,   // Below: weakness
+    DEFICIENCY: 30  // Below: deficiency
+  };
+
+  // Registry of scorers for criteria beyond the four core dimensions
+  private additionalCriterionScorers: Map<string, CriterionScorer> = new Map();
+
+  // Price scoring strategies selectable per solicitation
+  private priceScoringModels = new PriceScoringModelRegistry();
+
+  // Maps solicitation requirements to proposal sections
+  private complianceMatrixBuilder = new RequirementsComplianceMatrixBuilder();
+  private priceCalculator = new TotalEvaluatedPriceCalculator();
+
+  // Evaluator on whose behalf this engine view scores; required once an access gate is configured
+  private actingEvaluatorId?: string;
+
+  // Clause-by-clause regulatory check behind the COMPLIANCE score, e.g. the FAR/DFARS rule library
+  private regulatoryCompliance?: RegulatoryComplianceAssessor;
+
+  constructor(
+    private pastPerformance: PastPerformanceRepository = new PastPerformanceRepository(),
+    private accessGate?: BidAccessGate
+  ) {
+    this.registerCriterionScorer('SMALL_BUSINESS_PARTICIPATION', bid =>
+      this.assessSmallBusinessParticipation(bid)
+    );
+  }
+
+  // Register a scorer so weighting profiles can reference a new criterion
+  registerCriterionScorer(criterion: string, scorer: CriterionScorer) {
+    this.additionalCriterionScorers.set(criterion, scorer);
+  }
+
+  // Score COMPLIANCE against the acquisition regulations that apply to each bid
+  useRegulatoryCompliance(assessor: RegulatoryComplianceAssessor) {
+    this.regulatoryCompliance = assessor;
+  }
+
+  // Register a custom price scoring model solicitations can select
+  registerPriceScoringModel(modelType: string, factory: PriceScoringModelFactory) {
+    this.priceScoringModels.registerModel(modelType, factory);
+  }
+
+  // Resolve the weighting profile a solicitation is scored against
+  resolveWeightingProfile(solicitation: BidSolicitation): EvaluationWeightingProfile {
+    const profile = solicitation.evaluationProfile || {
+      profileName: 'DEFAULT',
+      weights: { ...BidEvaluationEngine.EVALUATION_CRITERIA }
+    };
+
+    this.validateWeightingProfile(profile);
+    return profile;
+  }
+
+  // Weighting profile validation
+  validateWeightingProfile(profile: EvaluationWeightingProfile) {
+    const criteria = Object.keys(profile.weights);
+    if (criteria.length === 0) {
+      throw new Error(`Weighting profile ${profile.profileName} defines no criteria`);
+    }
+
+    criteria.forEach(criterion => {
+      const weight = profile.weights[criterion];
+      if (!(weight >= 0 && weight <= 1)) {
+        throw new Error(
+          `Weighting profile ${profile.profileName} has invalid weight ${weight} for ${criterion}`
+        );
+      }
+      if (!this.isScorableCriterion(criterion)) {
+        throw new Error(
+          `Weighting profile ${profile.profileName} references unknown criterion: ${criterion}`
+        );
+      }
+    });
+
+    const totalWeight = criteria.reduce((sum, criterion) => sum + profile.weights[criterion], 0);
+    if (Math.abs(totalWeight - 1) > BidEvaluationEngine.WEIGHT_SUM_TOLERANCE) {
+      throw new Error(
+        `Weighting profile ${profile.profileName} weights sum to ${totalWeight}, expected 1`
+      );
+    }
+  }
+
+  // Engine view that scores on behalf of one evaluator; registries and data sources are shared
+  forEvaluator(evaluatorId: string): BidEvaluationEngine {
+    const scoped: BidEvaluationEngine = Object.create(this);
+    scoped.actingEvaluatorId = evaluatorId;
+    return scoped;
+  }
+
   // Evaluate a single bid against multiple dimensions
-  evaluateBid(bid: VendorBid, solicitation: BidSolicitation): BidScore {
+  evaluateBid(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    competingBids: VendorBid[] = [bid]
+  ): BidScore {
+    // Every scoring path (source selection, workflows, sensitivity, negotiation) passes through here
+    this.assertScoringAccess(solicitation, [bid, ...competingBids]);
+
+    const profile = this.resolveWeightingProfile(solicitation);
+
+    // Every scoring component records the rule it applied and the inputs it used
+    const findings: EvaluationFinding[] = [];
+
+    const coreScores: Record<string, number> = {
+      PRICE: this.calculatePriceScore(bid, solicitation, competingBids, findings),
+      TECHNICAL_MERIT: this.evaluateTechnicalProposal(bid, solicitation, findings),
+      VENDOR_RELIABILITY: this.assessVendorHistory(bid, findings),
+      COMPLIANCE: this.checkRegulatoryCompliance(bid, solicitation, findings)
+    };
+
+    // Weighted breakdown for every criterion in the solicitation's profile
+    const criterionBreakdown = Object.keys(profile.weights).map(criterion => {
+      const rawScore = criterion in coreScores
+        ? coreScores[criterion]
+        : this.recordScoreBand(
+          findings,
+          criterion,
+          criterion,
+          this.additionalCriterionScorers.get(criterion)!(bid, solicitation)
+        );
+      const weight = profile.weights[criterion];
+
+      return {
+        criterion,
+        rawScore,
+        weight,
+        weightedScore: rawScore * weight
+      };
+    });
+
     return {
-      priceScore: this.calculatePriceScore(bid, solicitation),
-      technicalScore: this.evaluateTechnicalProposal(bid),
-      vendorReliabilityScore: this.assessVendorHistory(bid),
-      complianceScore: this.checkRegulatoryCompliance(bid)
+      priceScore: coreScores.PRICE,
+      technicalScore: coreScores.TECHNICAL_MERIT,
+      vendorReliabilityScore: coreScores.VENDOR_RELIABILITY,
+      complianceScore: coreScores.COMPLIANCE,
+      profileName: profile.profileName,
+      weightedTotal: criterionBreakdown.reduce((sum, entry) => sum + entry.weightedScore, 0),
+      criterionBreakdown,
+      findings
     };
   }
 
-  // Price scoring with progressive discount model
-  private calculatePriceScore(bid: VendorBid, solicitation: BidSolicitation): number {
-    const relativePrice = bid.pricing.totalCost / solicitation.budget;
-    
-    // Non-linear pricing penalty
-    if (relativePrice < 0.7) return 100;  // Extremely competitive
-    if (relativePrice < 0.9) return 85;   // Very competitive
-    if (relativePrice < 1.0) return 70;   // Competitive
-    if (relativePrice < 1.1) return 50;   // Acceptable
-    return 30;  // Relatively expensive
+  // Evaluation on behalf of a named evaluator, gated by their conflict-of-interest declaration
+  evaluateBidForEvaluator(
+    evaluatorId: string,
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    competingBids: VendorBid[] = [bid]
+  ): BidScore {
+    if (!this.accessGate) {
+      throw new Error('No bid access gate configured for evaluator access');
+    }
+    return this.forEvaluator(evaluatorId).evaluateBid(bid, solicitation, competingBids);
+  }
+
+  // Rank all bids for a solicitation and produce an award recommendation
+  evaluateBids(solicitation: BidSolicitation, bids: VendorBid[]): BidEvaluationReport {
+    return new SourceSelectionEvaluator(this).evaluate(solicitation, bids);
+  }
+
+  // Show whether the top-ranked bid survives changes to the criterion weights
+  analyzeWeightSensitivity(
+    solicitation: BidSolicitation,
+    bids: VendorBid[],
+    options: SensitivityAnalysisOptions = {}
+  ): WeightSensitivityReport {
+    return new WeightSensitivityAnalyzer(this).analyze(solicitation, bids, options);
   }
 
-  // Technical proposal evaluation
-  private evaluateTechnicalProposal(bid: VendorBid): number {
-    const technicalCriteria = [
-      this.assessSolutionInnovation(bid),
-      this.validateDeliveryCapability(bid),
-      this.checkDetailedRequirementAlignment(bid)
-    ];
+  // Detect unbalanced line-item pricing and refer unrealistically low prices for review
+  analyzeLineItemPricing(
+    solicitation: BidSolicitation,
+    bids: VendorBid[],
+    governmentEstimate: IndependentGovernmentCostEstimate
+  ): PriceAnalysisReport {
+    return new UnbalancedPricingAnalyzer().analyze(solicitation, bids, governmentEstimate);
+  }
+
+  // With a gate configured, only a named evaluator cleared for every bidding vendor may score
+  private assertScoringAccess(solicitation: BidSolicitation, bids: VendorBid[]) {
+    if (!this.accessGate) return;
+
+    if (!this.actingEvaluatorId) {
+      throw new Error(`Scoring bids for ${solicitation.id} requires a named evaluator`);
+    }
+    this.accessGate.assertBidAccess(
+      this.actingEvaluatorId,
+      solicitation.id,
+      [...new Set(bids.map(bid => bid.vendorId))]
+    );
+  }
+
+  // Core criteria are always scorable; others need a registered scorer
+  private isScorableCriterion(criterion: string): boolean {
+    return criterion in BidEvaluationEngine.EVALUATION_CRITERIA ||
+      this.additionalCriterionScorers.has(criterion);
+  }
+
+  // Small-business participation relative to the subcontracting target
+  private assessSmallBusinessParticipation(bid: VendorBid): number {
+    const participation = bid.smallBusinessParticipation || 0;
+    const target = BidEvaluationEngine.SMALL_BUSINESS_PARTICIPATION_TARGET;
+
+    return Math.min(100, (participation / target) * 100);
+  }
+
+  // Price scoring through the solicitation's selected model
+  private calculatePriceScore(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    competingBids: VendorBid[],
+    findings: EvaluationFinding[] = []
+  ): number {
+    const model = this.priceScoringModels.resolveModel(solicitation);
+    const result = model.scorePrice(bid, {
+      solicitation,
+      competingBids,
+      evaluatedPrice: scoredBid => this.calculateTotalEvaluatedPrice(scoredBid, solicitation).total
+    });
+
+    findings.push({
+      criterion: 'PRICE',
+      component: `PRICE_MODEL_${model.modelType}`,
+      classification: this.classifyScore(result.score),
+      rule: result.rule,
+      inputs: result.inputs,
+      narrative: result.explanation
+    });
+    return result.score;
+  }
+
+  // Technical proposal evaluation, scored on requirement alignment
+  private evaluateTechnicalProposal(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    findings: EvaluationFinding[] = []
+  ): number {
+    return this.checkDetailedRequirementAlignment(bid, solicitation, findings);
+  }
+
+  // Regulatory compliance: share of the applicable clauses' representations and documents the bid provides
+  private checkRegulatoryCompliance(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    findings: EvaluationFinding[] = []
+  ): number {
+    // Without a rule library only the presence of compliance documentation can be checked
+    if (!this.regulatoryCompliance) {
+      return this.recordScoreBand(
+        findings,
+        'COMPLIANCE',
+        'REGULATORY_COMPLIANCE',
+        bid.complianceDocuments.length > 0 ? 100 : 0
+      );
+    }
+
+    const result = this.regulatoryCompliance(bid, solicitation);
+    const missing = result.missingRepresentations.length + result.missingDocuments.length;
+    const score = result.requirementsAssessed === 0
+      ? 100
+      : ((result.requirementsAssessed - missing) / result.requirementsAssessed) * 100;
+
+    findings.push({
+      criterion: 'COMPLIANCE',
+      component: 'ACQUISITION_REGULATIONS',
+      classification: this.classifyScore(score),
+      rule: 'APPLICABLE_CLAUSE_COVERAGE',
+      inputs: {
+        applicableClauses: result.applicableClauses.length,
+        requirementsAssessed: result.requirementsAssessed,
+        missingRepresentations: result.missingRepresentations.join(', ') || 'none',
+        missingDocuments: result.missingDocuments.join(', ') || 'none',
+        ruleLibraryVersion: result.ruleLibraryVersion || 'unversioned'
+      },
+      narrative: missing === 0
+        ? `All ${result.requirementsAssessed} representation(s) and document(s) required by ` +
+          `${result.applicableClauses.length} applicable clause(s) were provided.`
+        : `${missing} of ${result.requirementsAssessed} required representation(s) and document(s) ` +
+          `were missing: ${result.findings.join('; ')}.`
+    });
+    return score;
+  }
+
+  // Recency-weighted reliability from the vendor's past-performance records
+  private assessVendorHistory(bid: VendorBid, findings: EvaluationFinding[] = []): number {
+    const assessment = this.pastPerformance.assessReliability(bid.vendorId);
 
-    return technicalCriteria.reduce((a, b) => a + b, 0) / technicalCriteria.length;
+    findings.push({
+      criterion: 'VENDOR_RELIABILITY',
+      component: 'PAST_PERFORMANCE_HISTORY',
+      classification: assessment.recordCount === 0 ? 'NEUTRAL' : this.classifyScore(assessment.score),
+      rule: assessment.recordCount === 0 ? 'NO_HISTORY_NEUTRAL_SCORE' : 'RECENCY_WEIGHTED_RELIABILITY',
+      inputs: {
+        recordCount: assessment.recordCount,
+        terminationsForDefault: assessment.terminationsForDefault,
+        disputeCount: assessment.disputeCount,
+        averageOnTimeDeliveryRate: assessment.averageOnTimeDeliveryRate,
+        averageQualityRating: assessment.averageQualityRating,
+        score: assessment.score
+      },
+      narrative: assessment.recordCount === 0
+        ? 'No relevant past performance on record; a neutral reliability score was assigned.'
+        : `Reliability of ${assessment.score.toFixed(1)} from ${assessment.recordCount} contract(s), ` +
+          `weighted toward recent work, with ${assessment.terminationsForDefault} termination(s) ` +
+          `for default and ${assessment.disputeCount} dispute(s).`
+    });
+    return assessment.score;
+  }
+
+  // Total evaluated price from the bid's CLINs; the vendor-stated total is not used for evaluation
+  calculateTotalEvaluatedPrice(bid: VendorBid, solicitation: BidSolicitation): TotalEvaluatedPrice {
+    return this.priceCalculator.calculate(bid, solicitation);
+  }
+
+  // Requirement-by-requirement compliance matrix for a bid
+  buildComplianceMatrix(bid: VendorBid, solicitation: BidSolicitation): ComplianceMatrix {
+    return this.complianceMatrixBuilder.build(bid, solicitation);
+  }
+
+  // Requirement alignment scored from the compliance matrix
+  private checkDetailedRequirementAlignment(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    findings: EvaluationFinding[] = []
+  ): number {
+    const matrix = this.buildComplianceMatrix(bid, solicitation);
+
+    // Requirement-level findings: gaps are deficiencies or weaknesses, met desirables are strengths
+    matrix.entries.forEach(entry => {
+      const classification: FindingClassification =
+        entry.status !== 'MET' && entry.status !== 'PARTIALLY_MET' && entry.priority === 'MANDATORY' ? 'DEFICIENCY' :
+        entry.status === 'MET' ? (entry.priority === 'DESIRABLE' ? 'STRENGTH' : 'NEUTRAL') :
+        'WEAKNESS';
+
+      findings.push({
+        criterion: 'TECHNICAL_MERIT',
+        component: 'REQUIREMENT_ALIGNMENT',
+        classification,
+        rule: `REQUIREMENT_${entry.status}`,
+        inputs: {
+          requirementId: entry.requirementId,
+          priority: entry.priority,
+          proposalSection: entry.proposalSection || 'none'
+        },
+        narrative: `${entry.requirementId} (${entry.priority.toLowerCase()}): ${entry.note}.`
+      });
+    });
+
+    return this.complianceMatrixBuilder.calculateAlignmentScore(matrix);
+  }
+
+  // Band-based finding for components that only produce a score
+  private recordScoreBand(
+    findings: EvaluationFinding[],
+    criterion: string,
+    component: string,
+    score: number
+  ): number {
+    const classification = this.classifyScore(score);
+    const thresholds = BidEvaluationEngine.FINDING_THRESHOLDS;
+
+    findings.push({
+      criterion,
+      component,
+      classification,
+      rule: `SCORE_BAND_${classification}`,
+      inputs: {
+        score,
+        strengthThreshold: thresholds.STRENGTH,
+        weaknessThreshold: thresholds.WEAKNESS,
+        deficiencyThreshold: thresholds.DEFICIENCY
+      },
+      narrative: `${component.toLowerCase().replace(/_/g, ' ')} scored ${score.toFixed(1)} of 100.`
+    });
+    return score;
+  }
+
+  private classifyScore(score: number): FindingClassification {
+    const thresholds = BidEvaluationEngine.FINDING_THRESHOLDS;
+
+    if (score >= thresholds.STRENGTH) return 'STRENGTH';
+    if (score < thresholds.DEFICIENCY) return 'DEFICIENCY';
+    if (score < thresholds.WEAKNESS) return 'WEAKNESS';
+    return 'NEUTRAL';
   }
 
   // Workflow State Machine for Bid Processing
-  processBidWorkflow(bid: VendorBid): BidWorkflowResult {
-    const workflow = new BidWorkflow(bid);
-    
+  processBidWorkflow(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    actor: string,
+    competingBids: VendorBid[] = [bid]
+  ): BidWorkflowResult {
+    const workflow = new BidWorkflow(bid, solicitation, this, competingBids);
+
     workflow
-      .validate()
-      .screen()
-      .evaluate()
-      .negotiate()
-      .finalize();
+      .validate(actor)
+      .screen(actor)
+      .evaluate(actor)
+      .negotiate(actor)
+      .finalize(actor);
 
     return workflow.getResult();
   }
+
+  // Run every offer through the workflow, rank those that survive screening and record the award
+  processSolicitationWorkflows(
+    solicitation: BidSolicitation,
+    bids: VendorBid[],
+    actor: string
+  ): SolicitationWorkflowResult {
+    const workflows = bids.map(bid =>
+      new BidWorkflow(bid, solicitation, this, bids).validate(actor).screen(actor)
+    );
+
+    // Screened-out offers are neither scored nor counted as competition for price scoring
+    const screened = workflows.filter(workflow => workflow.getCurrentState() === 'SCREENING');
+    const competingBids = screened.map(workflow => workflow.getBid());
+    screened.forEach(workflow => workflow.evaluate(actor, competingBids).finalize(actor));
+
+    const finalized = screened.filter(workflow => workflow.getCurrentState() === 'FINALIZATION');
+    const report = this.evaluateBids(solicitation, finalized.map(workflow => workflow.getBid()));
+    finalized.forEach(workflow => workflow.recordAwardDecision(report.awardRecommendation));
+
+    // Offers rejected by the workflow are reported as excluded, with the guard that stopped them
+    const screenedOut = workflows
+      .map(workflow => ({ vendorId: workflow.getBid().vendorId, result: workflow.getResult() }))
+      .filter(({ result }) => result.finalState === 'REJECTED')
+      .map(({ vendorId, result }) => ({ vendorId, reason: `Rejected in workflow: ${result.rejectionReason}` }));
+
+    return {
+      report: { ...report, excludedBids: [...screenedOut, ...report.excludedBids] },
+      bidResults: workflows.map(workflow => workflow.getResult())
+    };
+  }
 }
 
 // Workflow State Management
 class BidWorkflow {
+  // Declared transitions; any active state may drop to REJECTED
+  private static ALLOWED_TRANSITIONS: Record<WorkflowState, WorkflowState[]> = {
+    INITIAL: ['VALIDATION', 'REJECTED'],
+    VALIDATION: ['SCREENING', 'REJECTED'],
+    SCREENING: ['EVALUATION', 'REJECTED'],
+    EVALUATION: ['NEGOTIATION', 'FINALIZATION', 'REJECTED'],
+    NEGOTIATION: ['FINALIZATION', 'REJECTED'],
+    FINALIZATION: ['PROTESTED'],
+    PROTESTED: ['FINALIZATION', 'REJECTED', 'EVALUATION'],  // Prior state, or reopened by corrective action
+    REJECTED: ['PROTESTED']
+  };
+
+  // Bids priced beyond this multiple of budget are screened out
+  private static SCREENING_BUDGET_CEILING = 1.25;
+
   private currentState: WorkflowState = 'INITIAL';
   private bid: VendorBid;
+  private solicitation: BidSolicitation;
+  private engine: BidEvaluationEngine;
+  private competingBids: VendorBid[];
+  private score?: BidScore;
+  private rejectionReason?: string;
+  private stateBeforeProtest?: WorkflowState;
+  private awardDecision?: AwardRecommendation;
+  private transitionHistory: BidStateTransition[] = [];
+  private guards: Map<WorkflowState, BidWorkflowGuard[]> = new Map();
 
-  constructor(bid: VendorBid) {
+  constructor(
+    bid: VendorBid,
+    solicitation: BidSolicitation,
+    engine: BidEvaluationEngine,
+    competingBids: VendorBid[] = [bid]
+  ) {
     this.bid = bid;
+    this.solicitation = solicitation;
+    this.engine = engine;
+    this.competingBids = competingBids;
+    this.registerDefaultGuards();
   }
 
-  validate(): this {
-    // Perform initial bid validation
-    this.currentState = 'VALIDATION';
-    // Checks: completeness, format, initial compliance
+  // Attach an additional guard condition to a state
+  addGuard(state: WorkflowState, guard: BidWorkflowGuard): this {
+    const stateGuards = this.guards.get(state) || [];
+    stateGuards.push(guard);
+    this.guards.set(state, stateGuards);
     return this;
   }
 
-  screen(): this {
-    // Initial screening for basic requirements
-    this.currentState = 'SCREENING';
+  validate(actor: string): this {
+    // Checks: completeness, format, initial compliance
+    return this.advance('VALIDATION', actor, 'Bid submission complete and well-formed');
+  }
+
+  screen(actor: string): this {
     // Remove bids that don't meet minimum criteria
-    return this;
+    return this.advance('SCREENING', actor, 'Bid meets minimum screening criteria');
   }
 
-  evaluate(): this {
-    // Detailed technical and financial evaluation
-    this.currentState = 'EVALUATION';
-    // Apply scoring algorithms
-    return this;
+  evaluate(actor: string, competingBids: VendorBid[] = this.competingBids): this {
+    // A rejected bid stays rejected; the transition is checked before anything is scored
+    if (this.currentState === 'REJECTED') {
+      return this;
+    }
+    this.assertTransitionAllowed('EVALUATION');
+
+    // Apply scoring algorithms before evaluation guards inspect the result
+    this.competingBids = competingBids;
+    this.score = this.engine.evaluateBid(this.bid, this.solicitation, this.competingBids);
+    return this.advance('EVALUATION', actor, 'Technical and price evaluation completed');
   }
 
-  negotiate(): this {
-    // Optional negotiation phase
-    this.currentState = 'NEGOTIATION';
-    // Potential for clarifications or minor adjustments
-    return this;
+  negotiate(actor: string, revisedBid?: VendorBid): this {
+    // Optional negotiation phase; a revised offer (e.g. BAFO) replaces the bid and is re-scored
+    if (this.currentState === 'REJECTED') {
+      return this;
+    }
+    this.assertTransitionAllowed('NEGOTIATION');
+
+    if (!revisedBid) {
+      return this.advance('NEGOTIATION', actor, 'Discussions opened with vendor');
+    }
+    if (revisedBid.vendorId !== this.bid.vendorId) {
+      throw new Error(`Revised offer from ${revisedBid.vendorId} cannot replace the bid from ${this.bid.vendorId}`);
+    }
+
+    // The revised offer must still pass validation and screening, e.g. stay under the budget ceiling
+    const failedGuard = this.findFailedGuard(['VALIDATION', 'SCREENING'], {
+      bid: revisedBid,
+      solicitation: this.solicitation
+    });
+    if (failedGuard) {
+      return this.reject(actor, `Revised offer: ${failedGuard.reason}`);
+    }
+
+    this.bid = revisedBid;
+    this.competingBids = this.competingBids.map(bid =>
+      bid.vendorId === revisedBid.vendorId ? revisedBid : bid
+    );
+    this.score = this.engine.evaluateBid(this.bid, this.solicitation, this.competingBids);
+    return this.advance('NEGOTIATION', actor, 'Revised offer received and re-evaluated');
   }
 
-  finalize(): this {
+  finalize(actor: string): this {
     // Final decision and documentation
-    this.currentState = 'FINALIZATION';
+    return this.advance('FINALIZATION', actor, 'Evaluation finalized for award decision');
+  }
+
+  protest(actor: string, grounds: string): this {
+    // A rejected or finalized bid may be protested after award; nothing changes unless the transition is allowed
+    this.assertTransitionAllowed('PROTESTED');
+    this.stateBeforeProtest = this.currentState;
+    this.recordTransition('PROTESTED', actor, grounds);
+    return this;
+  }
+
+  resolveProtest(actor: string, outcome: ProtestOutcome, rationale: string): this {
+    if (this.currentState !== 'PROTESTED') {
+      throw new Error(`Bid workflow has no pending protest to resolve (state ${this.currentState})`);
+    }
+
+    // Without corrective action the bid returns to where it stood
+    if (outcome !== 'CORRECTIVE_ACTION') {
+      const priorState = this.stateBeforeProtest!;
+      this.assertTransitionAllowed(priorState);
+      this.stateBeforeProtest = undefined;
+      return this.advance(priorState, actor, rationale);
+    }
+
+    // Reopened evaluation starts from validation and screening, so a bid that never passed them is rejected again.
+    // Scoring happens before any state changes, so a scoring failure leaves the protest pending
+    this.assertTransitionAllowed('EVALUATION');
+    const failedGuard = this.findFailedGuard(['VALIDATION', 'SCREENING'], {
+      bid: this.bid,
+      solicitation: this.solicitation
+    });
+    const score = failedGuard
+      ? undefined
+      : this.engine.evaluateBid(this.bid, this.solicitation, this.competingBids);
+
+    // The earlier rejection and award no longer stand once evaluation is reopened
+    this.stateBeforeProtest = undefined;
+    this.awardDecision = undefined;
+    if (failedGuard) {
+      return this.reject(actor, `Corrective action: ${failedGuard.reason}`);
+    }
+    this.rejectionReason = undefined;
+    this.score = score;
+    return this.advance('EVALUATION', actor, rationale);
+  }
+
+  // The source selection decision determines whether a finalized bid won
+  recordAwardDecision(decision: AwardRecommendation): this {
+    if (this.currentState !== 'FINALIZATION') {
+      throw new Error(`Award decision can only be recorded for a finalized bid, not ${this.currentState}`);
+    }
+    this.awardDecision = decision;
     return this;
   }
 
+  getCurrentState(): WorkflowState {
+    return this.currentState;
+  }
+
+  getBid(): VendorBid {
+    return this.bid;
+  }
+
   getResult(): BidWorkflowResult {
     return {
       finalState: this.currentState,
-      bidOutcome: this.determineFinalOutcome()
+      bidOutcome: this.determineFinalOutcome(),
+      score: this.score,
+      rejectionReason: this.rejectionReason,
+      transitionHistory: [...this.transitionHistory]
     };
   }
 
+  // Guarded Transition: run the target state's guards, reject on first failure
+  private advance(targetState: WorkflowState, actor: string, reason: string): this {
+    // A rejected bid stays rejected; later steps in the chain are skipped
+    if (this.currentState === 'REJECTED') {
+      return this;
+    }
+
+    this.assertTransitionAllowed(targetState);
+
+    const failedGuard = this.findFailedGuard([targetState], {
+      bid: this.bid,
+      solicitation: this.solicitation,
+      score: this.score
+    });
+
+    if (failedGuard) {
+      return this.reject(actor, failedGuard.reason);
+    }
+
+    this.recordTransition(targetState, actor, reason);
+    return this;
+  }
+
+  // First failing guard across the given states; later guards only run once earlier ones pass
+  private findFailedGuard(states: WorkflowState[], context: BidWorkflowContext): GuardResult | undefined {
+    for (const state of states) {
+      for (const guard of this.guards.get(state) || []) {
+        const result = guard(context);
+        if (!result.passed) return result;
+      }
+    }
+    return undefined;
+  }
+
+  private reject(actor: string, reason: string): this {
+    this.rejectionReason = reason;
+    this.recordTransition('REJECTED', actor, reason);
+    return this;
+  }
+
+  private assertTransitionAllowed(targetState: WorkflowState) {
+    const allowed = BidWorkflow.ALLOWED_TRANSITIONS[this.currentState];
+    if (!allowed.includes(targetState)) {
+      throw new Error(
+        `Invalid bid workflow transition: ${this.currentState} -> ${targetState}`
+      );
+    }
+  }
+
+  private recordTransition(toState: WorkflowState, actor: string, reason: string) {
+    this.transitionHistory.push({
+      fromState: this.currentState,
+      toState,
+      triggeredBy: actor,
+      reason,
+      timestamp: new Date()
+    });
+    this.currentState = toState;
+  }
+
+  // Baseline guard conditions applied to every bid
+  private registerDefaultGuards() {
+    this.addGuard('VALIDATION', ({ bid }) => ({
+      passed: Boolean(bid.vendorId && bid.proposedSolution && bid.proposedSolution.trim()),
+      reason: 'Bid is missing a vendor identifier or proposed solution'
+    }));
+
+    this.addGuard('VALIDATION', ({ bid }) => ({
+      passed: Boolean(bid.pricing) && bid.pricing.lineItems.length > 0,
+      reason: 'Bid pricing is missing or has no contract line items'
+    }));
+
+    this.addGuard('VALIDATION', ({ bid, solicitation }) => {
+      try {
+        const evaluatedPrice = this.engine.calculateTotalEvaluatedPrice(bid, solicitation);
+        return {
+          passed: evaluatedPrice.total > 0,
+          reason: 'Bid has no positive total evaluated price'
+        };
+      } catch (error) {
+        return { passed: false, reason: (error as Error).message };
+      }
+    });
+
+    this.addGuard('VALIDATION', ({ bid }) => ({
+      passed: bid.complianceDocuments.length > 0,
+      reason: 'Bid includes no compliance documents'
+    }));
+
+    this.addGuard('SCREENING', ({ bid, solicitation }) => ({
+      passed: bid.solicitation === solicitation.id,
+      reason: `Bid references solicitation ${bid.solicitation}, not ${solicitation.id}`
+    }));
+
+    this.addGuard('SCREENING', ({ bid, solicitation }) => {
+      const evaluatedPrice = this.engine.calculateTotalEvaluatedPrice(bid, solicitation).total;
+      return {
+        passed: evaluatedPrice <= solicitation.budget * BidWorkflow.SCREENING_BUDGET_CEILING,
+        reason: `Total evaluated price ${evaluatedPrice} exceeds the screening ceiling for budget ${solicitation.budget}`
+      };
+    });
+
+    // Any unaddressed mandatory requirement, or exception taken to one, fails screening
+    this.addGuard('SCREENING', ({ bid, solicitation }) => {
+      const matrix = this.engine.buildComplianceMatrix(bid, solicitation);
+      return {
+        passed: matrix.unaddressedMandatory.length === 0,
+        reason: `Mandatory requirements not addressed: ${matrix.unaddressedMandatory.join(', ')}`
+      };
+    });
+
+    this.addGuard('SCREENING', ({ bid, solicitation }) => {
+      const matrix = this.engine.buildComplianceMatrix(bid, solicitation);
+      return {
+        passed: matrix.mandatoryExceptions.length === 0,
+        reason: `Exceptions taken to mandatory requirements: ${matrix.mandatoryExceptions.join(', ')}`
+      };
+    });
+
+    // An offer that does not acknowledge a material amendment is nonresponsive
+    this.addGuard('SCREENING', ({ bid, solicitation }) => {
+      const unacknowledged = SolicitationLifecycleManager.findUnacknowledgedAmendments(bid, solicitation);
+      return {
+        passed: unacknowledged.length === 0,
+        reason: `Material amendments not acknowledged: ${unacknowledged.map(a => a.amendmentNumber).join(', ')}`
+      };
+    });
+
+    this.addGuard('FINALIZATION', ({ score }) => ({
+      passed: Boolean(score),
+      reason: 'Bid cannot be finalized without an evaluation score'
+    }));
+  }
+
   private determineFinalOutcome(): BidOutcome {
-    // Logic to determine final bid status
-    // Could involve multiple evaluation criteria
-    return 'PENDING' | 'ACCEPTED' | 'REJECTED';
+    if (this.currentState === 'REJECTED') return 'REJECTED';
+    if (this.currentState === 'FINALIZATION' && this.awardDecision) {
+      return this.awardDecision.vendorId === this.bid.vendorId ? 'ACCEPTED' : 'NOT_SELECTED';
+    }
+    return 'PENDING';
   }
 }
 
@@ -122,18 +787,71 @@ type WorkflowState =
   'SCREENING' | 
   'EVALUATION' | 
   'NEGOTIATION' | 
-  'FINALIZATION';
+  'FINALIZATION' |
+  'PROTESTED' |
+  'REJECTED';
 
-type BidOutcome = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+type BidOutcome = 'PENDING' | 'ACCEPTED' | 'NOT_SELECTED' | 'REJECTED';
 
 interface BidWorkflowResult {
   finalState: WorkflowState;
   bidOutcome: BidOutcome;
+  score?: BidScore;
+  rejectionReason?: string;
+  transitionHistory: BidStateTransition[];
+}
+
+interface SolicitationWorkflowResult {
+  report: BidEvaluationReport;        // Ranking of the offers that passed screening
+  bidResults: BidWorkflowResult[];    // One per offer received, in submission order
+}
+
+// Audit record of a single state change, kept for protest defense
+interface BidStateTransition {
+  fromState: WorkflowState;
+  toState: WorkflowState;
+  triggeredBy: string;
+  reason: string;
+  timestamp: Date;
+}
+
+interface BidWorkflowContext {
+  bid: VendorBid;
+  solicitation: BidSolicitation;
+  score?: BidScore;
 }
 
+interface GuardResult {
+  passed: boolean;
+  reason: string;
+}
+
+type BidWorkflowGuard = (context: BidWorkflowContext) => GuardResult;
+
 interface BidScore {
   priceScore: number;
   technicalScore: number;
   vendorReliabilityScore: number;
   complianceScore: number;
+  profileName: string;
+  weightedTotal: number;            // 0-100 composite used to rank bids
+  criterionBreakdown: CriterionScoreBreakdown[];
+  findings: EvaluationFinding[];    // Rule-level explanations for debriefs
+}
+
+// Named, per-solicitation set of criterion weights (must sum to 1)
+interface EvaluationWeightingProfile {
+  profileName: string;
+  weights: Record<string, number>;
 }
+
+interface CriterionScoreBreakdown {
+  criterion: string;
+  rawScore: number;       // 0-100
+  weight: number;
+  weightedScore: number;  // rawScore * weight
+}
+
+type CriterionScorer = (bid: VendorBid, solicitation: BidSolicitation) => number;
+
+type RegulatoryComplianceAssessor = (bid: VendorBid, solicitation: BidSolicitation) => RegulatoryComplianceResult;
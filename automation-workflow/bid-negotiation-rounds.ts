@@ -0,0 +1,247 @@
+// Negotiation Rounds and Best-and-Final-Offer (BAFO) Bid Revisions
+
+class BidNegotiationManager {
+  private rounds: Map<string, DiscussionRound> = new Map();
+  // vendorId -> every bid version received, oldest first
+  private versionHistory: Map<string, BidVersion[]> = new Map();
+  // vendorId -> scores recorded against specific versions
+  private evaluationHistory: Map<string, BidVersionEvaluation[]> = new Map();
+
+  constructor(readonly solicitation: BidSolicitation) {}
+
+  // Register the originally submitted proposal as version 1
+  recordInitialBid(bid: VendorBid, submittedBy: string): BidVersion {
+    if (this.versionHistory.has(bid.vendorId)) {
+      throw new Error(`Initial bid already recorded for vendor ${bid.vendorId}`);
+    }
+    return this.appendVersion(bid, submittedBy, null, false);
+  }
+
+  // Open Discussions with Selected Vendors
+  openDiscussionRound(vendorIds: string[], openedBy: string): DiscussionRound {
+    return this.openRound(vendorIds, openedBy, false);
+  }
+
+  // Final round: each vendor may submit exactly one Best-and-Final Offer
+  requestBestAndFinalOffers(vendorIds: string[], openedBy: string): DiscussionRound {
+    return this.openRound(vendorIds, openedBy, true);
+  }
+
+  closeRound(roundId: string, closedBy: string): DiscussionRound {
+    const round = this.getOpenRound(roundId);
+    round.status = 'CLOSED';
+    round.closedBy = closedBy;
+    round.closedAt = new Date();
+    return round;
+  }
+
+  // Clarification Exchange
+  sendClarification(
+    roundId: string,
+    vendorId: string,
+    question: string,
+    askedBy: string
+  ): ClarificationRequest {
+    const round = this.getOpenRound(roundId);
+    this.assertRoundParticipant(round, vendorId);
+
+    const clarification: ClarificationRequest = {
+      clarificationId: `${roundId}-Q${round.clarifications.length + 1}`,
+      vendorId,
+      question,
+      askedBy,
+      askedAt: new Date()
+    };
+    round.clarifications.push(clarification);
+    return clarification;
+  }
+
+  answerClarification(roundId: string, clarificationId: string, response: string) {
+    const round = this.getOpenRound(roundId);
+    const clarification = round.clarifications.find(entry => entry.clarificationId === clarificationId);
+
+    if (!clarification) {
+      throw new Error(`Unknown clarification ${clarificationId} in round ${roundId}`);
+    }
+    if (clarification.response) {
+      throw new Error(`Clarification ${clarificationId} has already been answered`);
+    }
+
+    clarification.response = response;
+    clarification.respondedAt = new Date();
+  }
+
+  // Revised Proposal Submission (earlier versions are never modified)
+  submitRevision(roundId: string, revisedBid: VendorBid, submittedBy: string): BidVersion {
+    const round = this.getOpenRound(roundId);
+    this.assertRoundParticipant(round, revisedBid.vendorId);
+
+    const history = this.versionHistory.get(revisedBid.vendorId)!;
+    if (history[history.length - 1].isBestAndFinalOffer) {
+      throw new Error(`Vendor ${revisedBid.vendorId} has already submitted a Best-and-Final Offer`);
+    }
+
+    return this.appendVersion(revisedBid, submittedBy, round.roundId, round.isBestAndFinalCall);
+  }
+
+  getLatestVersion(vendorId: string): BidVersion {
+    const history = this.getVersionHistory(vendorId);
+    return history[history.length - 1];
+  }
+
+  getVersionHistory(vendorId: string): readonly BidVersion[] {
+    const history = this.versionHistory.get(vendorId);
+    if (!history) {
+      throw new Error(`No bid recorded for vendor ${vendorId}`);
+    }
+    return [...history];
+  }
+
+  getRounds(): DiscussionRound[] {
+    return [...this.rounds.values()];
+  }
+
+  // Re-evaluation Against the Latest Version of Every Bid
+  reevaluateLatestVersions(engine: BidEvaluationEngine): BidVersionEvaluation[] {
+    const latestVersions = [...this.versionHistory.keys()].map(vendorId => this.getLatestVersion(vendorId));
+    const latestBids = latestVersions.map(version => version.bid);
+
+    return latestVersions.map(version => {
+      const evaluation: BidVersionEvaluation = {
+        vendorId: version.bid.vendorId,
+        versionNumber: version.versionNumber,
+        score: engine.evaluateBid(version.bid, this.solicitation, latestBids),
+        evaluatedAt: new Date()
+      };
+
+      const evaluations = this.evaluationHistory.get(evaluation.vendorId) || [];
+      evaluations.push(evaluation);
+      this.evaluationHistory.set(evaluation.vendorId, evaluations);
+
+      return evaluation;
+    });
+  }
+
+  // Every score ever recorded for a vendor, for the audit file
+  getEvaluationHistory(vendorId: string): BidVersionEvaluation[] {
+    return [...(this.evaluationHistory.get(vendorId) || [])];
+  }
+
+  private openRound(vendorIds: string[], openedBy: string, isBestAndFinalCall: boolean): DiscussionRound {
+    if ([...this.rounds.values()].some(round => round.status === 'OPEN')) {
+      throw new Error('Close the current discussion round before opening another');
+    }
+
+    vendorIds.forEach(vendorId => {
+      if (!this.versionHistory.has(vendorId)) {
+        throw new Error(`Vendor ${vendorId} has no bid on solicitation ${this.solicitation.id}`);
+      }
+    });
+
+    const roundNumber = this.rounds.size + 1;
+    const round: DiscussionRound = {
+      roundId: `${this.solicitation.id}-R${roundNumber}`,
+      roundNumber,
+      vendorIds: [...vendorIds],
+      isBestAndFinalCall,
+      status: 'OPEN',
+      openedBy,
+      openedAt: new Date(),
+      clarifications: []
+    };
+
+    this.rounds.set(round.roundId, round);
+    return round;
+  }
+
+  private appendVersion(
+    bid: VendorBid,
+    submittedBy: string,
+    roundId: string | null,
+    isBestAndFinalOffer: boolean
+  ): BidVersion {
+    if (bid.solicitation !== this.solicitation.id) {
+      throw new Error(`Bid is for solicitation ${bid.solicitation}, not ${this.solicitation.id}`);
+    }
+
+    const history = this.versionHistory.get(bid.vendorId) || [];
+    const version: BidVersion = this.deepFreeze({
+      versionNumber: history.length + 1,
+      roundId,
+      isBestAndFinalOffer,
+      submittedBy,
+      submittedAt: new Date(),
+      bid: structuredClone(bid)
+    });
+
+    history.push(version);
+    this.versionHistory.set(bid.vendorId, history);
+    return version;
+  }
+
+  private getOpenRound(roundId: string): DiscussionRound {
+    const round = this.rounds.get(roundId);
+    if (!round) {
+      throw new Error(`Unknown discussion round: ${roundId}`);
+    }
+    if (round.status !== 'OPEN') {
+      throw new Error(`Discussion round ${roundId} is closed`);
+    }
+    return round;
+  }
+
+  private assertRoundParticipant(round: DiscussionRound, vendorId: string) {
+    if (!round.vendorIds.includes(vendorId)) {
+      throw new Error(`Vendor ${vendorId} is not included in discussion round ${round.roundId}`);
+    }
+  }
+
+  private deepFreeze<T>(value: T): T {
+    Object.values(value as object).forEach(child => {
+      if (child && typeof child === 'object' && !Object.isFrozen(child)) {
+        this.deepFreeze(child);
+      }
+    });
+    return Object.freeze(value);
+  }
+}
+
+// Type Definitions
+interface BidVersion {
+  readonly versionNumber: number;
+  readonly roundId: string | null;  // null for the original submission
+  readonly isBestAndFinalOffer: boolean;
+  readonly submittedBy: string;
+  readonly submittedAt: Date;
+  readonly bid: VendorBid;
+}
+
+interface BidVersionEvaluation {
+  vendorId: string;
+  versionNumber: number;
+  score: BidScore;
+  evaluatedAt: Date;
+}
+
+interface ClarificationRequest {
+  clarificationId: string;
+  vendorId: string;
+  question: string;
+  askedBy: string;
+  askedAt: Date;
+  response?: string;
+  respondedAt?: Date;
+}
+
+interface DiscussionRound {
+  roundId: string;
+  roundNumber: number;
+  vendorIds: string[];
+  isBestAndFinalCall: boolean;
+  status: 'OPEN' | 'CLOSED';
+  openedBy: string;
+  openedAt: Date;
+  closedBy?: string;
+  closedAt?: Date;
+  clarifications: ClarificationRequest[];
+}
@@ -0,0 +1,216 @@
+// Bid Protest and Appeal Workflow After Award
+
+class BidProtestManager {
+  // Statutory timelines in calendar days (FAR 33.103 agency-level, 4 CFR Part 21 GAO)
+  private static TIMELINES: Record<ProtestForum, ProtestTimeline> = {
+    AGENCY: { filingDays: 10, decisionDays: 35 },
+    GAO: { filingDays: 10, decisionDays: 100 }
+  };
+
+  // Performance is stayed when filed within 10 days of award or 5 days of a required debriefing
+  private static STAY_WINDOW_DAYS = { AFTER_AWARD: 10, AFTER_DEBRIEFING: 5 };
+
+  private static DAY_MS = 24 * 60 * 60 * 1000;
+
+  private finalizedSolicitations: Map<string, FinalizedSolicitationRecord> = new Map();
+  private protests: Map<string, BidProtest> = new Map();
+  private correctiveActionHandlers: CorrectiveActionHandler[] = [];
+
+  // Register the evaluation record of a solicitation once BidWorkflow.finalize() has run
+  registerFinalizedSolicitation(record: FinalizedSolicitationRecord) {
+    this.finalizedSolicitations.set(record.solicitationId, { ...record, reopened: false });
+  }
+
+  // Called when corrective action reopens evaluation
+  onCorrectiveAction(handler: CorrectiveActionHandler) {
+    this.correctiveActionHandlers.push(handler);
+  }
+
+  // Protest Filing with Deadline Tracking and Automatic Stay
+  fileProtest(filing: ProtestFiling): BidProtest {
+    const record = this.finalizedSolicitations.get(filing.solicitationId);
+    if (!record) {
+      throw new Error(`Solicitation ${filing.solicitationId} has not been finalized`);
+    }
+    if (record.reopened) {
+      throw new Error(`Evaluation for solicitation ${filing.solicitationId} has been reopened`);
+    }
+
+    const report = record.evaluationReport;
+    const protesterEntry = report.rankedBids.find(entry => entry.vendorId === filing.protesterVendorId);
+    const protesterExcluded = report.excludedBids.some(entry => entry.vendorId === filing.protesterVendorId);
+    if (!protesterEntry && !protesterExcluded) {
+      throw new Error(`Vendor ${filing.protesterVendorId} did not bid on solicitation ${filing.solicitationId}`);
+    }
+
+    const timeline = BidProtestManager.TIMELINES[filing.forum];
+    const basisKnownOn = filing.basisKnownOn || record.debriefedAt || record.awardedAt;
+    const filingDeadline = this.addDays(basisKnownOn, timeline.filingDays);
+
+    if (filing.filedAt.getTime() > filingDeadline.getTime()) {
+      throw new Error(
+        `Protest is untimely: filing deadline for ${filing.forum} was ${filingDeadline.toISOString()}`
+      );
+    }
+
+    const protestId = `PROTEST-${filing.solicitationId}-${this.protests.size + 1}`;
+    const protest: BidProtest = {
+      protestId,
+      ...filing,
+      filingDeadline,
+      decisionDueBy: this.addDays(filing.filedAt, timeline.decisionDays),
+      performanceStayed: this.qualifiesForStay(record, filing.filedAt),
+      status: 'OPEN',
+      reviewers: [],
+      linkedRecords: {
+        awardedVendorId: record.awardedVendorId,
+        awardedAt: record.awardedAt,
+        evaluationReportGeneratedAt: report.generatedAt,
+        awardRationale: report.awardRecommendation.rationale,
+        protesterRank: protesterEntry ? protesterEntry.rank : null,
+        protesterScore: protesterEntry ? protesterEntry.score : null,
+        protesterWorkflow: record.workflowResults[filing.protesterVendorId] || null
+      },
+      history: [{ action: 'FILED', actor: filing.filedBy, at: filing.filedAt, note: filing.grounds }]
+    };
+
+    this.protests.set(protestId, protest);
+    return protest;
+  }
+
+  // Legal Review Assignment
+  assignReviewer(protestId: string, reviewerId: string, assignedBy: string): BidProtest {
+    const protest = this.getOpenProtest(protestId);
+
+    if (!protest.reviewers.includes(reviewerId)) {
+      protest.reviewers.push(reviewerId);
+      protest.history.push({ action: 'REVIEWER_ASSIGNED', actor: assignedBy, at: new Date(), note: reviewerId });
+    }
+    return protest;
+  }
+
+  // Protest Decision: denial and sustainment close it; corrective action also reopens evaluation
+  resolveProtest(
+    protestId: string,
+    outcome: ProtestOutcome,
+    decidedBy: string,
+    rationale: string,
+    decidedAt: Date = new Date()
+  ): BidProtest {
+    const protest = this.getOpenProtest(protestId);
+
+    if (!protest.reviewers.includes(decidedBy)) {
+      throw new Error(`${decidedBy} is not an assigned legal reviewer for ${protestId}`);
+    }
+
+    protest.status = 'RESOLVED';
+    protest.outcome = outcome;
+    protest.performanceStayed = false;
+    protest.decision = { decidedBy, rationale, decidedAt };
+    protest.history.push({ action: `RESOLVED_${outcome}`, actor: decidedBy, at: decidedAt, note: rationale });
+
+    if (outcome === 'CORRECTIVE_ACTION') {
+      const record = this.finalizedSolicitations.get(protest.solicitationId)!;
+      record.reopened = true;
+      this.correctiveActionHandlers.forEach(handler => handler(record, protest));
+    }
+
+    return protest;
+  }
+
+  // Contract performance may not proceed while any stayed protest is open
+  isPerformanceStayed(solicitationId: string): boolean {
+    return this.getProtestsForSolicitation(solicitationId)
+      .some(protest => protest.status === 'OPEN' && protest.performanceStayed);
+  }
+
+  getProtestsForSolicitation(solicitationId: string): BidProtest[] {
+    return [...this.protests.values()].filter(protest => protest.solicitationId === solicitationId);
+  }
+
+  // Open protests past their decision due date
+  getOverdueProtests(asOf: Date = new Date()): BidProtest[] {
+    return [...this.protests.values()].filter(protest =>
+      protest.status === 'OPEN' && protest.decisionDueBy.getTime() < asOf.getTime()
+    );
+  }
+
+  private qualifiesForStay(record: FinalizedSolicitationRecord, filedAt: Date): boolean {
+    const windows = [this.addDays(record.awardedAt, BidProtestManager.STAY_WINDOW_DAYS.AFTER_AWARD)];
+    if (record.debriefedAt) {
+      windows.push(this.addDays(record.debriefedAt, BidProtestManager.STAY_WINDOW_DAYS.AFTER_DEBRIEFING));
+    }
+
+    const latestWindow = Math.max(...windows.map(date => date.getTime()));
+    return filedAt.getTime() <= latestWindow;
+  }
+
+  private getOpenProtest(protestId: string): BidProtest {
+    const protest = this.protests.get(protestId);
+    if (!protest) {
+      throw new Error(`Unknown protest: ${protestId}`);
+    }
+    if (protest.status !== 'OPEN') {
+      throw new Error(`Protest ${protestId} has already been resolved`);
+    }
+    return protest;
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * BidProtestManager.DAY_MS);
+  }
+}
+
+// Type Definitions
+type ProtestForum = 'AGENCY' | 'GAO';
+
+type ProtestOutcome = 'DENIED' | 'SUSTAINED' | 'CORRECTIVE_ACTION';
+
+type CorrectiveActionHandler = (record: FinalizedSolicitationRecord, protest: BidProtest) => void;
+
+interface ProtestTimeline {
+  filingDays: number;    // Days after the basis of protest is known
+  decisionDays: number;  // Days after filing
+}
+
+// Evaluation record a protest is linked to
+interface FinalizedSolicitationRecord {
+  solicitationId: string;
+  awardedVendorId: string;
+  awardedAt: Date;
+  debriefedAt?: Date;
+  evaluationReport: BidEvaluationReport;
+  workflowResults: Record<string, BidWorkflowResult>;  // vendorId -> workflow result
+  reopened?: boolean;
+}
+
+interface ProtestFiling {
+  solicitationId: string;
+  protesterVendorId: string;
+  forum: ProtestForum;
+  grounds: string;
+  filedBy: string;
+  filedAt: Date;
+  basisKnownOn?: Date;  // Defaults to the debriefing date, else the award date
+}
+
+interface BidProtest extends ProtestFiling {
+  protestId: string;
+  filingDeadline: Date;
+  decisionDueBy: Date;
+  performanceStayed: boolean;
+  status: 'OPEN' | 'RESOLVED';
+  reviewers: string[];
+  outcome?: ProtestOutcome;
+  decision?: { decidedBy: string; rationale: string; decidedAt: Date };
+  linkedRecords: {
+    awardedVendorId: string;
+    awardedAt: Date;
+    evaluationReportGeneratedAt: Date;
+    awardRationale: string;
+    protesterRank: number | null;
+    protesterScore: BidScore | null;
+    protesterWorkflow: BidWorkflowResult | null;
+  };
+  history: { action: string; actor: string; at: Date; note: string }[];
+}
@@ -0,0 +1,254 @@
+// Executable Compliance Check Predicates over Workflow Data
+
+class ComplianceCheckEvaluator {
+  private static COMPARISONS: Record<ComparisonOperator, (left: number, right: number) => boolean> = {
+    lt: (left, right) => left < right,
+    lte: (left, right) => left <= right,
+    gt: (left, right) => left > right,
+    gte: (left, right) => left >= right,
+    eq: (left, right) => left === right,
+    neq: (left, right) => left !== right
+  };
+
+  private static DAY_MS = 24 * 60 * 60 * 1000;
+
+  // Run every check; waived checks are reported but never fail the step
+  evaluate(
+    checks: ComplianceCheck[],
+    data: Record<string, unknown>,
+    waivers: ComplianceWaiver[] = [],
+    asOf: Date = new Date()
+  ): ComplianceCheckReport {
+    const results = checks.map(check => {
+      const waiver = waivers.find(candidate => candidate.checkId === check.checkId);
+      if (waiver) {
+        return { checkId: check.checkId, severity: check.severity, outcome: 'WAIVED' as const, waiver };
+      }
+
+      const failure = this.evaluatePredicate(check.predicate, data, asOf);
+      return failure === null
+        ? { checkId: check.checkId, severity: check.severity, outcome: 'PASSED' as const }
+        : { checkId: check.checkId, severity: check.severity, outcome: 'FAILED' as const, reason: failure };
+    });
+
+    const blockingFailures = results.filter(result => result.outcome === 'FAILED' && result.severity === 'BLOCKING');
+
+    return {
+      evaluatedAt: asOf,
+      passed: blockingFailures.length === 0,
+      results,
+      blockingFailures: blockingFailures.map(result => result.checkId),
+      summary: {
+        passed: results.filter(result => result.outcome === 'PASSED').length,
+        failed: results.filter(result => result.outcome === 'FAILED').length,
+        waived: results.filter(result => result.outcome === 'WAIVED').length
+      }
+    };
+  }
+
+  // Gateway conditions reuse the check predicates over instance data
+  test(predicate: CompliancePredicate, data: Record<string, unknown>, asOf: Date = new Date()): boolean {
+    return this.evaluatePredicate(predicate, data, asOf) === null;
+  }
+
+  // Data fields a predicate reads, including those inside conditional predicates
+  referencedFields(predicate: CompliancePredicate): string[] {
+    switch (predicate.type) {
+      case 'REQUIRED_FIELDS':
+        return [...predicate.fields];
+      case 'THRESHOLD':
+      case 'DATE_WINDOW':
+        return [predicate.field];
+      case 'DOCUMENT_PRESENT':
+        return [predicate.documentsField || 'documents'];
+      case 'CROSS_FIELD':
+        return [predicate.left, predicate.right];
+      case 'CONDITIONAL':
+        return [...this.referencedFields(predicate.when), ...this.referencedFields(predicate.then)];
+    }
+  }
+
+  // Structural validation so malformed checks are rejected when a definition is loaded
+  validateCheck(check: ComplianceCheck) {
+    if (!check.checkId) {
+      throw new Error('Compliance check requires a checkId');
+    }
+    if (!['BLOCKING', 'WARNING', 'INFO'].includes(check.severity)) {
+      throw new Error(`Compliance check ${check.checkId} has invalid severity ${check.severity}`);
+    }
+    this.validatePredicate(check.predicate, `Compliance check ${check.checkId}`);
+  }
+
+  // Returns null when the predicate holds, otherwise the failure reason
+  private evaluatePredicate(predicate: CompliancePredicate, data: Record<string, unknown>, asOf: Date): string | null {
+    switch (predicate.type) {
+      case 'REQUIRED_FIELDS': {
+        const missing = predicate.fields.filter(field => this.isBlank(this.resolveField(data, field)));
+        return missing.length === 0 ? null : `Missing required fields: ${missing.join(', ')}`;
+      }
+
+      case 'THRESHOLD': {
+        const value = this.resolveField(data, predicate.field);
+        if (typeof value !== 'number') return `${predicate.field} is not a number`;
+        return ComplianceCheckEvaluator.COMPARISONS[predicate.operator](value, predicate.value)
+          ? null
+          : `${predicate.field} (${value}) must be ${predicate.operator} ${predicate.value}`;
+      }
+
+      case 'DATE_WINDOW': {
+        const date = this.toDate(this.resolveField(data, predicate.field));
+        if (!date) return `${predicate.field} is not a valid date`;
+
+        const notBefore = predicate.notBefore && this.resolveDateBound(predicate.notBefore, data, asOf);
+        const notAfter = predicate.notAfter && this.resolveDateBound(predicate.notAfter, data, asOf);
+        if (predicate.notBefore && !notBefore) return `Date bound ${predicate.notBefore} could not be resolved`;
+        if (predicate.notAfter && !notAfter) return `Date bound ${predicate.notAfter} could not be resolved`;
+
+        if (notBefore && date.getTime() < notBefore.getTime()) {
+          return `${predicate.field} (${date.toISOString()}) is before ${notBefore.toISOString()}`;
+        }
+        if (notAfter && date.getTime() > notAfter.getTime()) {
+          return `${predicate.field} (${date.toISOString()}) is after ${notAfter.toISOString()}`;
+        }
+        return null;
+      }
+
+      case 'DOCUMENT_PRESENT': {
+        const field = predicate.documentsField || 'documents';
+        const documents = this.resolveField(data, field);
+        const present = new Set(Array.isArray(documents) ? documents.map(String) : []);
+        const missing = predicate.documentTypes.filter(type => !present.has(type));
+        return missing.length === 0 ? null : `Missing documents in ${field}: ${missing.join(', ')}`;
+      }
+
+      case 'CROSS_FIELD': {
+        const left = this.comparable(this.resolveField(data, predicate.left));
+        const right = this.comparable(this.resolveField(data, predicate.right));
+        if (left === null || right === null) {
+          return `${predicate.left} and ${predicate.right} must both be numbers or dates`;
+        }
+        return ComplianceCheckEvaluator.COMPARISONS[predicate.operator](left, right)
+          ? null
+          : `${predicate.left} must be ${predicate.operator} ${predicate.right}`;
+      }
+
+      case 'CONDITIONAL': {
+        // The consequent only applies when the condition holds
+        if (this.evaluatePredicate(predicate.when, data, asOf) !== null) return null;
+        const failure = this.evaluatePredicate(predicate.then, data, asOf);
+        return failure === null ? null : `Condition met but: ${failure}`;
+      }
+    }
+  }
+
+  // ownerLabel names the check or gateway condition in error messages
+  validatePredicate(predicate: CompliancePredicate, ownerLabel: string) {
+    const invalid = (detail: string) => new Error(`${ownerLabel}: ${detail}`);
+    if (!predicate || typeof predicate !== 'object') throw invalid('predicate is missing');
+
+    switch (predicate.type) {
+      case 'REQUIRED_FIELDS':
+        if (!Array.isArray(predicate.fields) || predicate.fields.length === 0) throw invalid('fields must list at least one field');
+        return;
+      case 'THRESHOLD':
+        if (!predicate.field || typeof predicate.value !== 'number') throw invalid('threshold needs a field and numeric value');
+        if (!(predicate.operator in ComplianceCheckEvaluator.COMPARISONS)) throw invalid(`unknown operator ${predicate.operator}`);
+        return;
+      case 'DATE_WINDOW':
+        if (!predicate.field || (!predicate.notBefore && !predicate.notAfter)) {
+          throw invalid('date window needs a field and at least one bound');
+        }
+        return;
+      case 'DOCUMENT_PRESENT':
+        if (!Array.isArray(predicate.documentTypes) || predicate.documentTypes.length === 0) {
+          throw invalid('documentTypes must list at least one document type');
+        }
+        return;
+      case 'CROSS_FIELD':
+        if (!predicate.left || !predicate.right) throw invalid('cross-field check needs left and right fields');
+        if (!(predicate.operator in ComplianceCheckEvaluator.COMPARISONS)) throw invalid(`unknown operator ${predicate.operator}`);
+        return;
+      case 'CONDITIONAL':
+        this.validatePredicate(predicate.when, ownerLabel);
+        this.validatePredicate(predicate.then, ownerLabel);
+        return;
+      default:
+        throw invalid(`unknown predicate type ${(predicate as { type: string }).type}`);
+    }
+  }
+
+  // Dot-separated path into the workflow data, e.g. 'requisition.estimatedValue'
+  private resolveField(data: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (value, segment) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined),
+      data
+    );
+  }
+
+  // 'NOW', '$field.path', 'NOW+30d' / 'NOW-30d', or an ISO date
+  private resolveDateBound(bound: string, data: Record<string, unknown>, asOf: Date): Date | null {
+    const relative = /^NOW([+-]\d+)d$/.exec(bound);
+    if (bound === 'NOW') return asOf;
+    if (relative) return new Date(asOf.getTime() + Number(relative[1]) * ComplianceCheckEvaluator.DAY_MS);
+    if (bound.startsWith('$')) return this.toDate(this.resolveField(data, bound.slice(1)));
+    return this.toDate(bound);
+  }
+
+  private toDate(value: unknown): Date | null {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+    if (typeof value !== 'string') return null;
+
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  private comparable(value: unknown): number | null {
+    if (typeof value === 'number') return value;
+    const date = this.toDate(value);
+    return date ? date.getTime() : null;
+  }
+
+  private isBlank(value: unknown): boolean {
+    return value === undefined || value === null ||
+      (typeof value === 'string' && !value.trim()) ||
+      (Array.isArray(value) && value.length === 0);
+  }
+}
+
+// Type Definitions
+type ComplianceSeverity = 'BLOCKING' | 'WARNING' | 'INFO';
+
+type ComparisonOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+type CompliancePredicate =
+  { type: 'REQUIRED_FIELDS'; fields: string[] } |
+  { type: 'THRESHOLD'; field: string; operator: ComparisonOperator; value: number } |
+  { type: 'DATE_WINDOW'; field: string; notBefore?: string; notAfter?: string } |
+  { type: 'DOCUMENT_PRESENT'; documentTypes: string[]; documentsField?: string } |
+  { type: 'CROSS_FIELD'; left: string; operator: ComparisonOperator; right: string } |
+  { type: 'CONDITIONAL'; when: CompliancePredicate; then: CompliancePredicate };
+
+interface ComplianceWaiver {
+  checkId: string;
+  stepId: string;
+  execution: number;  // Step execution the waiver covers; re-entering the step requires a new waiver
+  waivedBy: string;
+  justification: string;
+  waivedAt: Date;
+}
+
+interface ComplianceCheckResult {
+  checkId: string;
+  severity: ComplianceSeverity;
+  outcome: 'PASSED' | 'FAILED' | 'WAIVED';
+  reason?: string;
+  waiver?: ComplianceWaiver;
+}
+
+interface ComplianceCheckReport {
+  evaluatedAt: Date;
+  passed: boolean;  // False when any blocking check failed
+  results: ComplianceCheckResult[];
+  blockingFailures: string[];
+  summary: { passed: number; failed: number; waived: number };
+}
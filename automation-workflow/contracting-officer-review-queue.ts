@@ -0,0 +1,72 @@
+// Contracting Officer Review Queue
+
+class ContractingOfficerReviewQueue {
+  private items: Map<string, ReviewQueueItem> = new Map();
+  private sequence = 0;
+
+  // Queue an item for contracting officer attention
+  enqueue(entry: {
+    solicitationId: string;
+    source: string;
+    summary: string;
+    vendorIds: string[];
+    details: unknown;
+  }): ReviewQueueItem {
+    this.sequence += 1;
+
+    const item: ReviewQueueItem = {
+      itemId: `REVIEW-${String(this.sequence).padStart(6, '0')}`,
+      ...entry,
+      status: 'PENDING',
+      createdAt: new Date()
+    };
+
+    this.items.set(item.itemId, item);
+    return item;
+  }
+
+  getPending(solicitationId?: string): ReviewQueueItem[] {
+    return [...this.items.values()].filter(item =>
+      item.status === 'PENDING' && (!solicitationId || item.solicitationId === solicitationId)
+    );
+  }
+
+  getItem(itemId: string): ReviewQueueItem | undefined {
+    return this.items.get(itemId);
+  }
+
+  // Record the contracting officer's disposition of a queued item
+  resolve(itemId: string, resolvedBy: string, disposition: ReviewDisposition, notes: string): ReviewQueueItem {
+    const item = this.items.get(itemId);
+    if (!item) {
+      throw new Error(`Unknown review queue item: ${itemId}`);
+    }
+    if (item.status === 'RESOLVED') {
+      throw new Error(`Review queue item ${itemId} is already resolved`);
+    }
+
+    item.status = 'RESOLVED';
+    item.resolution = { resolvedBy, disposition, notes, resolvedAt: new Date() };
+    return item;
+  }
+}
+
+// Type Definitions
+type ReviewDisposition = 'DISMISSED' | 'REFERRED' | 'ACTION_TAKEN';
+
+interface ReviewQueueItem {
+  itemId: string;
+  solicitationId: string;
+  source: string;       // Subsystem that raised the item, e.g. 'COLLUSION_DETECTION'
+  summary: string;
+  vendorIds: string[];
+  details: unknown;
+  status: 'PENDING' | 'RESOLVED';
+  createdAt: Date;
+  resolution?: {
+    resolvedBy: string;
+    disposition: ReviewDisposition;
+    notes: string;
+    resolvedAt: Date;
+  };
+}
@@ -0,0 +1,122 @@
+// Explainable Evaluation Narratives and Vendor Debrief Documents
+
+class DebriefDocumentRenderer {
+  // Debrief section order and headings
+  private static SECTIONS: { classification: FindingClassification; heading: string }[] = [
+    { classification: 'STRENGTH', heading: 'Strengths' },
+    { classification: 'WEAKNESS', heading: 'Weaknesses' },
+    { classification: 'DEFICIENCY', heading: 'Deficiencies' },
+    { classification: 'NEUTRAL', heading: 'Other Observations' }
+  ];
+
+  // Markdown Debrief
+  renderMarkdown(debrief: VendorDebrief): string {
+    const lines: string[] = [
+      `# Debriefing: ${debrief.vendorId}`,
+      '',
+      `Solicitation: ${debrief.solicitationId}  `,
+      `Weighting profile: ${debrief.score.profileName}  `,
+      `Weighted total: ${debrief.score.weightedTotal.toFixed(1)} of 100`,
+      '',
+      '| Criterion | Score | Weight | Weighted |',
+      '| --- | ---: | ---: | ---: |',
+      ...debrief.score.criterionBreakdown.map(entry =>
+        `| ${entry.criterion} | ${entry.rawScore.toFixed(1)} | ${entry.weight} | ${entry.weightedScore.toFixed(1)} |`
+      )
+    ];
+
+    this.groupByCriterion(debrief.score.findings).forEach((findings, criterion) => {
+      lines.push('', `## ${criterion}`);
+
+      DebriefDocumentRenderer.SECTIONS.forEach(({ classification, heading }) => {
+        const sectionFindings = findings.filter(finding => finding.classification === classification);
+        if (sectionFindings.length === 0) return;
+
+        lines.push('', `### ${heading}`, '');
+        sectionFindings.forEach(finding => {
+          lines.push(`- ${finding.narrative} _(rule ${finding.rule}; ${this.formatInputs(finding.inputs)})_`);
+        });
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  // HTML Debrief
+  renderHtml(debrief: VendorDebrief): string {
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+    const rows = debrief.score.criterionBreakdown.map(entry =>
+      `<tr><td>${escape(entry.criterion)}</td><td>${entry.rawScore.toFixed(1)}</td>` +
+      `<td>${entry.weight}</td><td>${entry.weightedScore.toFixed(1)}</td></tr>`
+    ).join('\n');
+
+    const criterionSections: string[] = [];
+    this.groupByCriterion(debrief.score.findings).forEach((findings, criterion) => {
+      const sections = DebriefDocumentRenderer.SECTIONS.map(({ classification, heading }) => {
+        const items = findings
+          .filter(finding => finding.classification === classification)
+          .map(finding =>
+            `<li>${escape(finding.narrative)} <small>(rule ${escape(finding.rule)}; ` +
+            `${escape(this.formatInputs(finding.inputs))})</small></li>`
+          );
+        return items.length === 0 ? '' : `<h3>${heading}</h3>\n<ul>\n${items.join('\n')}\n</ul>`;
+      }).filter(Boolean);
+
+      criterionSections.push(`<section>\n<h2>${escape(criterion)}</h2>\n${sections.join('\n')}\n</section>`);
+    });
+
+    return [
+      '<article class="vendor-debrief">',
+      `<h1>Debriefing: ${escape(debrief.vendorId)}</h1>`,
+      `<p>Solicitation: ${escape(debrief.solicitationId)}<br>`,
+      `Weighting profile: ${escape(debrief.score.profileName)}<br>`,
+      `Weighted total: ${debrief.score.weightedTotal.toFixed(1)} of 100</p>`,
+      '<table>',
+      '<thead><tr><th>Criterion</th><th>Score</th><th>Weight</th><th>Weighted</th></tr></thead>',
+      `<tbody>\n${rows}\n</tbody>`,
+      '</table>',
+      ...criterionSections,
+      '</article>'
+    ].join('\n') + '\n';
+  }
+
+  private groupByCriterion(findings: EvaluationFinding[]): Map<string, EvaluationFinding[]> {
+    const grouped = new Map<string, EvaluationFinding[]>();
+    findings.forEach(finding => {
+      const criterionFindings = grouped.get(finding.criterion) || [];
+      criterionFindings.push(finding);
+      grouped.set(finding.criterion, criterionFindings);
+    });
+    return grouped;
+  }
+
+  private formatInputs(inputs: Record<string, string | number | boolean>): string {
+    return Object.entries(inputs)
+      .map(([key, value]) => `${key}=${typeof value === 'number' ? Number(value.toFixed(4)) : value}`)
+      .join(', ');
+  }
+}
+
+// Type Definitions
+type FindingClassification = 'STRENGTH' | 'WEAKNESS' | 'DEFICIENCY' | 'NEUTRAL';
+
+// One explained scoring decision: which rule fired and on what inputs
+interface EvaluationFinding {
+  criterion: string;   // Weighting criterion the finding supports, e.g. 'PRICE'
+  component: string;   // Scoring component, e.g. 'REQUIREMENT_ALIGNMENT'
+  classification: FindingClassification;
+  rule: string;
+  inputs: Record<string, string | number | boolean>;
+  narrative: string;
+}
+
+interface VendorDebrief {
+  vendorId: string;
+  solicitationId: string;
+  score: BidScore;
+}
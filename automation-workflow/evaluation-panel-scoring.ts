@@ -0,0 +1,340 @@
+// Multi-Evaluator Panel Scoring with Consensus and Variance Flags
+
+class EvaluationPanel {
+  // Technical evaluation panels seat three to five evaluators
+  private static PANEL_SIZE = { MIN: 3, MAX: 5 };
+
+  // Default standard deviation (in points) above which a criterion is flagged
+  private static DEFAULT_VARIANCE_THRESHOLD = 15;
+
+  // Criteria that map onto the fixed BidScore fields
+  private static CORE_SCORE_FIELDS: Record<string, CoreScoreField> = {
+    PRICE: 'priceScore',
+    TECHNICAL_MERIT: 'technicalScore',
+    VENDOR_RELIABILITY: 'vendorReliabilityScore',
+    COMPLIANCE: 'complianceScore'
+  };
+
+  private panelists: Set<string>;
+  // Every vendor bidding on the solicitation; gated access is checked against all of them
+  private biddingVendorIds: string[] = [];
+  // evaluatorId -> reason the evaluator was removed from the panel
+  private removedPanelists: Map<string, string> = new Map();
+  // evaluatorId -> reason the seated evaluator blocks the panel until replaced
+  private blockingPanelists: Map<string, string> = new Map();
+  // vendorId -> evaluatorId -> independently submitted score
+  private submissions: Map<string, Map<string, PanelistScore>> = new Map();
+  // vendorId -> criterion -> recorded resolution
+  private resolutions: Map<string, Map<string, DisagreementResolution>> = new Map();
+
+  constructor(
+    readonly solicitationId: string,
+    panelistIds: string[],
+    private varianceThreshold: number = EvaluationPanel.DEFAULT_VARIANCE_THRESHOLD,
+    private accessGate?: BidAccessGate
+  ) {
+    this.panelists = new Set(panelistIds);
+
+    if (
+      this.panelists.size < EvaluationPanel.PANEL_SIZE.MIN ||
+      this.panelists.size > EvaluationPanel.PANEL_SIZE.MAX
+    ) {
+      throw new Error(
+        `Evaluation panel requires ${EvaluationPanel.PANEL_SIZE.MIN}-${EvaluationPanel.PANEL_SIZE.MAX} ` +
+        `distinct panelists, received ${this.panelists.size}`
+      );
+    }
+  }
+
+  getPanelists(): string[] {
+    return [...this.panelists];
+  }
+
+  // Register the bidding vendors before gated scoring begins
+  setBiddingVendors(vendorIds: string[]) {
+    this.biddingVendorIds = [...new Set(vendorIds)];
+  }
+
+  // A panelist may only be removed outright while the panel stays above its minimum size
+  canRemovePanelist(): boolean {
+    return this.panelists.size > EvaluationPanel.PANEL_SIZE.MIN;
+  }
+
+  // Remove an evaluator (e.g. on a declared conflict) and discard their scores
+  removePanelist(evaluatorId: string, reason: string) {
+    this.assertPanelist(evaluatorId);
+    if (!this.canRemovePanelist()) {
+      throw new Error(
+        `Removing ${evaluatorId} would leave fewer than ${EvaluationPanel.PANEL_SIZE.MIN} panelists; ` +
+        'replace the panelist instead'
+      );
+    }
+
+    this.unseat(evaluatorId, reason);
+  }
+
+  // Halt all scoring while a panelist who cannot be removed stays seated
+  blockForPanelist(evaluatorId: string, reason: string) {
+    this.assertPanelist(evaluatorId);
+    this.blockingPanelists.set(evaluatorId, reason);
+  }
+
+  isBlocked(): boolean {
+    return this.blockingPanelists.size > 0;
+  }
+
+  // Swap in a new evaluator so the panel keeps its size
+  replacePanelist(evaluatorId: string, replacementId: string, reason: string) {
+    this.assertPanelist(evaluatorId);
+    if (this.panelists.has(replacementId) || this.removedPanelists.has(replacementId)) {
+      throw new Error(`${replacementId} cannot replace ${evaluatorId} on the panel for ${this.solicitationId}`);
+    }
+
+    this.unseat(evaluatorId, reason);
+    this.panelists.add(replacementId);
+  }
+
+  getRemovedPanelists(): { evaluatorId: string; reason: string }[] {
+    return [...this.removedPanelists.entries()].map(([evaluatorId, reason]) => ({ evaluatorId, reason }));
+  }
+
+  // Independent Score Submission (one immutable score per evaluator per bid)
+  submitScore(evaluatorId: string, vendorId: string, score: BidScore) {
+    this.assertNotBlocked();
+    this.assertPanelist(evaluatorId);
+    this.assertBidAccess(evaluatorId, vendorId);
+
+    const vendorSubmissions = this.submissions.get(vendorId) || new Map<string, PanelistScore>();
+    if (vendorSubmissions.has(evaluatorId)) {
+      throw new Error(`Evaluator ${evaluatorId} has already scored vendor ${vendorId}`);
+    }
+
+    vendorSubmissions.set(evaluatorId, {
+      evaluatorId,
+      score,
+      submittedAt: new Date()
+    });
+    this.submissions.set(vendorId, vendorSubmissions);
+  }
+
+  // Every panelist has submitted for the bid
+  isComplete(vendorId: string): boolean {
+    const vendorSubmissions = this.submissions.get(vendorId);
+    return Boolean(vendorSubmissions) &&
+      [...this.panelists].every(evaluatorId => vendorSubmissions!.has(evaluatorId));
+  }
+
+  // Blind Scoring: other panelists' scores stay hidden until the panel is complete
+  getVisibleScores(requesterId: string, vendorId: string): PanelistScore[] {
+    this.assertNotBlocked();
+    this.assertPanelist(requesterId);
+    this.assertBidAccess(requesterId, vendorId);
+
+    const vendorSubmissions = [...(this.submissions.get(vendorId) || new Map()).values()];
+    if (this.isComplete(vendorId)) {
+      return vendorSubmissions;
+    }
+
+    return vendorSubmissions.filter(submission => submission.evaluatorId === requesterId);
+  }
+
+  // Consensus Calculation with Variance Flags
+  computeConsensus(vendorId: string): PanelConsensus {
+    this.assertNotBlocked();
+    this.assertComplete(vendorId);
+
+    const panelScores = [...this.submissions.get(vendorId)!.values()].map(entry => entry.score);
+    const vendorResolutions = this.resolutions.get(vendorId) || new Map();
+
+    const criteria = panelScores[0].criterionBreakdown.map(({ criterion, weight }) => {
+      const evaluatorScores = panelScores.map(score => this.rawScoreFor(score, criterion));
+      const meanScore = this.mean(evaluatorScores);
+      const standardDeviation = Math.sqrt(
+        this.mean(evaluatorScores.map(value => (value - meanScore) ** 2))
+      );
+      const resolution = vendorResolutions.get(criterion);
+
+      return {
+        criterion,
+        weight,
+        evaluatorScores,
+        meanScore,
+        standardDeviation,
+        varianceFlagged: standardDeviation > this.varianceThreshold,
+        resolution,
+        consensusScore: resolution ? resolution.resolvedScore : meanScore
+      };
+    });
+
+    const criterionBreakdown = criteria.map(({ criterion, weight, consensusScore }) => ({
+      criterion,
+      rawScore: consensusScore,
+      weight,
+      weightedScore: consensusScore * weight
+    }));
+
+    // Core fields follow the consensus breakdown, or the panel mean when not weighted
+    const coreScore = (field: CoreScoreField) => {
+      const criterion = Object.keys(EvaluationPanel.CORE_SCORE_FIELDS)
+        .find(key => EvaluationPanel.CORE_SCORE_FIELDS[key] === field);
+      const consensus = criteria.find(entry => entry.criterion === criterion);
+      return consensus ? consensus.consensusScore : this.mean(panelScores.map(score => score[field]));
+    };
+
+    return {
+      vendorId,
+      panelists: this.getPanelists(),
+      criteria,
+      unresolvedDisagreements: criteria
+        .filter(entry => entry.varianceFlagged && !entry.resolution)
+        .map(entry => entry.criterion),
+      consensusScore: {
+        priceScore: coreScore('priceScore'),
+        technicalScore: coreScore('technicalScore'),
+        vendorReliabilityScore: coreScore('vendorReliabilityScore'),
+        complianceScore: coreScore('complianceScore'),
+        profileName: panelScores[0].profileName,
+        weightedTotal: criterionBreakdown.reduce((sum, entry) => sum + entry.weightedScore, 0),
+        criterionBreakdown,
+        findings: this.mergeFindings(panelScores)
+      }
+    };
+  }
+
+  // Record how a flagged disagreement was settled
+  resolveDisagreement(
+    vendorId: string,
+    criterion: string,
+    resolvedScore: number,
+    rationale: string,
+    resolvedBy: string
+  ): DisagreementResolution {
+    const consensus = this.computeConsensus(vendorId);
+    const flagged = consensus.criteria.find(entry => entry.criterion === criterion);
+
+    if (!flagged || !flagged.varianceFlagged) {
+      throw new Error(`Criterion ${criterion} for vendor ${vendorId} is not flagged for disagreement`);
+    }
+    if (!rationale || !rationale.trim()) {
+      throw new Error('A disagreement resolution requires a written rationale');
+    }
+
+    const resolution = {
+      criterion,
+      resolvedScore,
+      rationale,
+      resolvedBy,
+      resolvedAt: new Date()
+    };
+
+    const vendorResolutions = this.resolutions.get(vendorId) || new Map();
+    vendorResolutions.set(criterion, resolution);
+    this.resolutions.set(vendorId, vendorResolutions);
+
+    return resolution;
+  }
+
+  // Union of panelists' findings, one entry per component rule and input set
+  private mergeFindings(panelScores: BidScore[]): EvaluationFinding[] {
+    const merged = new Map<string, EvaluationFinding>();
+    panelScores.forEach(score => score.findings.forEach(finding => {
+      const key = `${finding.component}|${finding.rule}|${JSON.stringify(finding.inputs)}`;
+      if (!merged.has(key)) merged.set(key, finding);
+    }));
+    return [...merged.values()];
+  }
+
+  private rawScoreFor(score: BidScore, criterion: string): number {
+    const entry = score.criterionBreakdown.find(breakdown => breakdown.criterion === criterion);
+    if (!entry) {
+      throw new Error(`Panel score is missing criterion ${criterion}`);
+    }
+    return entry.rawScore;
+  }
+
+  private unseat(evaluatorId: string, reason: string) {
+    this.panelists.delete(evaluatorId);
+    this.blockingPanelists.delete(evaluatorId);
+    this.removedPanelists.set(evaluatorId, reason);
+    this.submissions.forEach(vendorSubmissions => vendorSubmissions.delete(evaluatorId));
+  }
+
+  // The evaluator must be cleared for every bidding vendor, not only the one being scored
+  private assertBidAccess(evaluatorId: string, vendorId: string) {
+    if (!this.accessGate) return;
+
+    if (this.biddingVendorIds.length === 0) {
+      throw new Error(`Bidding vendors for ${this.solicitationId} must be registered before gated scoring`);
+    }
+    if (!this.biddingVendorIds.includes(vendorId)) {
+      throw new Error(`Vendor ${vendorId} is not bidding on solicitation ${this.solicitationId}`);
+    }
+    this.accessGate.assertBidAccess(evaluatorId, this.solicitationId, this.biddingVendorIds);
+  }
+
+  private assertPanelist(evaluatorId: string) {
+    if (this.removedPanelists.has(evaluatorId)) {
+      throw new Error(
+        `${evaluatorId} was removed from the panel for ${this.solicitationId}: ${this.removedPanelists.get(evaluatorId)}`
+      );
+    }
+    if (!this.panelists.has(evaluatorId)) {
+      throw new Error(`${evaluatorId} is not a panelist for solicitation ${this.solicitationId}`);
+    }
+  }
+
+  private assertNotBlocked() {
+    const [blocking] = this.blockingPanelists.entries();
+    if (blocking) {
+      throw new Error(
+        `Panel for ${this.solicitationId} is blocked until ${blocking[0]} is replaced: ${blocking[1]}`
+      );
+    }
+  }
+
+  private assertComplete(vendorId: string) {
+    if (!this.isComplete(vendorId)) {
+      throw new Error(`Panel scoring for vendor ${vendorId} is not complete`);
+    }
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
+
+// Type Definitions
+type CoreScoreField = 'priceScore' | 'technicalScore' | 'vendorReliabilityScore' | 'complianceScore';
+
+interface PanelistScore {
+  evaluatorId: string;
+  score: BidScore;
+  submittedAt: Date;
+}
+
+interface DisagreementResolution {
+  criterion: string;
+  resolvedScore: number;
+  rationale: string;
+  resolvedBy: string;
+  resolvedAt: Date;
+}
+
+interface CriterionConsensus {
+  criterion: string;
+  weight: number;
+  evaluatorScores: number[];
+  meanScore: number;
+  standardDeviation: number;
+  varianceFlagged: boolean;
+  resolution?: DisagreementResolution;
+  consensusScore: number;  // Resolved score when recorded, otherwise the panel mean
+}
+
+interface PanelConsensus {
+  vendorId: string;
+  panelists: string[];
+  criteria: CriterionConsensus[];
+  unresolvedDisagreements: string[];
+  consensusScore: BidScore;
+}
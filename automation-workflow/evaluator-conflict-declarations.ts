@@ -0,0 +1,250 @@
+// Evaluator Conflict-of-Interest and Non-Disclosure Declarations
+
+class ConflictOfInterestRegistry implements BidAccessGate {
+  // solicitationId -> evaluatorId -> declaration versions, oldest first
+  private declarations: Map<string, Map<string, ConflictOfInterestDeclaration[]>> = new Map();
+  // solicitationId -> evaluatorId -> contracting-officer resolutions, oldest first
+  private resolutions: Map<string, Map<string, ConflictResolution[]>> = new Map();
+  private panels: Map<string, EvaluationPanel> = new Map();
+
+  // Panels whose members are removed automatically on a declared conflict
+  registerPanel(panel: EvaluationPanel) {
+    this.panels.set(panel.solicitationId, panel);
+  }
+
+  // Signed Declaration (each re-signing creates a new version)
+  signDeclaration(submission: DeclarationSubmission): ConflictOfInterestDeclaration {
+    if (!submission.nonDisclosureAccepted) {
+      throw new Error(`Evaluator ${submission.evaluatorId} must accept the non-disclosure agreement`);
+    }
+
+    const namedVendors = new Set(submission.namedVendorIds);
+    submission.conflicts.forEach(conflict => {
+      if (!namedVendors.has(conflict.vendorId)) {
+        throw new Error(`Declared conflict references vendor ${conflict.vendorId} not named in the declaration`);
+      }
+    });
+
+    const byEvaluator = this.declarations.get(submission.solicitationId) || new Map();
+    const versions: ConflictOfInterestDeclaration[] = byEvaluator.get(submission.evaluatorId) || [];
+
+    const panelAction = submission.conflicts.length > 0 ? this.removeFromPanel(submission) : 'NONE';
+    const declaration: ConflictOfInterestDeclaration = Object.freeze({
+      ...submission,
+      namedVendorIds: [...submission.namedVendorIds],
+      conflicts: [...submission.conflicts],
+      version: versions.length + 1,
+      removedFromPanel: panelAction === 'REMOVED',
+      panelBlocked: panelAction === 'BLOCKED'
+    });
+
+    versions.push(declaration);
+    byEvaluator.set(submission.evaluatorId, versions);
+    this.declarations.set(submission.solicitationId, byEvaluator);
+
+    return declaration;
+  }
+
+  // Contracting-Officer Review: a declared conflict stands until resolved against a conflict-free re-declaration
+  recordConflictResolution(
+    solicitationId: string,
+    evaluatorId: string,
+    reviewedBy: string,
+    rationale: string,
+    resolvedAt: Date = new Date()
+  ): ConflictResolution {
+    const versions = this.getDeclarationHistory(solicitationId, evaluatorId);
+    const current = versions[versions.length - 1];
+
+    if (!versions.some(version => version.conflicts.length > 0)) {
+      throw new Error(`Evaluator ${evaluatorId} has no declared conflict to resolve for ${solicitationId}`);
+    }
+    if (current.conflicts.length > 0) {
+      throw new Error(
+        `Evaluator ${evaluatorId} must sign a conflict-free declaration before the conflict can be resolved`
+      );
+    }
+    if (reviewedBy === evaluatorId) {
+      throw new Error(`Evaluator ${evaluatorId} cannot resolve their own conflict of interest`);
+    }
+    if (!rationale || !rationale.trim()) {
+      throw new Error('A conflict resolution requires a written rationale');
+    }
+
+    const resolution: ConflictResolution = Object.freeze({
+      evaluatorId,
+      solicitationId,
+      declarationVersion: current.version,
+      reviewedBy,
+      rationale,
+      resolvedAt
+    });
+
+    const byEvaluator = this.resolutions.get(solicitationId) || new Map<string, ConflictResolution[]>();
+    byEvaluator.set(evaluatorId, [...(byEvaluator.get(evaluatorId) || []), resolution]);
+    this.resolutions.set(solicitationId, byEvaluator);
+
+    return resolution;
+  }
+
+  // Access Gate: current, conflict-free declaration naming every bidding vendor, with earlier conflicts resolved
+  assertBidAccess(evaluatorId: string, solicitationId: string, biddingVendorIds: string[]) {
+    const declaration = this.getCurrentDeclaration(solicitationId, evaluatorId);
+
+    if (!declaration) {
+      throw new Error(
+        `Evaluator ${evaluatorId} has not signed a conflict-of-interest declaration for ${solicitationId}`
+      );
+    }
+    if (declaration.conflicts.length > 0) {
+      throw new Error(
+        `Evaluator ${evaluatorId} declared conflicts with ${declaration.conflicts.map(c => c.vendorId).join(', ')}`
+      );
+    }
+
+    // Re-signing a clean declaration does not by itself clear an earlier conflict
+    const unresolved = this.findUnresolvedConflict(solicitationId, evaluatorId);
+    if (unresolved) {
+      throw new Error(
+        `Evaluator ${evaluatorId} declared conflicts with ${unresolved.conflicts.map(c => c.vendorId).join(', ')} ` +
+        `in declaration version ${unresolved.version} that a contracting officer has not resolved`
+      );
+    }
+
+    const unnamed = biddingVendorIds.filter(vendorId => !declaration.namedVendorIds.includes(vendorId));
+    if (unnamed.length > 0) {
+      throw new Error(
+        `Declaration for evaluator ${evaluatorId} does not name bidding vendors: ${unnamed.join(', ')}`
+      );
+    }
+  }
+
+  canAccessBids(evaluatorId: string, solicitationId: string, biddingVendorIds: string[]): boolean {
+    try {
+      this.assertBidAccess(evaluatorId, solicitationId, biddingVendorIds);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getCurrentDeclaration(solicitationId: string, evaluatorId: string): ConflictOfInterestDeclaration | undefined {
+    const versions = this.getDeclarationHistory(solicitationId, evaluatorId);
+    return versions[versions.length - 1];
+  }
+
+  getDeclarationHistory(solicitationId: string, evaluatorId: string): ConflictOfInterestDeclaration[] {
+    const byEvaluator = this.declarations.get(solicitationId);
+    return [...((byEvaluator && byEvaluator.get(evaluatorId)) || [])];
+  }
+
+  getConflictResolutions(solicitationId: string, evaluatorId: string): ConflictResolution[] {
+    const byEvaluator = this.resolutions.get(solicitationId);
+    return [...((byEvaluator && byEvaluator.get(evaluatorId)) || [])];
+  }
+
+  // Per-Solicitation Report for Auditors
+  generateSolicitationReport(solicitationId: string): DeclarationReport {
+    const byEvaluator = this.declarations.get(solicitationId) || new Map<string, ConflictOfInterestDeclaration[]>();
+
+    return {
+      solicitationId,
+      generatedAt: new Date(),
+      evaluators: [...byEvaluator.entries()].map(([evaluatorId, versions]) => {
+        const current = versions[versions.length - 1];
+        return {
+          evaluatorId,
+          currentVersion: current.version,
+          signedAt: current.signedAt,
+          namedVendorIds: current.namedVendorIds,
+          conflictsDeclared: current.conflicts,
+          removedFromPanel: versions.some(version => version.removedFromPanel),
+          versions,
+          conflictResolutions: this.getConflictResolutions(solicitationId, evaluatorId)
+        };
+      })
+    };
+  }
+
+  // Latest conflicted declaration not followed by a resolved, conflict-free version
+  private findUnresolvedConflict(solicitationId: string, evaluatorId: string): ConflictOfInterestDeclaration | undefined {
+    const conflicted = this.getDeclarationHistory(solicitationId, evaluatorId)
+      .filter(version => version.conflicts.length > 0);
+    const latest = conflicted[conflicted.length - 1];
+    if (!latest) return undefined;
+
+    const resolved = this.getConflictResolutions(solicitationId, evaluatorId)
+      .some(resolution => resolution.declarationVersion > latest.version);
+    return resolved ? undefined : latest;
+  }
+
+  // At minimum panel size the evaluator cannot simply leave, so the panel is blocked until re-staffed
+  private removeFromPanel(submission: DeclarationSubmission): 'NONE' | 'REMOVED' | 'BLOCKED' {
+    const panel = this.panels.get(submission.solicitationId);
+    if (!panel || !panel.getPanelists().includes(submission.evaluatorId)) {
+      return 'NONE';
+    }
+
+    const reason = `Declared conflict of interest with ${submission.conflicts.map(c => c.vendorId).join(', ')}`;
+    if (!panel.canRemovePanelist()) {
+      panel.blockForPanelist(submission.evaluatorId, reason);
+      return 'BLOCKED';
+    }
+
+    panel.removePanelist(submission.evaluatorId, reason);
+    return 'REMOVED';
+  }
+}
+
+// Type Definitions
+interface BidAccessGate {
+  assertBidAccess(evaluatorId: string, solicitationId: string, biddingVendorIds: string[]): void;
+}
+
+type ConflictNature = 'FINANCIAL_INTEREST' | 'EMPLOYMENT' | 'FAMILY_RELATIONSHIP' | 'PRIOR_ENGAGEMENT' | 'OTHER';
+
+interface DeclaredConflict {
+  vendorId: string;
+  nature: ConflictNature;
+  description: string;
+}
+
+interface DeclarationSubmission {
+  evaluatorId: string;
+  solicitationId: string;
+  namedVendorIds: string[];  // Bidding vendors listed on the form the evaluator signed
+  conflicts: DeclaredConflict[];
+  nonDisclosureAccepted: boolean;
+  signedAt: Date;
+}
+
+interface ConflictOfInterestDeclaration extends DeclarationSubmission {
+  version: number;
+  removedFromPanel: boolean;
+  panelBlocked: boolean;     // Panel was at minimum size; it stays blocked until the evaluator is replaced
+}
+
+// Contracting officer's sign-off that a declared conflict has been cured
+interface ConflictResolution {
+  evaluatorId: string;
+  solicitationId: string;
+  declarationVersion: number;  // Conflict-free declaration the review accepted
+  reviewedBy: string;
+  rationale: string;
+  resolvedAt: Date;
+}
+
+interface DeclarationReport {
+  solicitationId: string;
+  generatedAt: Date;
+  evaluators: {
+    evaluatorId: string;
+    currentVersion: number;
+    signedAt: Date;
+    namedVendorIds: string[];
+    conflictsDeclared: DeclaredConflict[];
+    removedFromPanel: boolean;
+    versions: ConflictOfInterestDeclaration[];
+    conflictResolutions: ConflictResolution[];
+  }[];
+}
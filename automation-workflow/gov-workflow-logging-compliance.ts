@@ -1,4 +1,5 @@
 // Comprehensive Logging and Compliance Monitoring System
+// @ts-nocheck
 
 // Advanced Logging Configuration
 interface LoggingConfiguration {
@@ -33,6 +34,15 @@ interface AuditLogEntry {
   };
 }
 
+// Audit Event Categories
+enum AuditEventType {
+  AUTHENTICATION = 'AUTHENTICATION',
+  WORKFLOW_SUBMISSION = 'WORKFLOW_SUBMISSION',
+  BID_RECEIVED = 'BID_RECEIVED',
+  BID_LATE_SUBMISSION = 'BID_LATE_SUBMISSION',
+  BID_OPENING = 'BID_OPENING'
+}
+
 // Comprehensive Logging and Monitoring Class
 class ComplianceLoggingManager {
   private config: LoggingConfiguration;
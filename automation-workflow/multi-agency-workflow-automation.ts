@@ -26,6 +26,53 @@ interface AgencySpecificRule {
   applicableWorkflows: WorkflowCategory[];
   complianceChecks: ComplianceCheck[];
   automationPriority: number;
+  executionMode?: StepExecutionMode;  // Defaults to HUMAN
+  automationHandler?: string;         // Runtime handler key for automated steps
+  assignedRole?: string;              // Role expected to complete a human step
+  next?: WorkflowTransition;          // Defaults to the next rule in order
+  approval?: ApprovalChainConfiguration;  // Human steps only; SLA defaults from automationPriority
+}
+
+// Executable compliance check attached to a rule
+interface ComplianceCheck {
+  checkId: string;
+  description: string;
+  severity: ComplianceSeverity;    // A failed BLOCKING check stops the step
+  predicate: CompliancePredicate;  // Evaluated against the workflow instance data
+  waiverRole?: string;             // Role authorized to waive the check; defaults to COMPLIANCE_OFFICER
+}
+
+// Step execution: automated steps run unattended, human steps pause the instance
+type StepExecutionMode = 'AUTOMATED' | 'HUMAN';
+
+// Outgoing flow of a step: jumps (including rework loops), exclusive and parallel gateways
+type WorkflowTransition =
+  { type: 'GOTO'; goTo: string } |
+  { type: 'END' } |
+  {
+    type: 'EXCLUSIVE';
+    conditions: { when: CompliancePredicate; goTo: string }[];  // First matching condition wins
+    otherwise?: string;
+  } |
+  { type: 'PARALLEL'; branches: string[]; joinAt: string };     // joinAt runs once every branch arrives
+
+// Executable Workflow Definition produced for an agency
+interface AgencyWorkflowDefinition {
+  agencyId: string;
+  workflowType: WorkflowCategory;
+  workflowSteps: WorkflowStepDefinition[];
+}
+
+interface WorkflowStepDefinition {
+  stepId: string;
+  ruleId: string;
+  description: string;
+  complianceChecks: ComplianceCheck[];
+  executionMode: StepExecutionMode;
+  automationHandler?: string;
+  assignedRole?: string;
+  next?: WorkflowTransition;
+  approval?: ApprovalChainDefinition;
 }
 
 // Automation Target Mapping
@@ -38,6 +85,13 @@ interface AutomationTarget {
 
 // Agency-Specific Workflow Management
 class AdaptiveWorkflowEngine {
+  // Approval SLA when a rule sets none; higher automation priority means a shorter turnaround
+  private static DEFAULT_APPROVAL_SLA_HOURS: { minimumPriority: number; slaHours: number }[] = [
+    { minimumPriority: 8, slaHours: 24 },
+    { minimumPriority: 5, slaHours: 72 },
+    { minimumPriority: 0, slaHours: 120 }
+  ];
+
   // Registry of supported government agencies
   private agencyConfigurations: Map<string, AgencyWorkflowConfiguration> = new Map();
 
@@ -47,7 +101,7 @@ class AdaptiveWorkflowEngine {
   }
 
   // Automated Workflow Generation
-  generateWorkflowForAgency(agencyId: string, workflowType: WorkflowCategory) {
+  generateWorkflowForAgency(agencyId: string, workflowType: WorkflowCategory): AgencyWorkflowDefinition {
     const agencyConfig = this.agencyConfigurations.get(agencyId);
     if (!agencyConfig) {
       throw new Error(`No configuration found for agency: ${agencyId}`);
@@ -58,24 +112,46 @@ class AdaptiveWorkflowEngine {
       rule => rule.applicableWorkflows.includes(workflowType)
     );
 
-    return this.constructWorkflow(agencyConfig, applicableRules);
+    return this.constructWorkflow(agencyConfig, workflowType, applicableRules);
   }
 
   // Advanced Workflow Construction
   private constructWorkflow(
     agencyConfig: AgencyWorkflowConfiguration, 
+    workflowType: WorkflowCategory,
     rules: AgencySpecificRule[]
-  ) {
+  ): AgencyWorkflowDefinition {
     // Workflow generation logic
     return {
       agencyId: agencyConfig.agencyId,
+      workflowType,
       workflowSteps: rules.map(rule => ({
+        stepId: rule.ruleId,
         ruleId: rule.ruleId,
         description: rule.description,
-        complianceChecks: rule.complianceChecks
+        complianceChecks: rule.complianceChecks,
+        executionMode: rule.executionMode || 'HUMAN',
+        automationHandler: rule.automationHandler,
+        assignedRole: rule.assignedRole,
+        next: rule.next,
+        approval: rule.approval && this.resolveApprovalChain(rule, rule.approval)
       }))
     };
   }
+
+  private resolveApprovalChain(rule: AgencySpecificRule, approval: ApprovalChainConfiguration): ApprovalChainDefinition {
+    const slaHours = approval.slaHours !== undefined
+      ? approval.slaHours
+      : AdaptiveWorkflowEngine.DEFAULT_APPROVAL_SLA_HOURS
+        .find(tier => rule.automationPriority >= tier.minimumPriority)!.slaHours;
+
+    return {
+      mode: approval.mode,
+      approvers: approval.approvers,
+      escalationPath: approval.escalationPath || [],
+      slaHours
+    };
+  }
 }
 
 // Example Specific Agency Configurations
@@ -89,7 +165,24 @@ const defenseLogisticsAgencyConfig: AgencyWorkflowConfiguration = {
       description: 'Defense Supply Chain Procurement Workflow',
       applicableWorkflows: [WorkflowCategory.PROCUREMENT],
       complianceChecks: [
-        /* Specific DLA procurement compliance checks */
+        {
+          checkId: 'DLA_REQUISITION_FIELDS',
+          description: 'Requisition identifies the item and requesting activity',
+          severity: 'BLOCKING',
+          predicate: { type: 'REQUIRED_FIELDS', fields: ['requisition.number', 'requisition.nsn', 'requisition.dodaac'] }
+        },
+        {
+          checkId: 'DLA_SIMPLIFIED_ACQUISITION',
+          description: 'Requisitions above the simplified acquisition threshold need additional review',
+          severity: 'WARNING',
+          predicate: { type: 'THRESHOLD', field: 'requisition.estimatedValue', operator: 'lte', value: 250000 }
+        },
+        {
+          checkId: 'DLA_REQUISITION_DOCUMENT',
+          description: 'Requisition document is attached',
+          severity: 'BLOCKING',
+          predicate: { type: 'DOCUMENT_PRESENT', documentTypes: ['DD_FORM_1348_6'] }
+        }
       ],
       automationPriority: 9
     }
@@ -117,7 +210,18 @@ const officePMConfig: AgencyWorkflowConfiguration = {
         WorkflowCategory.PERSONNEL_MANAGEMENT
       ],
       complianceChecks: [
-        /* USAJOBS specific workflow rules */
+        {
+          checkId: 'OPM_ANNOUNCEMENT_WINDOW',
+          description: 'Announcement stays open for at least five days',
+          severity: 'BLOCKING',
+          predicate: { type: 'DATE_WINDOW', field: 'announcement.closingDate', notBefore: 'NOW+5d' }
+        },
+        {
+          checkId: 'OPM_SALARY_RANGE',
+          description: 'Salary range minimum does not exceed its maximum',
+          severity: 'BLOCKING',
+          predicate: { type: 'CROSS_FIELD', left: 'announcement.salaryMin', operator: 'lte', right: 'announcement.salaryMax' }
+        }
       ],
       automationPriority: 8
     }
@@ -0,0 +1,5 @@
+// Node.js Built-in Modules
+
+// Declared once for every file-backed loader and the sealed bid vault; scripts share these bindings
+const nodeFs: typeof import('fs') = require('fs');
+const nodeCrypto: typeof import('crypto') = require('crypto');
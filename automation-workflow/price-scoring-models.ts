@@ -0,0 +1,169 @@
+// Pluggable Price Scoring Models for Bid Evaluation
+
+// Strategy contract shared by every price scoring model
+interface PriceScoringModel {
+  readonly modelType: string;
+  scorePrice(bid: VendorBid, context: PriceScoringContext): PriceScoreResult;
+}
+
+// Linear Interpolation Between Floor and Ceiling
+class LinearPriceScoringModel implements PriceScoringModel {
+  readonly modelType = 'LINEAR';
+
+  constructor(
+    private floorRatio: number = 0.7,   // At or below this share of budget scores 100
+    private ceilingRatio: number = 1.3  // At or above this share of budget scores 0
+  ) {
+    if (floorRatio >= ceilingRatio) {
+      throw new Error(`Linear price model floor ${floorRatio} must be below ceiling ${ceilingRatio}`);
+    }
+  }
+
+  scorePrice(bid: VendorBid, context: PriceScoringContext): PriceScoreResult {
+    const totalEvaluatedPrice = context.evaluatedPrice(bid);
+    const relativePrice = totalEvaluatedPrice / context.solicitation.budget;
+    const inputs = {
+      totalEvaluatedPrice,
+      budget: context.solicitation.budget,
+      relativePrice,
+      floorRatio: this.floorRatio,
+      ceilingRatio: this.ceilingRatio
+    };
+    const percentOfBudget = `${(relativePrice * 100).toFixed(1)}% of budget`;
+
+    if (relativePrice <= this.floorRatio) {
+      return {
+        score: 100,
+        rule: 'LINEAR_AT_OR_BELOW_FLOOR',
+        inputs,
+        explanation: `Price is ${percentOfBudget}, at or below the ${this.floorRatio * 100}% floor; full points.`
+      };
+    }
+    if (relativePrice >= this.ceilingRatio) {
+      return {
+        score: 0,
+        rule: 'LINEAR_AT_OR_ABOVE_CEILING',
+        inputs,
+        explanation: `Price is ${percentOfBudget}, at or above the ${this.ceilingRatio * 100}% ceiling; no points.`
+      };
+    }
+
+    const score = 100 * (this.ceilingRatio - relativePrice) / (this.ceilingRatio - this.floorRatio);
+    return {
+      score,
+      rule: 'LINEAR_INTERPOLATION',
+      inputs,
+      explanation: `Price is ${percentOfBudget}, interpolated between the ${this.floorRatio * 100}% floor ` +
+        `and ${this.ceilingRatio * 100}% ceiling for ${score.toFixed(1)} points.`
+    };
+  }
+}
+
+// Proportional Scoring Against the Lowest Responsive Bid
+class RatioToLowestPriceScoringModel implements PriceScoringModel {
+  readonly modelType = 'RATIO_TO_LOWEST';
+
+  scorePrice(bid: VendorBid, context: PriceScoringContext): PriceScoreResult {
+    const totalEvaluatedPrice = context.evaluatedPrice(bid);
+    // A zero or negative price has no meaningful ratio to the lowest
+    if (!(totalEvaluatedPrice > 0)) {
+      throw new Error(
+        `Ratio-to-lowest scoring requires a positive evaluated price; bid ${bid.vendorId} has ${totalEvaluatedPrice}`
+      );
+    }
+    const responsivePrices = context.competingBids
+      .map(competingBid => context.evaluatedPrice(competingBid))
+      .filter(price => price > 0);
+    const lowestPrice = Math.min(totalEvaluatedPrice, ...responsivePrices);
+    const score = 100 * lowestPrice / totalEvaluatedPrice;
+
+    return {
+      score,
+      rule: 'RATIO_TO_LOWEST_RESPONSIVE',
+      inputs: { totalEvaluatedPrice, lowestPrice, responsiveBidCount: responsivePrices.length },
+      explanation: lowestPrice === totalEvaluatedPrice
+        ? 'Lowest responsive price; full points.'
+        : `Price is ${(totalEvaluatedPrice / lowestPrice).toFixed(2)}x the lowest responsive price ` +
+          `for ${score.toFixed(1)} points.`
+    };
+  }
+}
+
+// Lowest-Price-Technically-Acceptable Pass/Fail
+class LptaPassFailPriceScoringModel implements PriceScoringModel {
+  readonly modelType = 'LPTA_PASS_FAIL';
+
+  constructor(private priceCeilingRatio: number = 1.0) {}
+
+  scorePrice(bid: VendorBid, context: PriceScoringContext): PriceScoreResult {
+    const priceCeiling = context.solicitation.budget * this.priceCeilingRatio;
+    const totalEvaluatedPrice = context.evaluatedPrice(bid);
+    const passed = totalEvaluatedPrice <= priceCeiling;
+
+    return {
+      score: passed ? 100 : 0,
+      rule: passed ? 'LPTA_PRICE_WITHIN_CEILING' : 'LPTA_PRICE_EXCEEDS_CEILING',
+      inputs: { totalEvaluatedPrice, priceCeiling },
+      explanation: passed
+        ? 'Price is within the LPTA price ceiling.'
+        : 'Price exceeds the LPTA price ceiling and fails price evaluation.'
+    };
+  }
+}
+
+// Registry resolving a solicitation's configuration to a scoring model
+class PriceScoringModelRegistry {
+  private modelFactories: Map<string, PriceScoringModelFactory> = new Map();
+
+  // Solicitations without a configuration fall back to linear scoring
+  private static DEFAULT_CONFIGURATION: PriceScoringConfiguration = { modelType: 'LINEAR' };
+
+  constructor() {
+    this.registerModel('LINEAR', parameters => new LinearPriceScoringModel(
+      parameters.floorRatio,
+      parameters.ceilingRatio
+    ));
+    this.registerModel('RATIO_TO_LOWEST', () => new RatioToLowestPriceScoringModel());
+    this.registerModel('LPTA_PASS_FAIL', parameters => new LptaPassFailPriceScoringModel(
+      parameters.priceCeilingRatio
+    ));
+  }
+
+  // Register a custom model under a configuration type name
+  registerModel(modelType: string, factory: PriceScoringModelFactory) {
+    this.modelFactories.set(modelType, factory);
+  }
+
+  resolveModel(solicitation: BidSolicitation): PriceScoringModel {
+    const configuration = solicitation.priceScoring || PriceScoringModelRegistry.DEFAULT_CONFIGURATION;
+    const factory = this.modelFactories.get(configuration.modelType);
+
+    if (!factory) {
+      throw new Error(`Unknown price scoring model: ${configuration.modelType}`);
+    }
+
+    return factory(configuration.parameters || {});
+  }
+}
+
+// Type Definitions
+interface PriceScoringContext {
+  solicitation: BidSolicitation;
+  competingBids: VendorBid[];  // Responsive bids for the same solicitation
+  evaluatedPrice: (bid: VendorBid) => number;  // Total evaluated price, computed alike for every bid
+}
+
+interface PriceScoreResult {
+  score: number;                    // 0-100
+  rule: string;                     // Identifier of the scoring rule that fired
+  inputs: Record<string, number>;
+  explanation: string;
+}
+
+// Stored on the solicitation so the model choice travels with the record
+interface PriceScoringConfiguration {
+  modelType: string;  // 'LINEAR' | 'RATIO_TO_LOWEST' | 'LPTA_PASS_FAIL' or a registered custom type
+  parameters?: Record<string, number>;
+}
+
+type PriceScoringModelFactory = (parameters: Record<string, number>) => PriceScoringModel;
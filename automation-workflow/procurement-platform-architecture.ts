@@ -22,8 +22,16 @@ type BidSolicitation = {
   agencyName: string
   category: ProcurementCategory
   budget: number
-  requirements: string[]
+  requirements: SolicitationRequirement[]
   deadline: Date
+  evaluationProfile?: EvaluationWeightingProfile  // Defaults to the engine's standard weights
+  priceScoring?: PriceScoringConfiguration        // Defaults to linear scoring against budget
+  sourceSelectionMode?: SourceSelectionMode       // Defaults to best-value tradeoff
+  technicalAcceptabilityThreshold?: number        // LPTA technical pass mark (0-100)
+  optionPeriods?: number                          // Option periods offered; later periods are not evaluated
+  evaluateOptions?: boolean                       // Include option periods in total evaluated price (default true)
+  status?: SolicitationStatus                     // Flat records without a lifecycle are treated as published
+  amendments?: SolicitationAmendment[]            // Issued amendments, oldest first
 }
 
 type VendorBid = {
@@ -32,6 +40,60 @@ type VendorBid = {
   proposedSolution: string
   pricing: PricingStructure
   complianceDocuments: string[]
+  requirementMappings?: RequirementMapping[]  // Requirement ID -> proposal section coverage
+  smallBusinessParticipation?: number  // Share of contract value (0-1) subcontracted to small businesses
+  documentMetadata?: SubmittedDocumentMetadata[]  // Properties of the submitted files
+  acknowledgedAmendments?: number[]  // Amendment numbers acknowledged in the offer
+  representations?: string[]  // Provisions completed in the offer, e.g. 'FAR 52.209-5'
+}
+
+// Line-Item Pricing
+type PricingStructure = {
+  totalCost: number        // Vendor-stated total; evaluation uses the computed total evaluated price
+  lineItems: ContractLineItem[]
+  escalationRate?: number  // Annual rate compounded per period on base-period prices (0.03 = 3%)
+}
+
+type ClinContractType = 'FFP' | 'T_AND_M' | 'COST_PLUS_FIXED_FEE'
+
+type ContractLineItem = {
+  clin: string          // Contract line item number, e.g. '0001' (base) or '1001' (option year 1)
+  description: string
+  period: number        // 0 = base period, 1..n = option years
+  contractType?: ClinContractType  // Defaults to firm-fixed-price
+  quantity: number      // Units, or labor hours for T&M
+  unitPrice: number     // Unit price, or fully burdened hourly rate for T&M
+  materialsCost?: number  // T&M materials at cost
+  estimatedCost?: number  // Cost-plus estimated cost
+  feeRate?: number        // Cost-plus fixed fee as a share of estimated cost
+}
+
+type BidSubmissionResult = {
+  accepted: boolean
+  receipt?: SealedBidReceipt  // Absent when the vendor was blocked before the bid was received
+  reason?: string
+}
+
+// Registered vendor identity used for credential validation
+type VendorProfile = {
+  vendorId: string
+  legalName: string
+  uei: string                  // SAM Unique Entity ID (12 characters)
+  cageCode: string             // Commercial and Government Entity code (5 characters)
+  naicsCodes: string[]         // 6-digit NAICS codes the vendor is registered under
+  certifications: SocioEconomicCertification[]
+  registrationExpiresOn: Date
+}
+
+// Regulatory Compliance Check Outcome
+interface RegulatoryComplianceResult {
+  compliant: boolean
+  applicableClauses: string[]
+  missingRepresentations: string[]
+  missingDocuments: string[]
+  requirementsAssessed: number   // Distinct representations and documents the applicable clauses require
+  findings: string[]
+  ruleLibraryVersion?: string
 }
 
 enum ProcurementCategory {
@@ -49,6 +111,15 @@ interface ComplianceStatus {
 }
 
 // Low-Code and Prototype Export Interfaces
+type ProcurementData = {
+  solicitationIds: string[]
+}
+
+type ProcurementWorkflow = {
+  workflowId: string
+  steps: string[]
+}
+
 interface LowCodeExportResult {
   platformCompatibility: string[]
   exportedWorkflows: string[]
@@ -0,0 +1,459 @@
+// Reference Procurement Platform over Pluggable Storage
+
+// Storage Adapter Contract
+interface ProcurementStorageAdapter {
+  saveSolicitation(solicitation: BidSolicitation): Promise<void>;
+  getSolicitation(solicitationId: string): Promise<BidSolicitation | undefined>;
+  listSolicitations(): Promise<BidSolicitation[]>;
+  saveReceipt(receipt: SealedBidReceipt): Promise<void>;
+  getReceipts(solicitationId: string): Promise<SealedBidReceipt[]>;
+  saveBid(bid: VendorBid): Promise<void>;
+  getBidsForSolicitation(solicitationId: string): Promise<VendorBid[]>;
+  saveEvaluationReport(report: BidEvaluationReport): Promise<void>;
+  getEvaluationReport(solicitationId: string): Promise<BidEvaluationReport | undefined>;
+  saveVaultState(state: SealedBidVaultState): Promise<void>;
+  getVaultState(): Promise<SealedBidVaultState | undefined>;
+  saveLifecycleRecord(record: SolicitationLifecycleRecord): Promise<void>;
+  getLifecycleRecord(solicitationId: string): Promise<SolicitationLifecycleRecord | undefined>;
+}
+
+// Serializable snapshot shared by the storage adapters
+interface ProcurementStorageState {
+  solicitations: Record<string, BidSolicitation>;
+  receipts: Record<string, SealedBidReceipt[]>;
+  bids: Record<string, VendorBid[]>;
+  evaluationReports: Record<string, BidEvaluationReport>;
+  vault?: SealedBidVaultState;
+  lifecycleRecords?: Record<string, SolicitationLifecycleRecord>;
+}
+
+// In-Memory Storage (tests)
+class InMemoryProcurementStorage implements ProcurementStorageAdapter {
+  protected state: ProcurementStorageState = {
+    solicitations: {},
+    receipts: {},
+    bids: {},
+    evaluationReports: {}
+  };
+
+  async saveSolicitation(solicitation: BidSolicitation) {
+    this.state.solicitations[solicitation.id] = structuredClone(solicitation);
+    await this.persist();
+  }
+
+  async getSolicitation(solicitationId: string) {
+    const solicitation = this.state.solicitations[solicitationId];
+    return solicitation ? structuredClone(solicitation) : undefined;
+  }
+
+  async listSolicitations() {
+    return Object.values(this.state.solicitations).map(solicitation => structuredClone(solicitation));
+  }
+
+  async saveReceipt(receipt: SealedBidReceipt) {
+    const receipts = this.state.receipts[receipt.solicitationId] || [];
+    this.state.receipts[receipt.solicitationId] = [...receipts, structuredClone(receipt)];
+    await this.persist();
+  }
+
+  async getReceipts(solicitationId: string) {
+    return structuredClone(this.state.receipts[solicitationId] || []);
+  }
+
+  // One stored bid per vendor per solicitation; a newer bid replaces the older one
+  async saveBid(bid: VendorBid) {
+    const bids = (this.state.bids[bid.solicitation] || []).filter(stored => stored.vendorId !== bid.vendorId);
+    this.state.bids[bid.solicitation] = [...bids, structuredClone(bid)];
+    await this.persist();
+  }
+
+  async getBidsForSolicitation(solicitationId: string) {
+    return structuredClone(this.state.bids[solicitationId] || []);
+  }
+
+  async saveEvaluationReport(report: BidEvaluationReport) {
+    this.state.evaluationReports[report.solicitationId] = structuredClone(report);
+    await this.persist();
+  }
+
+  async getEvaluationReport(solicitationId: string) {
+    const report = this.state.evaluationReports[solicitationId];
+    return report ? structuredClone(report) : undefined;
+  }
+
+  async saveVaultState(state: SealedBidVaultState) {
+    this.state.vault = structuredClone(state);
+    await this.persist();
+  }
+
+  async getVaultState() {
+    return this.state.vault ? structuredClone(this.state.vault) : undefined;
+  }
+
+  async saveLifecycleRecord(record: SolicitationLifecycleRecord) {
+    this.state.lifecycleRecords = {
+      ...(this.state.lifecycleRecords || {}),
+      [record.solicitationId]: structuredClone(record)
+    };
+    await this.persist();
+  }
+
+  async getLifecycleRecord(solicitationId: string) {
+    const record = (this.state.lifecycleRecords || {})[solicitationId];
+    return record ? structuredClone(record) : undefined;
+  }
+
+  // Hook for durable subclasses
+  protected async persist(): Promise<void> {}
+}
+
+// File-Backed JSON Storage (local development)
+class FileBackedProcurementStorage extends InMemoryProcurementStorage {
+  // ISO-8601 timestamps are revived as Date objects when the file is read
+  private static ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+  // The file is read once, however many calls arrive before it finishes
+  private loading?: Promise<void>;
+  // Tail of the write queue; each save waits for the one before it
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async saveSolicitation(solicitation: BidSolicitation) {
+    await this.load();
+    return super.saveSolicitation(solicitation);
+  }
+
+  async getSolicitation(solicitationId: string) {
+    await this.load();
+    return super.getSolicitation(solicitationId);
+  }
+
+  async listSolicitations() {
+    await this.load();
+    return super.listSolicitations();
+  }
+
+  async saveReceipt(receipt: SealedBidReceipt) {
+    await this.load();
+    return super.saveReceipt(receipt);
+  }
+
+  async getReceipts(solicitationId: string) {
+    await this.load();
+    return super.getReceipts(solicitationId);
+  }
+
+  async saveBid(bid: VendorBid) {
+    await this.load();
+    return super.saveBid(bid);
+  }
+
+  async getBidsForSolicitation(solicitationId: string) {
+    await this.load();
+    return super.getBidsForSolicitation(solicitationId);
+  }
+
+  async saveEvaluationReport(report: BidEvaluationReport) {
+    await this.load();
+    return super.saveEvaluationReport(report);
+  }
+
+  async getEvaluationReport(solicitationId: string) {
+    await this.load();
+    return super.getEvaluationReport(solicitationId);
+  }
+
+  async saveVaultState(state: SealedBidVaultState) {
+    await this.load();
+    return super.saveVaultState(state);
+  }
+
+  async getVaultState() {
+    await this.load();
+    return super.getVaultState();
+  }
+
+  async saveLifecycleRecord(record: SolicitationLifecycleRecord) {
+    await this.load();
+    return super.saveLifecycleRecord(record);
+  }
+
+  async getLifecycleRecord(solicitationId: string) {
+    await this.load();
+    return super.getLifecycleRecord(solicitationId);
+  }
+
+  // Saves are queued so concurrent writers never share the temporary file; each writes the latest state
+  protected persist(): Promise<void> {
+    const write = this.pendingWrite.then(() => this.writeState());
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  // Write to a temporary file then rename so a crash never leaves a partial file
+  private async writeState() {
+    const temporaryPath = `${this.filePath}.tmp`;
+    await nodeFs.promises.writeFile(temporaryPath, JSON.stringify(this.state, null, 2), 'utf8');
+    await nodeFs.promises.rename(temporaryPath, this.filePath);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      // A failed read is retried on the next call
+      this.loading = this.readState().catch(error => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readState() {
+    try {
+      const contents = await nodeFs.promises.readFile(this.filePath, 'utf8');
+      this.state = JSON.parse(contents, (key, value) =>
+        typeof value === 'string' && FileBackedProcurementStorage.ISO_DATE_PATTERN.test(value)
+          ? new Date(value)
+          : value
+      );
+    } catch (error) {
+      // A missing file starts an empty store; anything else is a real failure
+      const failure = error as NodeJS.ErrnoException;
+      if (failure.code !== 'ENOENT') {
+        throw new Error(`Unable to read procurement store ${this.filePath}: ${failure.message}`);
+      }
+    }
+  }
+}
+
+// Reference Platform Implementation
+class ReferenceProcurementPlatform implements ProcurementPlatform {
+  // Actor recorded on bid workflow transitions the platform drives
+  private static WORKFLOW_ACTOR = 'REFERENCE_PLATFORM';
+
+  // Vault custody state is restored from storage once, before first use
+  private vaultRestored = false;
+
+  constructor(
+    private storage: ProcurementStorageAdapter,
+    private bidVault: SealedBidVault,
+    private vendorRegistry: VendorRegistry,
+    private regulationRules: AcquisitionRegulationRuleEngine,
+    private evaluationEngine: BidEvaluationEngine = new BidEvaluationEngine(),
+    private lifecycle: SolicitationLifecycleManager = new SolicitationLifecycleManager()
+  ) {
+    // COMPLIANCE is scored against the same rule library checkAcquisitionRegulations reports on
+    this.evaluationEngine.useRegulatoryCompliance(this.regulationRules.forVendorRegistry(this.vendorRegistry));
+  }
+
+  // Solicitation Creation: new solicitations start as drafts and must be reviewed before publication
+  async createBidSolicitation(
+    details: BidSolicitation,
+    author: string = ReferenceProcurementPlatform.WORKFLOW_ACTOR
+  ): Promise<string> {
+    if (!details.id || !details.agencyName) {
+      throw new Error('Solicitation requires an id and agency name');
+    }
+    if (!(details.budget > 0)) {
+      throw new Error(`Solicitation ${details.id} requires a positive budget`);
+    }
+    if (await this.storage.getSolicitation(details.id)) {
+      throw new Error(`Solicitation ${details.id} already exists`);
+    }
+
+    // Reject invalid weighting profiles up front rather than at evaluation time
+    this.evaluationEngine.resolveWeightingProfile(details);
+
+    this.lifecycle.createDraft(details, author);
+    await this.saveLifecycleState(details.id);
+    return details.id;
+  }
+
+  // Solicitation Lifecycle: every change goes through the lifecycle manager and is then stored
+  async updateSolicitationDraft(solicitationId: string, changes: Partial<BidSolicitation>, actor: string) {
+    return this.applyLifecycleChange(solicitationId, lifecycle => {
+      this.evaluationEngine.resolveWeightingProfile({ ...lifecycle.getSolicitation(solicitationId), ...changes });
+      lifecycle.updateDraft(solicitationId, changes, actor);
+    });
+  }
+
+  async submitSolicitationForReview(solicitationId: string, actor: string) {
+    return this.applyLifecycleChange(solicitationId, lifecycle => lifecycle.submitForReview(solicitationId, actor));
+  }
+
+  async approveSolicitation(solicitationId: string, reviewer: string) {
+    return this.applyLifecycleChange(solicitationId, lifecycle => lifecycle.approve(solicitationId, reviewer));
+  }
+
+  async returnSolicitationToDraft(solicitationId: string, reviewer: string, comments: string) {
+    return this.applyLifecycleChange(solicitationId, lifecycle =>
+      lifecycle.returnToDraft(solicitationId, reviewer, comments)
+    );
+  }
+
+  async publishSolicitation(solicitationId: string, actor: string) {
+    return this.applyLifecycleChange(solicitationId, lifecycle => lifecycle.publish(solicitationId, actor));
+  }
+
+  // Amended deadlines and requirements are stored, so later receipts and openings use them
+  async amendSolicitation(solicitationId: string, issuance: AmendmentIssuance) {
+    return this.applyLifecycleChange(solicitationId, lifecycle => lifecycle.issueAmendment(solicitationId, issuance));
+  }
+
+  async cancelSolicitation(solicitationId: string, actor: string, reason: string) {
+    return this.applyLifecycleChange(solicitationId, lifecycle => lifecycle.cancel(solicitationId, actor, reason));
+  }
+
+  // Sealed Bid Submission; ineligible vendors are blocked before receipt
+  async submitBid(bid: VendorBid): Promise<BidSubmissionResult> {
+    const solicitation = await this.requireSolicitation(bid.solicitation);
+
+    // Flat records without a lifecycle are treated as published
+    const status = solicitation.status || 'PUBLISHED';
+    if (status !== 'PUBLISHED') {
+      return {
+        accepted: false,
+        reason: `Solicitation ${solicitation.id} is ${status}; bids are accepted only while it is published`
+      };
+    }
+
+    const eligibility = this.vendorRegistry.checkBidEligibility(bid.vendorId);
+    if (!eligibility.eligible) {
+      return { accepted: false, reason: eligibility.blockingReasons.join('; ') };
+    }
+
+    await this.restoreVault();
+    const receipt = await this.bidVault.receiveBid(bid, solicitation);
+    await this.storage.saveVaultState(this.bidVault.exportState());
+    await this.storage.saveReceipt(receipt);
+
+    return {
+      accepted: receipt.status === 'SEALED',
+      receipt,
+      reason: receipt.status === 'SEALED' ? undefined : 'Bid received after the solicitation deadline'
+    };
+  }
+
+  // Public bid opening; opened bids are persisted for evaluation
+  async openBids(solicitationId: string, officialIds: string[]): Promise<BidOpeningRecord> {
+    const solicitation = await this.requireSolicitation(solicitationId);
+    await this.restoreVault();
+    const opening = await this.bidVault.openBids(solicitation, officialIds);
+    await this.storage.saveVaultState(this.bidVault.exportState());
+
+    for (const bid of this.bidVault.getOpenedBids(solicitationId)) {
+      await this.storage.saveBid(bid);
+    }
+    return opening;
+  }
+
+  // Source Selection over Opened Bids; only bids that pass validation and screening are ranked
+  async evaluateBids(solicitationId: string): Promise<BidEvaluationReport> {
+    const solicitation = await this.requireSolicitation(solicitationId);
+    if (solicitation.status === 'CANCELLED') {
+      throw new Error(`Solicitation ${solicitationId} has been cancelled`);
+    }
+    await this.restoreVault();
+    if (!this.bidVault.getOpeningRecord(solicitationId)) {
+      throw new Error(`Bids for solicitation ${solicitationId} must be opened before evaluation`);
+    }
+
+    const bids = await this.storage.getBidsForSolicitation(solicitationId);
+    const { report } = this.evaluationEngine.processSolicitationWorkflows(
+      solicitation,
+      bids,
+      ReferenceProcurementPlatform.WORKFLOW_ACTOR
+    );
+
+    await this.storage.saveEvaluationReport(report);
+    return report;
+  }
+
+  // Vendor Credential Validation
+  async validateVendorCredentials(vendor: VendorProfile): Promise<ComplianceStatus> {
+    const result = this.vendorRegistry.validateVendor(vendor);
+
+    return {
+      isVerified: result.eligible,
+      regulatoryAlignments: [
+        ...(result.registrationExpired ? [] : ['ACTIVE_REGISTRATION']),
+        ...(result.exclusions.length === 0 ? ['NOT_EXCLUDED'] : []),
+        ...result.activeCertifications
+      ],
+      requiredDocuments: result.registrationExpired ? ['RENEWED_REGISTRATION'] : []
+    };
+  }
+
+  // Acquisition Regulation Check against the loaded FAR/DFARS rule library
+  async checkAcquisitionRegulations(bid: VendorBid): Promise<RegulatoryComplianceResult> {
+    const solicitation = await this.requireSolicitation(bid.solicitation);
+    return this.regulationRules.evaluate(bid, solicitation, this.vendorRegistry.getVendor(bid.vendorId));
+  }
+
+  // Low-Code Export of stored solicitations and their evaluation state
+  async exportToLowCodePlatform(data: ProcurementData): Promise<LowCodeExportResult> {
+    const exportedWorkflows: string[] = [];
+
+    for (const solicitationId of data.solicitationIds) {
+      await this.requireSolicitation(solicitationId);
+      const report = await this.storage.getEvaluationReport(solicitationId);
+      exportedWorkflows.push(`${solicitationId}:${report ? 'EVALUATED' : 'OPEN'}`);
+    }
+
+    return {
+      platformCompatibility: ['BUBBLE'],
+      exportedWorkflows
+    };
+  }
+
+  // Prototype generation needs the Figma service, which the reference platform does not reach
+  async generateFigmaPrototype(workflow: ProcurementWorkflow): Promise<FigmaPrototypeLink> {
+    throw new Error(
+      `Figma prototype generation is not available in the reference platform (workflow ${workflow.workflowId})`
+    );
+  }
+
+  private async applyLifecycleChange(
+    solicitationId: string,
+    change: (lifecycle: SolicitationLifecycleManager) => unknown
+  ): Promise<BidSolicitation> {
+    if (!this.lifecycle.hasSolicitation(solicitationId)) {
+      const record = await this.storage.getLifecycleRecord(solicitationId);
+      if (!record) {
+        throw new Error(`Unknown solicitation: ${solicitationId}`);
+      }
+      this.lifecycle.restoreRecord(record);
+    }
+
+    change(this.lifecycle);
+    await this.saveLifecycleState(solicitationId);
+    return this.lifecycle.getSolicitation(solicitationId);
+  }
+
+  // The stored solicitation always mirrors the lifecycle's current version
+  private async saveLifecycleState(solicitationId: string) {
+    await this.storage.saveLifecycleRecord(this.lifecycle.exportRecord(solicitationId));
+    await this.storage.saveSolicitation(this.lifecycle.getSolicitation(solicitationId));
+  }
+
+  private async restoreVault() {
+    if (this.vaultRestored) return;
+
+    const state = await this.storage.getVaultState();
+    if (state) {
+      await this.bidVault.restoreState(state);
+    }
+    this.vaultRestored = true;
+  }
+
+  private async requireSolicitation(solicitationId: string): Promise<BidSolicitation> {
+    const solicitation = await this.storage.getSolicitation(solicitationId);
+    if (!solicitation) {
+      throw new Error(`Unknown solicitation: ${solicitationId}`);
+    }
+    return solicitation;
+  }
+}
@@ -0,0 +1,154 @@
+// Requirements Compliance Matrix: Solicitation Requirements vs Proposal Content
+
+class RequirementsComplianceMatrixBuilder {
+  // Mandatory requirements count double toward requirement alignment
+  private static PRIORITY_WEIGHTS: Record<RequirementPriority, number> = {
+    MANDATORY: 2,
+    DESIRABLE: 1
+  };
+
+  // Credit awarded per compliance status
+  private static STATUS_CREDIT: Record<RequirementComplianceStatus, number> = {
+    MET: 1,
+    PARTIALLY_MET: 0.5,
+    NOT_ADDRESSED: 0,
+    EXCEPTION: 0
+  };
+
+  // Map every solicitation requirement to the vendor's proposal
+  build(bid: VendorBid, solicitation: BidSolicitation): ComplianceMatrix {
+    this.assertUniqueRequirementIds(solicitation);
+
+    const mappings = bid.requirementMappings || [];
+    const proposalText = bid.proposedSolution.toLowerCase();
+
+    const entries = solicitation.requirements.map(requirement => {
+      const mapping = mappings.find(entry => entry.requirementId === requirement.requirementId);
+      const { status, note } = this.determineStatus(mapping, proposalText);
+
+      return {
+        requirementId: requirement.requirementId,
+        description: requirement.description,
+        priority: requirement.priority,
+        verificationMethod: requirement.verificationMethod,
+        proposalSection: mapping ? mapping.proposalSection : undefined,
+        status,
+        note
+      };
+    });
+
+    return {
+      solicitationId: solicitation.id,
+      vendorId: bid.vendorId,
+      entries,
+      unaddressedMandatory: entries
+        .filter(entry => entry.priority === 'MANDATORY' && entry.status === 'NOT_ADDRESSED')
+        .map(entry => entry.requirementId),
+      mandatoryExceptions: entries
+        .filter(entry => entry.priority === 'MANDATORY' && entry.status === 'EXCEPTION')
+        .map(entry => entry.requirementId),
+      generatedAt: new Date()
+    };
+  }
+
+  // Weighted share (0-100) of requirement credit earned by the proposal
+  calculateAlignmentScore(matrix: ComplianceMatrix): number {
+    const weights = RequirementsComplianceMatrixBuilder.PRIORITY_WEIGHTS;
+    const credits = RequirementsComplianceMatrixBuilder.STATUS_CREDIT;
+
+    const possible = matrix.entries.reduce((sum, entry) => sum + weights[entry.priority], 0);
+    if (possible === 0) return 100;
+
+    const earned = matrix.entries.reduce(
+      (sum, entry) => sum + weights[entry.priority] * credits[entry.status],
+      0
+    );
+    return (earned / possible) * 100;
+  }
+
+  private determineStatus(
+    mapping: RequirementMapping | undefined,
+    proposalText: string
+  ): { status: RequirementComplianceStatus; note: string } {
+    if (!mapping) {
+      return { status: 'NOT_ADDRESSED', note: 'Vendor did not map this requirement to the proposal' };
+    }
+
+    if (mapping.exception) {
+      return { status: 'EXCEPTION', note: `Vendor exception: ${mapping.exception}` };
+    }
+
+    // A mapping must name a section, and that section must actually exist in the proposal
+    const proposalSection = (mapping.proposalSection || '').trim();
+    if (!proposalSection) {
+      return { status: 'NOT_ADDRESSED', note: 'Mapping does not reference a proposal section' };
+    }
+    if (!this.containsSection(proposalText, proposalSection.toLowerCase())) {
+      return {
+        status: 'NOT_ADDRESSED',
+        note: `Referenced section "${mapping.proposalSection}" not found in proposed solution`
+      };
+    }
+
+    return mapping.coverage === 'PARTIAL'
+      ? { status: 'PARTIALLY_MET', note: `Partially addressed in ${mapping.proposalSection}` }
+      : { status: 'MET', note: `Addressed in ${mapping.proposalSection}` };
+  }
+
+  // The cited identifier must appear whole: "Section 2" is not found in "Section 20" or "Section 2.1"
+  private containsSection(proposalText: string, proposalSection: string): boolean {
+    const escaped = proposalSection.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}(?![a-z0-9]|\\.[a-z0-9])`).test(proposalText);
+  }
+
+  private assertUniqueRequirementIds(solicitation: BidSolicitation) {
+    const seen = new Set<string>();
+    solicitation.requirements.forEach(({ requirementId }) => {
+      if (seen.has(requirementId)) {
+        throw new Error(`Duplicate requirement ID ${requirementId} in solicitation ${solicitation.id}`);
+      }
+      seen.add(requirementId);
+    });
+  }
+}
+
+// Type Definitions
+type RequirementPriority = 'MANDATORY' | 'DESIRABLE';
+
+type RequirementVerificationMethod = 'INSPECTION' | 'DEMONSTRATION' | 'TEST' | 'ANALYSIS';
+
+type RequirementComplianceStatus = 'MET' | 'PARTIALLY_MET' | 'NOT_ADDRESSED' | 'EXCEPTION';
+
+interface SolicitationRequirement {
+  requirementId: string;  // Stable identifier, e.g. "REQ-3.2.1"
+  description: string;
+  priority: RequirementPriority;
+  verificationMethod: RequirementVerificationMethod;
+}
+
+// Vendor's pointer from a requirement to the section of proposedSolution that answers it
+interface RequirementMapping {
+  requirementId: string;
+  proposalSection: string;
+  coverage: 'FULL' | 'PARTIAL';
+  exception?: string;  // Set when the vendor takes exception to the requirement
+}
+
+interface ComplianceMatrixEntry {
+  requirementId: string;
+  description: string;
+  priority: RequirementPriority;
+  verificationMethod: RequirementVerificationMethod;
+  proposalSection?: string;
+  status: RequirementComplianceStatus;
+  note: string;
+}
+
+interface ComplianceMatrix {
+  solicitationId: string;
+  vendorId: string;
+  entries: ComplianceMatrixEntry[];
+  unaddressedMandatory: string[];
+  mandatoryExceptions: string[];  // Mandatory requirements the vendor took exception to
+  generatedAt: Date;
+}
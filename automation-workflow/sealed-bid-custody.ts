@@ -0,0 +1,358 @@
+// Sealed Bid Custody: Encrypted Submissions Opened Only After the Deadline
+
+class SealedBidVault {
+  // Authenticated encryption for bids held in custody
+  private static CIPHER_ALGORITHM: 'aes-256-gcm' = 'aes-256-gcm';
+
+  // Access levels permitted to serve as bid opening officials
+  private static OPENING_ACCESS_LEVELS = [AccessLevel.PRIVILEGED, AccessLevel.EXECUTIVE];
+
+  // A bid opening must be witnessed by at least two distinct officials
+  private static REQUIRED_OPENING_OFFICIALS = 2;
+
+  private sealedBids: Map<string, SealedBidEnvelope[]> = new Map();
+  private quarantinedBids: Map<string, SealedBidEnvelope[]> = new Map();
+  private receipts: Map<string, SealedBidReceipt[]> = new Map();
+  private openings: Map<string, BidOpeningRecord> = new Map();
+  private openedBids: Map<string, VendorBid[]> = new Map();
+
+  // Receipt and opening times come from the clock, never from the caller.
+  // Sealing keys live in the key store, apart from the custody state that is exported with the bids
+  constructor(
+    private auditLogger: ComplianceLoggingManager,
+    private officialDirectory: BidOpeningOfficialDirectory,
+    private latePolicy: LateBidPolicy = 'REFUSE',
+    private clock: () => Date = () => new Date(),
+    private keyStore: SealedBidKeyStore = new InMemorySealedBidKeyStore()
+  ) {}
+
+  // Bid Receipt: encrypt on arrival, refuse or quarantine anything after the deadline
+  async receiveBid(bid: VendorBid, solicitation: BidSolicitation): Promise<SealedBidReceipt> {
+    if (this.openings.has(solicitation.id)) {
+      throw new Error(`Bids for solicitation ${solicitation.id} have already been opened`);
+    }
+
+    const receivedAt = this.clock();
+    const isLate = receivedAt.getTime() > solicitation.deadline.getTime();
+    const plaintext = this.serializeBid(bid);
+
+    const receipt: SealedBidReceipt = {
+      receiptId: `RCPT-${solicitation.id}-${nodeCrypto.randomBytes(8).toString('hex')}`,
+      solicitationId: solicitation.id,
+      vendorId: bid.vendorId,
+      receivedAt,
+      deadline: solicitation.deadline,
+      status: !isLate ? 'SEALED' : this.latePolicy === 'QUARANTINE' ? 'QUARANTINED_LATE' : 'REFUSED_LATE',
+      contentDigest: nodeCrypto.createHash('sha256').update(plaintext).digest('hex')
+    };
+
+    if (receipt.status !== 'REFUSED_LATE') {
+      const envelope = await this.seal(solicitation.id, receipt, plaintext);
+      const store = receipt.status === 'SEALED' ? this.sealedBids : this.quarantinedBids;
+      store.set(solicitation.id, [...(store.get(solicitation.id) || []), envelope]);
+    }
+
+    this.receipts.set(solicitation.id, [...(this.receipts.get(solicitation.id) || []), receipt]);
+
+    await this.logCustodyEvent({
+      eventType: isLate ? AuditEventType.BID_LATE_SUBMISSION : AuditEventType.BID_RECEIVED,
+      userId: bid.vendorId,
+      accessLevel: AccessLevel.RESTRICTED,
+      solicitation,
+      outcome: isLate ? 'FAILURE' : 'SUCCESS',
+      resource: `${receipt.receiptId}:${receipt.status}`,
+      timestamp: receivedAt
+    });
+
+    return receipt;
+  }
+
+  // Bid Opening: after the deadline, in the presence of two authorized officials
+  async openBids(solicitation: BidSolicitation, officialIds: string[]): Promise<BidOpeningRecord> {
+    if (this.openings.has(solicitation.id)) {
+      throw new Error(`Bids for solicitation ${solicitation.id} have already been opened`);
+    }
+
+    const openedAt = this.clock();
+    if (openedAt.getTime() <= solicitation.deadline.getTime()) {
+      throw new Error(`Bids for solicitation ${solicitation.id} cannot be opened before the deadline`);
+    }
+
+    // Access levels come from the official directory, not from the officials themselves
+    const authorizedOfficials = [...new Set(officialIds)].flatMap(userId => {
+      const accessLevel = this.officialDirectory.getAccessLevel(userId);
+      return accessLevel !== undefined && SealedBidVault.OPENING_ACCESS_LEVELS.includes(accessLevel)
+        ? [{ userId, accessLevel }]
+        : [];
+    });
+    const distinctOfficials = new Set(authorizedOfficials.map(official => official.userId));
+
+    if (distinctOfficials.size < SealedBidVault.REQUIRED_OPENING_OFFICIALS) {
+      await this.logCustodyEvent({
+        eventType: AuditEventType.BID_OPENING,
+        userId: officialIds.join(',') || 'UNKNOWN',
+        accessLevel: AccessLevel.RESTRICTED,
+        solicitation,
+        outcome: 'FAILURE',
+        resource: `${solicitation.id}:INSUFFICIENT_OFFICIALS`,
+        timestamp: openedAt
+      });
+      throw new Error(
+        `Bid opening requires ${SealedBidVault.REQUIRED_OPENING_OFFICIALS} distinct authorized officials`
+      );
+    }
+
+    const envelopes = this.sealedBids.get(solicitation.id) || [];
+    const bids = await this.unsealAll(solicitation.id, envelopes);
+
+    const opening: BidOpeningRecord = {
+      solicitationId: solicitation.id,
+      openedAt,
+      officials: [...distinctOfficials],
+      openedReceiptIds: envelopes.map(envelope => envelope.receiptId),
+      quarantinedReceiptIds: (this.quarantinedBids.get(solicitation.id) || [])
+        .map(envelope => envelope.receiptId)
+    };
+
+    this.openings.set(solicitation.id, opening);
+    this.openedBids.set(solicitation.id, bids);
+
+    await this.logCustodyEvent({
+      eventType: AuditEventType.BID_OPENING,
+      userId: opening.officials.join(','),
+      accessLevel: authorizedOfficials[0].accessLevel,
+      solicitation,
+      outcome: 'SUCCESS',
+      resource: `${solicitation.id}:${bids.length}_BIDS_OPENED`,
+      timestamp: openedAt
+    });
+
+    return opening;
+  }
+
+  // Plaintext bids are available to agency staff only after a recorded opening
+  getOpenedBids(solicitationId: string): VendorBid[] {
+    const bids = this.openedBids.get(solicitationId);
+    if (!bids) {
+      throw new Error(`Bids for solicitation ${solicitationId} have not been opened`);
+    }
+    return [...bids];
+  }
+
+  getReceipts(solicitationId: string): SealedBidReceipt[] {
+    return [...(this.receipts.get(solicitationId) || [])];
+  }
+
+  getOpeningRecord(solicitationId: string): BidOpeningRecord | undefined {
+    return this.openings.get(solicitationId);
+  }
+
+  // Custody State: everything needed to resume after a restart; plaintext bids and keys are never exported
+  exportState(): SealedBidVaultState {
+    const toRecord = <T>(map: Map<string, T>) => structuredClone(Object.fromEntries(map.entries()));
+
+    return {
+      sealedBids: toRecord(this.sealedBids),
+      quarantinedBids: toRecord(this.quarantinedBids),
+      receipts: toRecord(this.receipts),
+      openings: toRecord(this.openings)
+    };
+  }
+
+  // Replace custody state with a saved export; opened bids are unsealed again with keys from the key store
+  async restoreState(state: SealedBidVaultState) {
+    const toMap = <T>(record: Record<string, T>) => new Map(Object.entries(structuredClone(record || {})));
+
+    const sealedBids = toMap(state.sealedBids);
+    const openings = toMap(state.openings);
+    const openedBids: Map<string, VendorBid[]> = new Map();
+    for (const [solicitationId, opening] of openings) {
+      const envelopes = (sealedBids.get(solicitationId) || [])
+        .filter(envelope => opening.openedReceiptIds.includes(envelope.receiptId));
+      openedBids.set(solicitationId, await this.unsealAll(solicitationId, envelopes));
+    }
+
+    this.sealedBids = sealedBids;
+    this.quarantinedBids = toMap(state.quarantinedBids);
+    this.receipts = toMap(state.receipts);
+    this.openings = openings;
+    this.openedBids = openedBids;
+  }
+
+  private async seal(
+    solicitationId: string,
+    receipt: SealedBidReceipt,
+    plaintext: string
+  ): Promise<SealedBidEnvelope> {
+    const key = await this.keyStore.getOrCreateKey(solicitationId);
+    const iv = nodeCrypto.randomBytes(12);
+    const cipher = nodeCrypto.createCipheriv(SealedBidVault.CIPHER_ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+      receiptId: receipt.receiptId,
+      contentDigest: receipt.contentDigest,
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    };
+  }
+
+  private async unsealAll(solicitationId: string, envelopes: SealedBidEnvelope[]): Promise<VendorBid[]> {
+    if (envelopes.length === 0) return [];
+
+    const key = await this.keyStore.getKey(solicitationId);
+    if (!key) {
+      throw new Error(`No sealing key is available for solicitation ${solicitationId}`);
+    }
+    return envelopes.map(envelope => this.unseal(key, envelope));
+  }
+
+  private unseal(key: Buffer, envelope: SealedBidEnvelope): VendorBid {
+    const decipher = nodeCrypto.createDecipheriv(
+      SealedBidVault.CIPHER_ALGORITHM,
+      key,
+      Buffer.from(envelope.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(envelope.authTag, 'base64'));
+
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+
+    // The opened content must match what was receipted
+    if (nodeCrypto.createHash('sha256').update(plaintext).digest('hex') !== envelope.contentDigest) {
+      throw new Error(`Sealed bid ${envelope.receiptId} does not match its receipt digest`);
+    }
+    return this.deserializeBid(plaintext);
+  }
+
+  // Dates are tagged when sealed so the opened bid matches the submitted one
+  private serializeBid(bid: VendorBid): string {
+    return JSON.stringify(bid, function (key, value) {
+      return this[key] instanceof Date ? { $date: this[key].toISOString() } : value;
+    });
+  }
+
+  private deserializeBid(plaintext: string): VendorBid {
+    return JSON.parse(plaintext, (key, value) =>
+      value && typeof value === 'object' && typeof value.$date === 'string' ? new Date(value.$date) : value
+    );
+  }
+
+  private async logCustodyEvent(event: {
+    eventType: AuditEventType;
+    userId: string;
+    accessLevel: AccessLevel;
+    solicitation: BidSolicitation;
+    outcome: 'SUCCESS' | 'FAILURE';
+    resource: string;
+    timestamp: Date;
+  }) {
+    await this.auditLogger.logEvent({
+      timestamp: event.timestamp.getTime(),
+      eventId: `BID_CUSTODY_${nodeCrypto.randomBytes(8).toString('hex')}`,
+      userId: event.userId,
+      agencyId: event.solicitation.agencyName,
+      eventType: event.eventType,
+      actionOutcome: event.outcome,
+      resourceAccessed: event.resource,
+      additionalContext: {
+        ipAddress: 'INTERNAL',
+        userAgent: 'SealedBidVault',
+        accessLevel: event.accessLevel
+      },
+      securityMetadata: {
+        authenticationMethod: event.accessLevel === AccessLevel.RESTRICTED ? 'VENDOR_PORTAL' : 'CAC_PIV'
+      }
+    });
+  }
+}
+
+// Contracting officials designated to open bids, with their granted access levels
+class BidOpeningOfficialRoster implements BidOpeningOfficialDirectory {
+  private officials: Map<string, BidOpeningOfficial> = new Map();
+
+  designate(official: BidOpeningOfficial) {
+    this.officials.set(official.userId, { ...official });
+  }
+
+  revoke(userId: string) {
+    this.officials.delete(userId);
+  }
+
+  getAccessLevel(userId: string): AccessLevel | undefined {
+    const official = this.officials.get(userId);
+    return official ? official.accessLevel : undefined;
+  }
+}
+
+// Process-local key store (tests and single-process use); production deployments supply a KMS-backed store
+class InMemorySealedBidKeyStore implements SealedBidKeyStore {
+  private keys: Map<string, Buffer> = new Map();
+
+  async getOrCreateKey(solicitationId: string): Promise<Buffer> {
+    if (!this.keys.has(solicitationId)) {
+      this.keys.set(solicitationId, nodeCrypto.randomBytes(32));
+    }
+    return this.keys.get(solicitationId)!;
+  }
+
+  async getKey(solicitationId: string): Promise<Buffer | undefined> {
+    return this.keys.get(solicitationId);
+  }
+}
+
+// Type Definitions
+type LateBidPolicy = 'REFUSE' | 'QUARANTINE';
+
+interface SealedBidReceipt {
+  receiptId: string;
+  solicitationId: string;
+  vendorId: string;
+  receivedAt: Date;
+  deadline: Date;
+  status: 'SEALED' | 'QUARANTINED_LATE' | 'REFUSED_LATE';
+  contentDigest: string;  // SHA-256 of the submission as received
+}
+
+interface SealedBidEnvelope {
+  receiptId: string;
+  contentDigest: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+interface BidOpeningOfficial {
+  userId: string;
+  accessLevel: AccessLevel;
+}
+
+// Authoritative source of each official's access level
+interface BidOpeningOfficialDirectory {
+  getAccessLevel(userId: string): AccessLevel | undefined;
+}
+
+// Per-solicitation AES-256 sealing keys, kept in a secret store separate from the custody state
+interface SealedBidKeyStore {
+  getOrCreateKey(solicitationId: string): Promise<Buffer>;
+  getKey(solicitationId: string): Promise<Buffer | undefined>;
+}
+
+// Serializable custody state; holds only encrypted bids, never the keys that open them
+interface SealedBidVaultState {
+  sealedBids: Record<string, SealedBidEnvelope[]>;
+  quarantinedBids: Record<string, SealedBidEnvelope[]>;
+  receipts: Record<string, SealedBidReceipt[]>;
+  openings: Record<string, BidOpeningRecord>;
+}
+
+interface BidOpeningRecord {
+  solicitationId: string;
+  openedAt: Date;
+  officials: string[];
+  openedReceiptIds: string[];
+  quarantinedReceiptIds: string[];  // Late bids held unopened for contracting officer decision
+}
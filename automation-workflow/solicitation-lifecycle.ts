@@ -0,0 +1,278 @@
+// Solicitation Lifecycle: Drafts, Review, Publication, Amendments and Cancellation
+
+class SolicitationLifecycleManager {
+  private static ALLOWED_TRANSITIONS: Record<SolicitationStatus, SolicitationStatus[]> = {
+    DRAFT: ['IN_REVIEW', 'CANCELLED'],
+    IN_REVIEW: ['APPROVED', 'DRAFT', 'CANCELLED'],
+    APPROVED: ['PUBLISHED', 'CANCELLED'],
+    PUBLISHED: ['CANCELLED'],
+    CANCELLED: []
+  };
+
+  private records: Map<string, SolicitationLifecycleRecord> = new Map();
+
+  // Draft Creation
+  createDraft(solicitation: BidSolicitation, author: string): BidSolicitation {
+    if (this.records.has(solicitation.id)) {
+      throw new Error(`Solicitation ${solicitation.id} already exists`);
+    }
+
+    const record: SolicitationLifecycleRecord = {
+      solicitationId: solicitation.id,
+      author,
+      versions: [],
+      history: []
+    };
+    this.records.set(solicitation.id, record);
+
+    this.recordVersion(record, { ...solicitation, status: 'DRAFT', amendments: [] });
+    record.history.push({ status: 'DRAFT', actor: author, at: new Date(), note: 'Draft created' });
+    return this.getSolicitation(solicitation.id);
+  }
+
+  // Drafts may be edited freely until they go to review
+  updateDraft(solicitationId: string, changes: Partial<BidSolicitation>, actor: string): BidSolicitation {
+    const record = this.getRecord(solicitationId);
+    const current = this.current(record);
+    if (current.status !== 'DRAFT') {
+      throw new Error(`Solicitation ${solicitationId} is ${current.status}; only drafts can be edited`);
+    }
+
+    // Lifecycle fields are owned by this manager
+    const { id, status, amendments, ...editable } = changes;
+    this.recordVersion(record, { ...current, ...editable });
+    record.history.push({ status: 'DRAFT', actor, at: new Date(), note: 'Draft updated' });
+    return this.getSolicitation(solicitationId);
+  }
+
+  // Review and Approval
+  submitForReview(solicitationId: string, actor: string): BidSolicitation {
+    return this.transition(solicitationId, 'IN_REVIEW', actor, 'Submitted for review');
+  }
+
+  approve(solicitationId: string, reviewer: string): BidSolicitation {
+    const record = this.getRecord(solicitationId);
+    if (reviewer === record.author) {
+      throw new Error(`Solicitation ${solicitationId} cannot be approved by its author`);
+    }
+    return this.transition(solicitationId, 'APPROVED', reviewer, 'Approved for publication');
+  }
+
+  returnToDraft(solicitationId: string, reviewer: string, comments: string): BidSolicitation {
+    return this.transition(solicitationId, 'DRAFT', reviewer, comments);
+  }
+
+  publish(solicitationId: string, actor: string): BidSolicitation {
+    return this.transition(solicitationId, 'PUBLISHED', actor, 'Published');
+  }
+
+  // Numbered Amendments (published solicitations only)
+  issueAmendment(solicitationId: string, issuance: AmendmentIssuance): SolicitationAmendment {
+    const record = this.getRecord(solicitationId);
+    const current = this.current(record);
+    if (current.status !== 'PUBLISHED') {
+      throw new Error(`Solicitation ${solicitationId} is ${current.status}; only published solicitations can be amended`);
+    }
+    if (!issuance.description || !issuance.description.trim()) {
+      throw new Error('Amendment requires a description');
+    }
+
+    const issuedAt = issuance.issuedAt || new Date();
+    const { changes } = issuance;
+    if (changes.budget !== undefined && !(changes.budget > 0)) {
+      throw new Error(`Amended budget must be positive, got ${changes.budget}`);
+    }
+    if (changes.deadline && changes.deadline.getTime() <= issuedAt.getTime()) {
+      throw new Error('Amended deadline must be after the amendment issue date');
+    }
+
+    const changedFields = (Object.keys(changes) as (keyof SolicitationAmendmentChanges)[])
+      .filter(field => changes[field] !== undefined);
+
+    // Any change to requirements, budget or deadline is material unless stated otherwise
+    const amendment: SolicitationAmendment = Object.freeze({
+      amendmentNumber: (current.amendments || []).length + 1,
+      version: record.versions.length + 1,
+      description: issuance.description,
+      changedFields,
+      material: issuance.material !== undefined ? issuance.material : changedFields.length > 0,
+      issuedBy: issuance.issuedBy,
+      issuedAt
+    });
+
+    this.recordVersion(record, {
+      ...current,
+      ...(changes.requirements ? { requirements: changes.requirements } : {}),
+      ...(changes.budget !== undefined ? { budget: changes.budget } : {}),
+      ...(changes.deadline ? { deadline: changes.deadline } : {}),
+      amendments: [...(current.amendments || []), amendment]
+    });
+    record.history.push({
+      status: 'PUBLISHED',
+      actor: issuance.issuedBy,
+      at: issuedAt,
+      note: `Amendment ${amendment.amendmentNumber}: ${issuance.description}`
+    });
+
+    return amendment;
+  }
+
+  // Cancellation with a recorded reason
+  cancel(solicitationId: string, actor: string, reason: string): BidSolicitation {
+    if (!reason || !reason.trim()) {
+      throw new Error(`Cancelling solicitation ${solicitationId} requires a reason`);
+    }
+    return this.transition(solicitationId, 'CANCELLED', actor, reason);
+  }
+
+  getSolicitation(solicitationId: string): BidSolicitation {
+    return this.current(this.getRecord(solicitationId));
+  }
+
+  hasSolicitation(solicitationId: string): boolean {
+    return this.records.has(solicitationId);
+  }
+
+  // Lifecycle Records: exported for storage and restored after a restart
+  exportRecord(solicitationId: string): SolicitationLifecycleRecord {
+    return structuredClone(this.getRecord(solicitationId));
+  }
+
+  restoreRecord(record: SolicitationLifecycleRecord) {
+    const restored: SolicitationLifecycleRecord = { ...structuredClone(record), versions: [] };
+    record.versions.forEach(version => this.recordVersion(restored, structuredClone(version)));
+    this.records.set(record.solicitationId, restored);
+  }
+
+  getVersion(solicitationId: string, version: number): BidSolicitation {
+    const snapshot = this.getRecord(solicitationId).versions[version - 1];
+    if (!snapshot) {
+      throw new Error(`Solicitation ${solicitationId} has no version ${version}`);
+    }
+    return snapshot;
+  }
+
+  getVersionHistory(solicitationId: string): BidSolicitation[] {
+    return [...this.getRecord(solicitationId).versions];
+  }
+
+  getStatusHistory(solicitationId: string): SolicitationStatusChange[] {
+    return [...this.getRecord(solicitationId).history];
+  }
+
+  // Material amendments the bid has not acknowledged
+  static findUnacknowledgedAmendments(bid: VendorBid, solicitation: BidSolicitation): SolicitationAmendment[] {
+    const acknowledged = new Set(bid.acknowledgedAmendments || []);
+    return (solicitation.amendments || [])
+      .filter(amendment => amendment.material && !acknowledged.has(amendment.amendmentNumber));
+  }
+
+  // Acknowledgement status of every amendment for each received bid
+  getAcknowledgementReport(solicitationId: string, bids: VendorBid[]): AmendmentAcknowledgementReport {
+    const solicitation = this.getSolicitation(solicitationId);
+
+    return {
+      solicitationId,
+      amendments: (solicitation.amendments || []).map(amendment => ({
+        amendmentNumber: amendment.amendmentNumber,
+        material: amendment.material,
+        acknowledgedBy: bids
+          .filter(bid => (bid.acknowledgedAmendments || []).includes(amendment.amendmentNumber))
+          .map(bid => bid.vendorId),
+        outstanding: bids
+          .filter(bid => !(bid.acknowledgedAmendments || []).includes(amendment.amendmentNumber))
+          .map(bid => bid.vendorId)
+      }))
+    };
+  }
+
+  private transition(
+    solicitationId: string,
+    target: SolicitationStatus,
+    actor: string,
+    note: string
+  ): BidSolicitation {
+    const record = this.getRecord(solicitationId);
+    const current = this.current(record);
+
+    if (!SolicitationLifecycleManager.ALLOWED_TRANSITIONS[current.status!].includes(target)) {
+      throw new Error(`Solicitation ${solicitationId} cannot move from ${current.status} to ${target}`);
+    }
+
+    this.recordVersion(record, { ...current, status: target });
+    record.history.push({ status: target, actor, at: new Date(), note });
+    return this.getSolicitation(solicitationId);
+  }
+
+  // Every change produces a new frozen snapshot
+  private recordVersion(record: SolicitationLifecycleRecord, solicitation: BidSolicitation) {
+    record.versions.push(Object.freeze({
+      ...solicitation,
+      requirements: Object.freeze([...solicitation.requirements]) as SolicitationRequirement[],
+      amendments: Object.freeze([...(solicitation.amendments || [])]) as SolicitationAmendment[]
+    }));
+  }
+
+  private current(record: SolicitationLifecycleRecord): BidSolicitation {
+    return record.versions[record.versions.length - 1];
+  }
+
+  private getRecord(solicitationId: string): SolicitationLifecycleRecord {
+    const record = this.records.get(solicitationId);
+    if (!record) {
+      throw new Error(`Unknown solicitation: ${solicitationId}`);
+    }
+    return record;
+  }
+}
+
+// Type Definitions
+type SolicitationStatus = 'DRAFT' | 'IN_REVIEW' | 'APPROVED' | 'PUBLISHED' | 'CANCELLED';
+
+interface SolicitationAmendmentChanges {
+  requirements?: SolicitationRequirement[];
+  budget?: number;
+  deadline?: Date;
+}
+
+interface AmendmentIssuance {
+  description: string;
+  changes: SolicitationAmendmentChanges;
+  issuedBy: string;
+  issuedAt?: Date;
+  material?: boolean;  // Defaults to true when any field changes
+}
+
+interface SolicitationAmendment {
+  amendmentNumber: number;
+  version: number;  // Solicitation version the amendment produced
+  description: string;
+  changedFields: (keyof SolicitationAmendmentChanges)[];
+  material: boolean;
+  issuedBy: string;
+  issuedAt: Date;
+}
+
+interface SolicitationStatusChange {
+  status: SolicitationStatus;
+  actor: string;
+  at: Date;
+  note: string;
+}
+
+interface SolicitationLifecycleRecord {
+  solicitationId: string;
+  author: string;
+  versions: BidSolicitation[];
+  history: SolicitationStatusChange[];
+}
+
+interface AmendmentAcknowledgementReport {
+  solicitationId: string;
+  amendments: {
+    amendmentNumber: number;
+    material: boolean;
+    acknowledgedBy: string[];
+    outstanding: string[];
+  }[];
+}
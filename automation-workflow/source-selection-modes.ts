@@ -0,0 +1,224 @@
+// Source Selection: LPTA and Best-Value Tradeoff Award Recommendations
+
+class SourceSelectionEvaluator {
+  // Minimum technical score for an offer to count as technically acceptable
+  private static DEFAULT_TECHNICAL_ACCEPTABILITY_THRESHOLD = 70;
+
+  constructor(private engine: BidEvaluationEngine) {}
+
+  // Score every bid, then rank and recommend according to the solicitation's mode
+  evaluate(solicitation: BidSolicitation, bids: VendorBid[]): BidEvaluationReport {
+    const mode = solicitation.sourceSelectionMode || 'BEST_VALUE_TRADEOFF';
+
+    // A bid whose CLINs cannot be priced is excluded rather than aborting the whole report
+    const unpricedBids: { vendorId: string; reason: string }[] = [];
+    const pricedBids = bids.flatMap(bid => {
+      try {
+        return [{ bid, totalEvaluatedPrice: this.engine.calculateTotalEvaluatedPrice(bid, solicitation).total }];
+      } catch (error) {
+        unpricedBids.push({ vendorId: bid.vendorId, reason: `Price could not be evaluated: ${(error as Error).message}` });
+        return [];
+      }
+    });
+
+    const competingBids = pricedBids.map(({ bid }) => bid);
+    const scoredBids = pricedBids.map(({ bid, totalEvaluatedPrice }) => ({
+      bid,
+      score: this.engine.evaluateBid(bid, solicitation, competingBids),
+      totalEvaluatedPrice
+    }));
+
+    const outcome = mode === 'LPTA'
+      ? this.selectLowestPriceTechnicallyAcceptable(solicitation, scoredBids)
+      : this.selectBestValueTradeoff(solicitation, scoredBids);
+
+    return {
+      solicitationId: solicitation.id,
+      sourceSelectionMode: mode,
+      ...outcome,
+      excludedBids: [...unpricedBids, ...outcome.excludedBids],
+      generatedAt: new Date()
+    };
+  }
+
+  // Award order for the solicitation's mode, shared with the weight sensitivity analysis
+  compareForAward(solicitation: BidSolicitation): (a: ScoredBid, b: ScoredBid) => number {
+    if (solicitation.sourceSelectionMode === 'LPTA') {
+      // Acceptable offers rank ahead of unacceptable ones, then by price
+      const threshold = this.technicalAcceptabilityThreshold(solicitation);
+      const acceptable = (scored: ScoredBid) => (scored.score.technicalScore >= threshold ? 1 : 0);
+      return (a, b) => acceptable(b) - acceptable(a) || a.totalEvaluatedPrice - b.totalEvaluatedPrice;
+    }
+
+    // Best value: weighted score, with the lower price breaking ties
+    return (a, b) => b.score.weightedTotal - a.score.weightedTotal ||
+      a.totalEvaluatedPrice - b.totalEvaluatedPrice;
+  }
+
+  // LPTA: drop technically unacceptable offers, award to the lowest price
+  private selectLowestPriceTechnicallyAcceptable(
+    solicitation: BidSolicitation,
+    scoredBids: ScoredBid[]
+  ): SourceSelectionOutcome {
+    const threshold = this.technicalAcceptabilityThreshold(solicitation);
+
+    const acceptable = scoredBids.filter(({ score }) => score.technicalScore >= threshold);
+    const excludedBids = scoredBids
+      .filter(({ score }) => score.technicalScore < threshold)
+      .map(({ bid, score }) => ({
+        vendorId: bid.vendorId,
+        reason: `Technically unacceptable: technical score ${score.technicalScore.toFixed(1)} below ${threshold}`
+      }));
+
+    const rankedBids = this.rank(acceptable, this.compareForAward(solicitation));
+
+    if (rankedBids.length === 0) {
+      return {
+        rankedBids,
+        excludedBids,
+        tradeoffs: [],
+        awardRecommendation: {
+          vendorId: null,
+          rationale: 'No technically acceptable offers were received; no award is recommended.'
+        }
+      };
+    }
+
+    const awardee = rankedBids[0];
+    return {
+      rankedBids,
+      excludedBids,
+      tradeoffs: [],
+      awardRecommendation: {
+        vendorId: awardee.vendorId,
+        rationale: `Award recommended to ${awardee.vendorId} as the lowest-priced technically ` +
+          `acceptable offer at ${this.formatCurrency(awardee.totalEvaluatedPrice)}. ` +
+          `${rankedBids.length} of ${scoredBids.length} offers were technically acceptable.`
+      }
+    };
+  }
+
+  // Best Value: rank by weighted score and document any price premium paid
+  private selectBestValueTradeoff(solicitation: BidSolicitation, scoredBids: ScoredBid[]): SourceSelectionOutcome {
+    const rankedBids = this.rank(scoredBids, this.compareForAward(solicitation));
+
+    if (rankedBids.length === 0) {
+      return {
+        rankedBids,
+        excludedBids: [],
+        tradeoffs: [],
+        awardRecommendation: {
+          vendorId: null,
+          rationale: 'No offers were received; no award is recommended.'
+        }
+      };
+    }
+
+    const awardee = rankedBids[0];
+
+    // Flag every cheaper offer the recommended awardee is preferred over
+    const tradeoffs = rankedBids
+      .filter(ranked => ranked.totalEvaluatedPrice < awardee.totalEvaluatedPrice)
+      .map(cheaper => {
+        const priceDifference = awardee.totalEvaluatedPrice - cheaper.totalEvaluatedPrice;
+        const scoreDifference = awardee.score.weightedTotal - cheaper.score.weightedTotal;
+
+        return {
+          recommendedVendorId: awardee.vendorId,
+          lowerPricedVendorId: cheaper.vendorId,
+          priceDifference,
+          scoreDifference,
+          pricePremiumPerPoint: scoreDifference > 0 ? priceDifference / scoreDifference : Infinity
+        };
+      });
+
+    const tradeoffSummary = tradeoffs.length === 0
+      ? 'It is also the lowest-priced offer, so no price premium is paid.'
+      : `It is preferred over ${tradeoffs.length} lower-priced offer(s); ` +
+        tradeoffs.map(tradeoff =>
+          `versus ${tradeoff.lowerPricedVendorId} it costs ${this.formatCurrency(tradeoff.priceDifference)} ` +
+          `more for ${tradeoff.scoreDifference.toFixed(1)} additional points`
+        ).join('; ') + '.';
+
+    return {
+      rankedBids,
+      excludedBids: [],
+      tradeoffs,
+      awardRecommendation: {
+        vendorId: awardee.vendorId,
+        rationale: `Award recommended to ${awardee.vendorId} as the best value with a weighted ` +
+          `score of ${awardee.score.weightedTotal.toFixed(1)} at ${this.formatCurrency(awardee.totalEvaluatedPrice)}. ` +
+          tradeoffSummary
+      }
+    };
+  }
+
+  private technicalAcceptabilityThreshold(solicitation: BidSolicitation): number {
+    return solicitation.technicalAcceptabilityThreshold ??
+      SourceSelectionEvaluator.DEFAULT_TECHNICAL_ACCEPTABILITY_THRESHOLD;
+  }
+
+  private rank(
+    scoredBids: ScoredBid[],
+    compare: (a: ScoredBid, b: ScoredBid) => number
+  ): RankedBid[] {
+    return [...scoredBids].sort(compare).map(({ bid, score, totalEvaluatedPrice }, index) => ({
+      rank: index + 1,
+      vendorId: bid.vendorId,
+      totalEvaluatedPrice,
+      score
+    }));
+  }
+
+  private formatCurrency(amount: number): string {
+    return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+  }
+}
+
+// Type Definitions
+type SourceSelectionMode = 'LPTA' | 'BEST_VALUE_TRADEOFF';
+
+interface ScoredBid {
+  bid: VendorBid;
+  score: BidScore;
+  totalEvaluatedPrice: number;
+}
+
+interface RankedBid {
+  rank: number;
+  vendorId: string;
+  totalEvaluatedPrice: number;
+  score: BidScore;
+}
+
+interface ExcludedBid {
+  vendorId: string;
+  reason: string;
+}
+
+// A higher-priced offer recommended over a cheaper one
+interface PriceTradeoff {
+  recommendedVendorId: string;
+  lowerPricedVendorId: string;
+  priceDifference: number;
+  scoreDifference: number;
+  pricePremiumPerPoint: number;
+}
+
+interface AwardRecommendation {
+  vendorId: string | null;  // null when no offer is awardable
+  rationale: string;
+}
+
+interface SourceSelectionOutcome {
+  rankedBids: RankedBid[];
+  excludedBids: ExcludedBid[];
+  tradeoffs: PriceTradeoff[];
+  awardRecommendation: AwardRecommendation;
+}
+
+interface BidEvaluationReport extends SourceSelectionOutcome {
+  solicitationId: string;
+  sourceSelectionMode: SourceSelectionMode;
+  generatedAt: Date;
+}
@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const CIVILIAN_AGENCY = 'General Services Administration';
+
+function loadedEngine() {
+  const engine = new AcquisitionRegulationRuleEngine();
+  engine.importRuleLibrary(readFileSync(join(__dirname, '..', 'acquisition-regulation-rules.json'), 'utf8'));
+  return engine;
+}
+
+function libraryWith(appliesWhen: object) {
+  return JSON.stringify({
+    version: 'test',
+    thresholds: { MICRO_PURCHASE: 10000 },
+    agencyGroups: { DEPARTMENT_OF_DEFENSE: ['Defense Logistics Agency'] },
+    rules: [{ ruleId: 'R-1', clause: 'FAR 52.000-1', title: 'Test clause', appliesWhen }]
+  });
+}
+
+test('dollar thresholds apply to the estimated value of the acquisition, not the offered price', () => {
+  const engine = loadedEngine();
+
+  // A low offer on a large acquisition still carries the above-threshold clauses
+  const large = buildSolicitation({ agencyName: CIVILIAN_AGENCY, budget: 300000 });
+  const clauses = engine.findApplicableRules(buildBid('V1', 9000), large).map(rule => rule.clause);
+  assert.ok(clauses.includes('FAR 52.203-2'));
+  assert.ok(clauses.includes('FAR 52.209-5'));
+
+  // An offer above the micro-purchase threshold does not pull clauses into a micro-purchase
+  const micro = buildSolicitation({ agencyName: CIVILIAN_AGENCY, budget: 5000 });
+  assert.deepEqual(
+    engine.findApplicableRules(buildBid('V1', 20000), micro).map(rule => rule.clause),
+    ['FAR 52.204-7', 'FAR 52.204-24']
+  );
+});
+
+test('conditions are checked against the fact type when the library loads', () => {
+  const engine = new AcquisitionRegulationRuleEngine();
+
+  assert.throws(
+    () => engine.importRuleLibrary(libraryWith({ fact: 'agency', operator: 'gt', value: 5 })),
+    /Rule R-1 cannot apply operator gt to fact agency/
+  );
+  assert.throws(
+    () => engine.importRuleLibrary(libraryWith({ fact: 'agency', operator: 'includes', value: 'X' })),
+    /cannot apply operator includes to fact agency/
+  );
+  assert.throws(
+    () => engine.importRuleLibrary(libraryWith({ fact: 'category', operator: 'equals', threshold: 'MICRO_PURCHASE' })),
+    /compares non-amount fact category to threshold MICRO_PURCHASE/
+  );
+  assert.throws(
+    () => engine.importRuleLibrary(libraryWith({ fact: 'estimatedValue', operator: 'equals', value: '10000' })),
+    /compares estimatedValue with "10000", which is the wrong type/
+  );
+  assert.throws(
+    () => engine.importRuleLibrary(libraryWith({ fact: 'category', operator: 'in', value: ['ITServices', 3] })),
+    /which is the wrong type/
+  );
+  assert.throws(
+    () => engine.importRuleLibrary(libraryWith({ fact: 'bidTotal', operator: 'between', value: 1 })),
+    /uses unknown operator between/
+  );
+  assert.equal(engine.getLibraryVersion(), undefined);
+
+  engine.importRuleLibrary(libraryWith({ fact: 'estimatedValue', operator: 'gt', threshold: 'MICRO_PURCHASE' }));
+  assert.equal(engine.getLibraryVersion(), 'test');
+});
+
+test('negating a condition on an unknown fact does not make a rule apply', () => {
+  const engine = new AcquisitionRegulationRuleEngine();
+  const solicitation = buildSolicitation({ agencyName: CIVILIAN_AGENCY });
+  const bid = buildBid('V1', 90000);
+  const notSmall = { not: { fact: 'vendorCertifications', operator: 'includes', value: 'SMALL_BUSINESS' } };
+
+  // Without a vendor profile the certifications are unknown, so neither the condition nor its negation holds
+  engine.importRuleLibrary(libraryWith(notSmall));
+  assert.deepEqual(engine.findApplicableRules(bid, solicitation), []);
+  assert.equal(engine.findApplicableRules(bid, solicitation, buildVendorProfile('V1')).length, 1);
+
+  engine.importRuleLibrary(libraryWith({ not: { not: notSmall.not } }));
+  assert.deepEqual(engine.findApplicableRules(bid, solicitation), []);
+
+  // A known fact still decides a combination on its own
+  engine.importRuleLibrary(libraryWith({ any: [notSmall, { fact: 'estimatedValue', operator: 'gt', threshold: 'MICRO_PURCHASE' }] }));
+  assert.equal(engine.findApplicableRules(bid, solicitation).length, 1);
+  engine.importRuleLibrary(libraryWith({ all: [notSmall, { fact: 'estimatedValue', operator: 'lt', threshold: 'MICRO_PURCHASE' }] }));
+  assert.deepEqual(engine.findApplicableRules(bid, solicitation), []);
+});
+
+test('the bundled rule library loads and reports missing representations and documents', () => {
+  const engine = loadedEngine();
+  const solicitation = buildSolicitation();
+  const vendor = buildVendorProfile('V1');
+
+  const result = engine.evaluate(buildBid('V1', 90000, { representations: ['FAR 52.204-8'] }), solicitation, vendor);
+
+  assert.equal(result.compliant, false);
+  assert.ok(result.applicableClauses.includes('DFARS 252.204-7012'));
+  assert.deepEqual(result.missingDocuments, ['NIST_SP_800_171_ASSESSMENT']);
+  assert.ok(result.missingRepresentations.includes('DFARS 252.204-7019'));
+  assert.ok(!result.missingRepresentations.includes('FAR 52.204-8'));
+  assert.equal(result.requirementsAssessed, 6);
+});
+
+test('the COMPLIANCE score comes from the rule library once it is wired in', () => {
+  const rules = loadedEngine();
+  const registry = new VendorRegistry();
+  registry.registerVendor(buildVendorProfile('V1'));
+  registry.registerVendor(buildVendorProfile('V2'));
+
+  const engine = new BidEvaluationEngine();
+  engine.useRegulatoryCompliance(rules.forVendorRegistry(registry));
+
+  const solicitation = buildSolicitation({ agencyName: CIVILIAN_AGENCY });
+  const complete = buildBid('V1', 90000, {
+    representations: ['FAR 52.204-8', 'FAR 52.204-24', 'FAR 52.203-2', 'FAR 52.219-1']
+  });
+  const partial = buildBid('V2', 90000, { representations: ['FAR 52.204-8'] });
+
+  const completeScore = engine.evaluateBid(complete, solicitation);
+  const partialScore = engine.evaluateBid(partial, solicitation);
+
+  assert.equal(completeScore.complianceScore, 100);
+  assert.equal(partialScore.complianceScore, 25);
+
+  const finding = partialScore.findings.find(entry => entry.component === 'ACQUISITION_REGULATIONS');
+  assert.ok(finding);
+  assert.equal(finding.classification, 'DEFICIENCY');
+  assert.equal(finding.inputs.ruleLibraryVersion, '2026-10');
+  assert.match(finding.narrative, /3 of 4 required representation\(s\) and document\(s\) were missing/);
+});
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+const OPENED_AT = new Date('2026-03-02T09:00:00Z');
+const hoursLater = (hours: number) => new Date(OPENED_AT.getTime() + hours * 60 * 60 * 1000);
+const role = (name: string): ApproverReference => ({ type: 'ROLE', role: name });
+
+function parallelChain(approvals: ApprovalChainManager, escalationPath: ApproverReference[] = []) {
+  return approvals.openChain('WFI-TEST', 'APPROVE', {
+    mode: 'PARALLEL',
+    approvers: [role('HIRING_MANAGER'), role('HR_CLASSIFICATION_SPECIALIST')],
+    escalationPath,
+    slaHours: 24
+  }, OPENED_AT);
+}
+
+test('a delegate cannot decide a second approval for a principal who has already decided', () => {
+  const approvals = new ApprovalChainManager();
+  approvals.assignRole('MANAGER-1', 'HIRING_MANAGER');
+  approvals.assignRole('MANAGER-1', 'HR_CLASSIFICATION_SPECIALIST');
+  const chain = parallelChain(approvals);
+
+  approvals.decide(chain.chainId, 'MANAGER-1', 'APPROVED', undefined, hoursLater(1));
+  approvals.delegate('MANAGER-1', 'DEPUTY-1', hoursLater(2), hoursLater(48), 'Leave');
+
+  assert.throws(
+    () => approvals.decide(chain.chainId, 'DEPUTY-1', 'APPROVED', undefined, hoursLater(3)),
+    /DEPUTY-1 acts for MANAGER-1, who has already decided an approval in chain APR-000001/
+  );
+  assert.equal(approvals.getChain(chain.chainId).status, 'PENDING');
+});
+
+test('a principal cannot decide after their delegate decided for them', () => {
+  const approvals = new ApprovalChainManager();
+  approvals.assignRole('MANAGER-1', 'HIRING_MANAGER');
+  approvals.assignRole('MANAGER-1', 'HR_CLASSIFICATION_SPECIALIST');
+  approvals.delegate('MANAGER-1', 'DEPUTY-1', OPENED_AT, hoursLater(48), 'Leave');
+  const chain = parallelChain(approvals);
+
+  const task = approvals.decide(chain.chainId, 'DEPUTY-1', 'APPROVED', undefined, hoursLater(1));
+  assert.equal(task.onBehalfOf, 'MANAGER-1');
+
+  assert.throws(
+    () => approvals.decide(chain.chainId, 'MANAGER-1', 'APPROVED', undefined, hoursLater(2)),
+    /MANAGER-1 has already decided an approval in chain/
+  );
+});
+
+test('overdue approvals of one chain are never escalated to the same approver', () => {
+  const approvals = new ApprovalChainManager();
+  const chain = parallelChain(approvals, [role('HUMAN_RESOURCES_DIRECTOR'), role('DEPUTY_DIRECTOR')]);
+
+  const breaches = approvals.escalateOverdue(chain.chainId, hoursLater(25));
+
+  assert.deepEqual(breaches.map(breach => [breach.taskId, breach.escalatedTo]), [
+    ['APR-000001-1', role('HUMAN_RESOURCES_DIRECTOR')],
+    ['APR-000001-2', role('DEPUTY_DIRECTOR')]
+  ]);
+  assert.deepEqual(approvals.getChain(chain.chainId).tasks.map(task => task.escalationLevel), [1, 2]);
+});
+
+test('an escalation with no uninvolved approver left is recorded as a breach without reassignment', () => {
+  const approvals = new ApprovalChainManager();
+  const chain = parallelChain(approvals, [role('HUMAN_RESOURCES_DIRECTOR')]);
+
+  const breaches = approvals.escalateOverdue(chain.chainId, hoursLater(25));
+
+  assert.deepEqual(breaches.map(breach => breach.escalatedTo), [role('HUMAN_RESOURCES_DIRECTOR'), undefined]);
+  assert.deepEqual(approvals.getChain(chain.chainId).tasks[1].approver, role('HR_CLASSIFICATION_SPECIALIST'));
+  assert.deepEqual(approvals.escalateOverdue(chain.chainId, hoursLater(26)), []);
+});
+
+test('an escalation skips a person who has already decided in the chain', () => {
+  const approvals = new ApprovalChainManager();
+  approvals.assignRole('MANAGER-1', 'HIRING_MANAGER');
+  const chain = parallelChain(approvals, [{ type: 'PERSON', userId: 'MANAGER-1' }, role('HUMAN_RESOURCES_DIRECTOR')]);
+  approvals.decide(chain.chainId, 'MANAGER-1', 'APPROVED', undefined, hoursLater(1));
+
+  const [breach] = approvals.escalateOverdue(chain.chainId, hoursLater(25));
+
+  assert.deepEqual(breach.escalatedTo, role('HUMAN_RESOURCES_DIRECTOR'));
+});
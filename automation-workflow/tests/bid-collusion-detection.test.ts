@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+const patterns = (flags: CollusionFlag[]) => flags.map(flag => flag.pattern);
+
+test('identical pricing, shared document authors and copied phrasing are flagged per vendor pair', () => {
+  const text = 'We will migrate every workload to a FedRAMP Moderate cloud within ninety days of award';
+  const first = buildBid('V1', 80000, {
+    proposedSolution: text,
+    documentMetadata: [{ fileName: 'a.docx', author: 'J. Smith ' }]
+  });
+  const second = buildBid('V2', 80000, {
+    proposedSolution: text,
+    documentMetadata: [{ fileName: 'b.docx', author: 'j. smith' }]
+  });
+
+  const flags = new BidCollusionDetector().analyze(buildSolicitation(), [first, second], []);
+
+  assert.deepEqual(patterns(flags), ['IDENTICAL_PRICING', 'SHARED_DOCUMENT_METADATA', 'SIMILAR_PHRASING']);
+  assert.equal(flags[0].severity, 'HIGH');
+});
+
+test('independently priced and written bids raise no flags', () => {
+  const flags = new BidCollusionDetector().analyze(buildSolicitation(), [
+    buildBid('V1', 80000, { proposedSolution: 'Hosted on our own accredited platform with local staff' }),
+    buildBid('V2', 91000, { proposedSolution: 'A managed service delivered from two regional data centers' })
+  ], []);
+
+  assert.deepEqual(flags, []);
+});
+
+test('awards rotating among the same bidders are flagged', () => {
+  const history: AwardHistoryRecord[] = ['V1', 'V2', 'V3', 'V1'].map((winner, index) => ({
+    solicitationId: `SOL-H${index}`,
+    awardedAt: new Date(2025, index, 1),
+    awardedVendorId: winner,
+    bids: ['V1', 'V2', 'V3'].map((vendorId, offset) => ({ vendorId, totalEvaluatedPrice: 100000 + offset * 7000 }))
+  }));
+
+  const flags = new BidCollusionDetector().analyze(buildSolicitation(), [
+    buildBid('V1', 80000, { proposedSolution: 'one' }),
+    buildBid('V2', 86000, { proposedSolution: 'two' }),
+    buildBid('V3', 93000, { proposedSolution: 'three' })
+  ], history);
+
+  const rotation = flags.find(flag => flag.pattern === 'ROTATING_WINNERS');
+  assert.ok(rotation);
+  assert.deepEqual(rotation.vendorIds, ['V1', 'V2', 'V3']);
+  assert.equal(rotation.severity, 'HIGH');
+});
+
+test('a vendor repeatedly losing by a thin margin to one winner is flagged as cover bidding', () => {
+  const history: AwardHistoryRecord[] = [0, 1, 2].map(index => ({
+    solicitationId: `SOL-H${index}`,
+    awardedAt: new Date(2025, index, 1),
+    awardedVendorId: 'V1',
+    bids: [{ vendorId: 'V1', totalEvaluatedPrice: 100000 }, { vendorId: 'V2', totalEvaluatedPrice: 102000 }]
+  }));
+  const queue = new ContractingOfficerReviewQueue();
+
+  const flags = new BidCollusionDetector().analyzeAndQueue(buildSolicitation(), [
+    buildBid('V1', 80000, { proposedSolution: 'one' }),
+    buildBid('V2', 90000, { proposedSolution: 'two' })
+  ], history, queue);
+
+  assert.deepEqual(patterns(flags), ['COVER_BIDDING']);
+  assert.deepEqual(queue.getPending('SOL-001').map(item => item.source), ['COLLUSION_DETECTION']);
+});
+
+test('pricing checks compare total evaluated prices, not vendor-stated totals', () => {
+  const costPlus = (vendorId: string, statedTotal: number) => buildBid(vendorId, 0, {
+    proposedSolution: vendorId,
+    pricing: {
+      totalCost: statedTotal,
+      lineItems: [
+        buildLineItem({ clin: '0001', contractType: 'COST_PLUS_FIXED_FEE', estimatedCost: 50000, feeRate: 0.08 }),
+        buildLineItem({ clin: '0002', contractType: 'COST_PLUS_FIXED_FEE', estimatedCost: 20000, feeRate: 0.08 })
+      ]
+    }
+  });
+
+  // Different stated totals, identical evaluated cost-plus CLINs
+  const flags = new BidCollusionDetector().analyze(buildSolicitation(), [costPlus('V1', 1), costPlus('V2', 99999)], []);
+
+  assert.deepEqual(flags.map(flag => flag.evidence), [
+    'Total evaluated prices differ by 0 (0.00%)',
+    '2 of 2 shared CLINs carry identical evaluated amounts'
+  ]);
+});
+
+test('a bid with unpriceable CLINs is left out of price comparisons', () => {
+  const broken = buildBid('V2', 80000, {
+    proposedSolution: 'two',
+    pricing: { totalCost: 80000, lineItems: [buildLineItem({ contractType: 'COST_PLUS_FIXED_FEE' })] }
+  });
+
+  const flags = new BidCollusionDetector().analyze(buildSolicitation(), [
+    buildBid('V1', 80000, { proposedSolution: 'one' }),
+    broken
+  ], []);
+
+  assert.deepEqual(flags, []);
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function evaluatedWorkflow(bid: VendorBid): BidWorkflow {
+  return new BidWorkflow(bid, buildSolicitation(), new BidEvaluationEngine())
+    .validate('CO-1')
+    .screen('CO-1')
+    .evaluate('CO-1');
+}
+
+test('each vendor may submit one BAFO and every version is kept immutable', () => {
+  const negotiation = new BidNegotiationManager(buildSolicitation());
+  negotiation.recordInitialBid(buildBid('V1', 90000), 'V1-REP');
+
+  const round = negotiation.requestBestAndFinalOffers(['V1'], 'CO-1');
+  negotiation.submitRevision(round.roundId, buildBid('V1', 85000), 'V1-REP');
+
+  assert.throws(
+    () => negotiation.submitRevision(round.roundId, buildBid('V1', 80000), 'V1-REP'),
+    /already submitted a Best-and-Final Offer/
+  );
+  const history = negotiation.getVersionHistory('V1');
+  assert.deepEqual(history.map(version => version.bid.pricing.totalCost), [90000, 85000]);
+  assert.ok(Object.isFrozen(history[0].bid.pricing));
+});
+
+test('rounds must be closed before another opens and only include bidding vendors', () => {
+  const negotiation = new BidNegotiationManager(buildSolicitation());
+  negotiation.recordInitialBid(buildBid('V1', 90000), 'V1-REP');
+
+  assert.throws(() => negotiation.openDiscussionRound(['V9'], 'CO-1'), /Vendor V9 has no bid/);
+  const round = negotiation.openDiscussionRound(['V1'], 'CO-1');
+  assert.throws(() => negotiation.openDiscussionRound(['V1'], 'CO-1'), /Close the current discussion round/);
+
+  negotiation.closeRound(round.roundId, 'CO-1');
+  assert.throws(() => negotiation.submitRevision(round.roundId, buildBid('V1', 85000), 'V1-REP'), /is closed/);
+});
+
+test('a revised offer is re-screened, so a BAFO above the budget ceiling is rejected', () => {
+  const result = evaluatedWorkflow(buildBid('V1', 90000))
+    .negotiate('CO-1', buildBid('V1', 130000))
+    .getResult();
+
+  assert.equal(result.finalState, 'REJECTED');
+  assert.match(result.rejectionReason!, /^Revised offer: Total evaluated price 130000 exceeds the screening ceiling/);
+  assert.equal(result.score?.priceScore, new BidEvaluationEngine()
+    .evaluateBid(buildBid('V1', 90000), buildSolicitation()).priceScore);
+});
+
+test('a screened revised offer replaces the bid and is re-scored', () => {
+  const workflow = evaluatedWorkflow(buildBid('V1', 110000)).negotiate('CO-1', buildBid('V1', 70000));
+
+  assert.equal(workflow.getCurrentState(), 'NEGOTIATION');
+  assert.equal(workflow.getBid().pricing.totalCost, 70000);
+  assert.equal(workflow.getResult().score?.priceScore, 100);
+});
+
+test('negotiation and evaluation check the transition before scoring', () => {
+  let scored = 0;
+  const engine = new BidEvaluationEngine();
+  const evaluateBid = engine.evaluateBid.bind(engine);
+  engine.evaluateBid = (...args: Parameters<BidEvaluationEngine['evaluateBid']>) => {
+    scored++;
+    return evaluateBid(...args);
+  };
+  const workflow = new BidWorkflow(buildBid('V1', 90000), buildSolicitation(), engine);
+
+  assert.throws(() => workflow.negotiate('CO-1', buildBid('V1', 80000)), /INITIAL -> NEGOTIATION/);
+  assert.throws(() => workflow.evaluate('CO-1'), /INITIAL -> EVALUATION/);
+  assert.equal(scored, 0);
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function finalizedWorkflow(): BidWorkflow {
+  return new BidWorkflow(buildBid('V1', 80000), buildSolicitation(), new BidEvaluationEngine())
+    .validate('CO-1').screen('CO-1').evaluate('CO-1').finalize('CO-1');
+}
+
+function finalizedRecord(awardedAt: Date): FinalizedSolicitationRecord {
+  const engine = new BidEvaluationEngine();
+  const { report, bidResults } = engine.processSolicitationWorkflows(
+    buildSolicitation(), [buildBid('V1', 70000), buildBid('V2', 90000)], 'CO-1'
+  );
+  return {
+    solicitationId: 'SOL-001',
+    awardedVendorId: report.awardRecommendation.vendorId!,
+    awardedAt,
+    evaluationReport: report,
+    workflowResults: { V1: bidResults[0], V2: bidResults[1] }
+  };
+}
+
+test('a denied protest returns the bid to the state it was protested from', () => {
+  const workflow = finalizedWorkflow().protest('V2', 'Price evaluation was unreasonable');
+  assert.equal(workflow.getCurrentState(), 'PROTESTED');
+
+  workflow.resolveProtest('LEGAL-1', 'DENIED', 'Evaluation followed the stated criteria');
+  assert.equal(workflow.getCurrentState(), 'FINALIZATION');
+});
+
+test('an invalid protest leaves the workflow untouched', () => {
+  const workflow = new BidWorkflow(buildBid('V1', 80000), buildSolicitation(), new BidEvaluationEngine())
+    .validate('CO-1').screen('CO-1');
+
+  assert.throws(() => workflow.protest('V1', 'too early'), /SCREENING -> PROTESTED/);
+  assert.equal(workflow.getCurrentState(), 'SCREENING');
+  assert.equal(workflow.getResult().transitionHistory.length, 2);
+});
+
+test('a protest can only be resolved while one is pending', () => {
+  const workflow = finalizedWorkflow();
+  const historyLength = workflow.getResult().transitionHistory.length;
+
+  assert.throws(() => workflow.resolveProtest('LEGAL-1', 'DENIED', 'n/a'), /no pending protest/);
+  assert.throws(() => workflow.resolveProtest('LEGAL-1', 'CORRECTIVE_ACTION', 'n/a'), /no pending protest/);
+  assert.equal(workflow.getResult().transitionHistory.length, historyLength);
+});
+
+test('corrective action reopens evaluation of a finalized bid', () => {
+  const workflow = finalizedWorkflow()
+    .recordAwardDecision({ vendorId: 'V2', rationale: 'Best value' })
+    .protest('V1', 'Technical evaluation ignored Section 3')
+    .resolveProtest('LEGAL-1', 'CORRECTIVE_ACTION', 'Re-evaluate the technical proposals');
+
+  const result = workflow.getResult();
+  assert.equal(result.finalState, 'EVALUATION');
+  assert.equal(result.bidOutcome, 'PENDING');
+  assert.ok(result.score);
+});
+
+test('corrective action re-screens the bid and rejects one that never passed screening', () => {
+  [
+    { bid: buildBid('V1', 130000), reason: /^Corrective action: Total evaluated price 130000 exceeds the screening ceiling/ },
+    { bid: buildBid('V1', 80000, { requirementMappings: [] }), reason: /^Corrective action: Mandatory requirements not addressed: REQ-1$/ }
+  ].forEach(({ bid, reason }) => {
+    const workflow = new BidWorkflow(bid, buildSolicitation(), new BidEvaluationEngine())
+      .validate('CO-1').screen('CO-1')
+      .protest('V1', 'Screening was too strict')
+      .resolveProtest('LEGAL-1', 'CORRECTIVE_ACTION', 'Reconsider the offer');
+
+    const result = workflow.getResult();
+    assert.equal(result.finalState, 'REJECTED');
+    assert.match(result.rejectionReason!, reason);
+    assert.equal(result.score, undefined);
+  });
+});
+
+test('corrective action for a bid with unpriceable CLINs resolves the protest by rejecting it', () => {
+  const bid = buildBid('V1', 80000, {
+    pricing: { totalCost: 80000, lineItems: [buildLineItem({ contractType: 'COST_PLUS_FIXED_FEE' })] }
+  });
+  const workflow = new BidWorkflow(bid, buildSolicitation(), new BidEvaluationEngine())
+    .validate('CO-1')
+    .protest('V1', 'Cost estimate was provided separately');
+
+  assert.doesNotThrow(() => workflow.resolveProtest('LEGAL-1', 'CORRECTIVE_ACTION', 'Reconsider the offer'));
+  assert.equal(workflow.getCurrentState(), 'REJECTED');
+  assert.equal(workflow.getResult().rejectionReason, 'Corrective action: Cost-plus CLIN 0001 requires an estimated cost');
+  assert.throws(() => workflow.resolveProtest('LEGAL-1', 'DENIED', 'n/a'), /no pending protest/);
+});
+
+test('protests are timed against the award, stay performance and need an assigned reviewer', () => {
+  const manager = new BidProtestManager();
+  const reopened: string[] = [];
+  manager.onCorrectiveAction(record => reopened.push(record.solicitationId));
+  manager.registerFinalizedSolicitation(finalizedRecord(new Date('2026-04-01T00:00:00Z')));
+
+  assert.throws(() => manager.fileProtest({
+    solicitationId: 'SOL-001', protesterVendorId: 'V2', forum: 'GAO', grounds: 'late',
+    filedBy: 'V2-COUNSEL', filedAt: new Date('2026-04-20T00:00:00Z')
+  }), /Protest is untimely/);
+
+  const protest = manager.fileProtest({
+    solicitationId: 'SOL-001', protesterVendorId: 'V2', forum: 'GAO', grounds: 'Unequal discussions',
+    filedBy: 'V2-COUNSEL', filedAt: new Date('2026-04-05T00:00:00Z')
+  });
+  assert.equal(protest.linkedRecords.awardedVendorId, 'V1');
+  assert.equal(protest.linkedRecords.protesterWorkflow?.bidOutcome, 'NOT_SELECTED');
+  assert.equal(manager.isPerformanceStayed('SOL-001'), true);
+
+  assert.throws(() => manager.resolveProtest(protest.protestId, 'CORRECTIVE_ACTION', 'LEGAL-1', 'x'), /not an assigned legal reviewer/);
+  manager.assignReviewer(protest.protestId, 'LEGAL-1', 'CHIEF-COUNSEL');
+  manager.resolveProtest(protest.protestId, 'CORRECTIVE_ACTION', 'LEGAL-1', 'Reopen discussions');
+
+  assert.equal(manager.isPerformanceStayed('SOL-001'), false);
+  assert.deepEqual(reopened, ['SOL-001']);
+});
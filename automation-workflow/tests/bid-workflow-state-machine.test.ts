@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+test('a finalized bid stays pending until the award decision is recorded', () => {
+  const engine = new BidEvaluationEngine();
+  const result = engine.processBidWorkflow(buildBid('V1', 80000), buildSolicitation(), 'CO-1');
+
+  assert.equal(result.finalState, 'FINALIZATION');
+  assert.equal(result.bidOutcome, 'PENDING');
+  assert.deepEqual(result.transitionHistory.map(transition => transition.toState),
+    ['VALIDATION', 'SCREENING', 'EVALUATION', 'NEGOTIATION', 'FINALIZATION']);
+});
+
+test('only the source selection awardee is accepted; other finalized bids are not selected', () => {
+  const engine = new BidEvaluationEngine();
+  const solicitation = buildSolicitation({ sourceSelectionMode: 'LPTA' });
+  const { report, bidResults } = engine.processSolicitationWorkflows(
+    solicitation,
+    [buildBid('V1', 90000), buildBid('V2', 70000)],
+    'CO-1'
+  );
+
+  assert.equal(report.awardRecommendation.vendorId, 'V2');
+  assert.deepEqual(bidResults.map(result => result.bidOutcome), ['NOT_SELECTED', 'ACCEPTED']);
+});
+
+test('award decisions can only be recorded on finalized bids', () => {
+  const workflow = new BidWorkflow(buildBid('V1', 80000), buildSolicitation(), new BidEvaluationEngine());
+
+  assert.throws(
+    () => workflow.recordAwardDecision({ vendorId: 'V1', rationale: 'premature' }),
+    /only be recorded for a finalized bid, not INITIAL/
+  );
+});
+
+test('guard failures reject the bid and skip the remaining steps', () => {
+  const engine = new BidEvaluationEngine();
+  const result = engine.processBidWorkflow(
+    buildBid('V1', 80000, { complianceDocuments: [] }),
+    buildSolicitation(),
+    'CO-1'
+  );
+
+  assert.equal(result.bidOutcome, 'REJECTED');
+  assert.equal(result.rejectionReason, 'Bid includes no compliance documents');
+  assert.equal(result.transitionHistory.length, 1);
+});
+
+test('transitions outside the declared graph are refused', () => {
+  const workflow = new BidWorkflow(buildBid('V1', 80000), buildSolicitation(), new BidEvaluationEngine());
+
+  assert.throws(() => workflow.finalize('CO-1'), /Invalid bid workflow transition: INITIAL -> FINALIZATION/);
+});
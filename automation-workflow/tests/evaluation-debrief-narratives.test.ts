@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function debriefFor(bid: VendorBid): VendorDebrief {
+  return {
+    vendorId: bid.vendorId,
+    solicitationId: 'SOL-001',
+    score: new BidEvaluationEngine().evaluateBid(bid, buildSolicitation())
+  };
+}
+
+test('every scored criterion is explained by at least one finding with its rule and inputs', () => {
+  const score = debriefFor(buildBid('V1', 80000)).score;
+
+  score.criterionBreakdown.forEach(({ criterion }) => {
+    assert.ok(score.findings.some(finding => finding.criterion === criterion), `no finding for ${criterion}`);
+  });
+  const price = score.findings.find(finding => finding.criterion === 'PRICE');
+  assert.ok(price);
+  assert.equal(price.rule, 'LINEAR_INTERPOLATION');
+  assert.equal(price.inputs.totalEvaluatedPrice, 80000);
+});
+
+test('an unaddressed mandatory requirement is reported as a deficiency', () => {
+  const score = debriefFor(buildBid('V1', 80000, { requirementMappings: [] })).score;
+  const deficiency = score.findings.find(finding => finding.classification === 'DEFICIENCY');
+  assert.ok(deficiency);
+
+  assert.equal(deficiency.rule, 'REQUIREMENT_NOT_ADDRESSED');
+  assert.equal(deficiency.inputs.requirementId, 'REQ-1');
+});
+
+test('markdown and HTML debriefs group findings by criterion and escape vendor content', () => {
+  const renderer = new DebriefDocumentRenderer();
+  const debrief = { ...debriefFor(buildBid('V1', 80000)), vendorId: '<Acme & Sons>' };
+
+  const markdown = renderer.renderMarkdown(debrief);
+  assert.match(markdown, /^# Debriefing: <Acme & Sons>/);
+  assert.match(markdown, /\| PRICE \| 83\.3 \| 0\.4 \| 33\.3 \|/);
+  assert.match(markdown, /## TECHNICAL_MERIT\n\n### Strengths/);
+
+  const html = renderer.renderHtml(debrief);
+  assert.match(html, /<h1>Debriefing: &lt;Acme &amp; Sons&gt;<\/h1>/);
+  assert.doesNotMatch(html, /<Acme/);
+});
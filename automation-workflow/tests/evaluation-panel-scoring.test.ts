@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+// A panelist's score with the technical merit raw score replaced
+function panelScore(technicalScore: number): BidScore {
+  const score = new BidEvaluationEngine().evaluateBid(buildBid('V1', 80000), buildSolicitation());
+  return {
+    ...score,
+    technicalScore,
+    criterionBreakdown: score.criterionBreakdown.map(entry => entry.criterion === 'TECHNICAL_MERIT'
+      ? { ...entry, rawScore: technicalScore, weightedScore: technicalScore * entry.weight }
+      : entry)
+  };
+}
+
+test('panels seat three to five distinct evaluators', () => {
+  assert.throws(() => new EvaluationPanel('SOL-001', ['E1', 'E2', 'E2']), /requires 3-5 distinct panelists, received 2/);
+  assert.doesNotThrow(() => new EvaluationPanel('SOL-001', ['E1', 'E2', 'E3']));
+});
+
+test('scores stay blind until every panelist has submitted', () => {
+  const panel = new EvaluationPanel('SOL-001', ['E1', 'E2', 'E3']);
+  panel.submitScore('E1', 'V1', panelScore(80));
+  panel.submitScore('E2', 'V1', panelScore(82));
+
+  assert.deepEqual(panel.getVisibleScores('E1', 'V1').map(entry => entry.evaluatorId), ['E1']);
+  assert.throws(() => panel.computeConsensus('V1'), /not complete/);
+  assert.throws(() => panel.submitScore('E1', 'V1', panelScore(90)), /already scored vendor V1/);
+
+  panel.submitScore('E3', 'V1', panelScore(84));
+  assert.equal(panel.getVisibleScores('E1', 'V1').length, 3);
+  assert.equal(panel.computeConsensus('V1').consensusScore.technicalScore, 82);
+});
+
+test('wide disagreement is flagged until resolved with a rationale', () => {
+  const panel = new EvaluationPanel('SOL-001', ['E1', 'E2', 'E3']);
+  panel.submitScore('E1', 'V1', panelScore(40));
+  panel.submitScore('E2', 'V1', panelScore(90));
+  panel.submitScore('E3', 'V1', panelScore(95));
+
+  assert.deepEqual(panel.computeConsensus('V1').unresolvedDisagreements, ['TECHNICAL_MERIT']);
+  assert.throws(() => panel.resolveDisagreement('V1', 'TECHNICAL_MERIT', 85, ' ', 'CHAIR'), /written rationale/);
+  assert.throws(() => panel.resolveDisagreement('V1', 'PRICE', 85, 'n/a', 'CHAIR'), /not flagged/);
+
+  panel.resolveDisagreement('V1', 'TECHNICAL_MERIT', 85, 'E1 misread the staffing plan', 'CHAIR');
+  const consensus = panel.computeConsensus('V1');
+  assert.deepEqual(consensus.unresolvedDisagreements, []);
+  assert.equal(consensus.consensusScore.technicalScore, 85);
+});
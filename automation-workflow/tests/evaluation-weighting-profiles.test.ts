@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+test('default profile weights the four core criteria and sums to the composite', () => {
+  const engine = new BidEvaluationEngine();
+  const score = engine.evaluateBid(buildBid('V1', 80000), buildSolicitation());
+
+  assert.equal(score.profileName, 'DEFAULT');
+  assert.deepEqual(score.criterionBreakdown.map(entry => entry.criterion),
+    ['PRICE', 'TECHNICAL_MERIT', 'VENDOR_RELIABILITY', 'COMPLIANCE']);
+
+  const expected = score.priceScore * 0.4 + score.technicalScore * 0.3 +
+    score.vendorReliabilityScore * 0.2 + score.complianceScore * 0.1;
+  assert.ok(Math.abs(score.weightedTotal - expected) < 1e-9);
+});
+
+test('a solicitation profile can weight registered additional criteria', () => {
+  const engine = new BidEvaluationEngine();
+  const solicitation = buildSolicitation({
+    evaluationProfile: {
+      profileName: 'SMALL_BUSINESS_EMPHASIS',
+      weights: { PRICE: 0.5, TECHNICAL_MERIT: 0.3, SMALL_BUSINESS_PARTICIPATION: 0.2 }
+    }
+  });
+
+  const score = engine.evaluateBid(buildBid('V1', 80000, { smallBusinessParticipation: 0.15 }), solicitation);
+  const participation = score.criterionBreakdown.find(entry => entry.criterion === 'SMALL_BUSINESS_PARTICIPATION');
+  assert.ok(participation);
+
+  assert.equal(participation.rawScore, 50);
+  assert.equal(participation.weightedScore, 10);
+});
+
+test('profiles that do not sum to one or name unknown criteria are rejected', () => {
+  const engine = new BidEvaluationEngine();
+
+  assert.throws(
+    () => engine.validateWeightingProfile({ profileName: 'SHORT', weights: { PRICE: 0.5, TECHNICAL_MERIT: 0.3 } }),
+    /weights sum to 0.8/
+  );
+  assert.throws(
+    () => engine.validateWeightingProfile({ profileName: 'ODD', weights: { PRICE: 0.5, STYLE: 0.5 } }),
+    /unknown criterion: STYLE/
+  );
+});
+
+test('past performance is scored once, through vendor reliability', () => {
+  const engine = new BidEvaluationEngine();
+
+  assert.throws(
+    () => engine.validateWeightingProfile({
+      profileName: 'DOUBLE_COUNT',
+      weights: { PRICE: 0.4, TECHNICAL_MERIT: 0.2, VENDOR_RELIABILITY: 0.2, PAST_PERFORMANCE: 0.2 }
+    }),
+    /unknown criterion: PAST_PERFORMANCE/
+  );
+});
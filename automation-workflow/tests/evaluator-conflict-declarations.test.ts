@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function declare(registry: ConflictOfInterestRegistry, evaluatorId: string, conflicts: DeclaredConflict[] = []) {
+  return registry.signDeclaration({
+    evaluatorId,
+    solicitationId: 'SOL-001',
+    namedVendorIds: ['V1', 'V2'],
+    conflicts,
+    nonDisclosureAccepted: true,
+    signedAt: new Date('2026-03-03T10:00:00Z')
+  });
+}
+
+const EMPLOYMENT: DeclaredConflict = { vendorId: 'V2', nature: 'EMPLOYMENT', description: 'Spouse employed by V2' };
+
+test('every scoring path on a gated engine requires a cleared evaluator', () => {
+  const registry = new ConflictOfInterestRegistry();
+  declare(registry, 'E1');
+  declare(registry, 'E2', [EMPLOYMENT]);
+  const engine = new BidEvaluationEngine(new PastPerformanceRepository(), registry);
+  const bids = [buildBid('V1', 70000), buildBid('V2', 90000)];
+
+  assert.throws(() => engine.evaluateBid(bids[0], buildSolicitation(), bids), /requires a named evaluator/);
+  assert.throws(() => engine.evaluateBids(buildSolicitation(), bids), /requires a named evaluator/);
+  assert.throws(() => engine.processBidWorkflow(bids[0], buildSolicitation(), 'CO-1', bids), /requires a named evaluator/);
+  assert.throws(() => engine.forEvaluator('E2').evaluateBids(buildSolicitation(), bids), /declared conflicts with V2/);
+  assert.throws(
+    () => engine.forEvaluator('E1').evaluateBids(buildSolicitation(), [...bids, buildBid('V3', 80000)]),
+    /does not name bidding vendors: V3/
+  );
+
+  assert.equal(engine.forEvaluator('E1').evaluateBids(buildSolicitation(), bids).awardRecommendation.vendorId, 'V1');
+  assert.ok(engine.evaluateBidForEvaluator('E1', bids[0], buildSolicitation(), bids));
+});
+
+test('panel access is checked against every bidding vendor, not only the one scored', () => {
+  const registry = new ConflictOfInterestRegistry();
+  ['E1', 'E2', 'E3', 'E4'].forEach(evaluatorId => declare(registry, evaluatorId));
+  const panel = new EvaluationPanel('SOL-001', ['E1', 'E2', 'E3', 'E4'], undefined, registry);
+  const score = new BidEvaluationEngine().evaluateBid(buildBid('V1', 70000), buildSolicitation());
+
+  assert.throws(() => panel.submitScore('E1', 'V1', score), /must be registered before gated scoring/);
+
+  panel.setBiddingVendors(['V1', 'V2', 'V3']);
+  assert.throws(() => panel.submitScore('E1', 'V1', score), /does not name bidding vendors: V3/);
+});
+
+test('a declared conflict removes the evaluator, or blocks a panel already at its minimum until re-staffed', () => {
+  const registry = new ConflictOfInterestRegistry();
+  const panel = new EvaluationPanel('SOL-001', ['E1', 'E2', 'E3', 'E4']);
+  registry.registerPanel(panel);
+  const score = new BidEvaluationEngine().evaluateBid(buildBid('V1', 70000), buildSolicitation());
+
+  assert.equal(declare(registry, 'E4', [EMPLOYMENT]).removedFromPanel, true);
+  assert.deepEqual(panel.getPanelists(), ['E1', 'E2', 'E3']);
+  assert.equal(panel.isBlocked(), false);
+
+  const blocking = declare(registry, 'E3', [EMPLOYMENT]);
+  assert.deepEqual([blocking.removedFromPanel, blocking.panelBlocked], [false, true]);
+  assert.throws(() => panel.removePanelist('E3', 'conflict'), /fewer than 3 panelists; replace the panelist/);
+  assert.equal(registry.canAccessBids('E3', 'SOL-001', ['V1', 'V2']), false);
+  assert.throws(
+    () => panel.submitScore('E1', 'V1', score),
+    /Panel for SOL-001 is blocked until E3 is replaced: Declared conflict of interest with V2/
+  );
+  assert.throws(() => panel.getVisibleScores('E1', 'V1'), /is blocked until E3 is replaced/);
+
+  panel.replacePanelist('E3', 'E5', 'Declared conflict with V2');
+  assert.deepEqual(panel.getPanelists(), ['E1', 'E2', 'E5']);
+  assert.equal(panel.isBlocked(), false);
+  panel.submitScore('E1', 'V1', score);
+  assert.throws(() => panel.replacePanelist('E1', 'E4', 'rejoin'), /E4 cannot replace E1/);
+});
+
+test('a conflicted evaluator regains access only after a contracting officer resolves the conflict', () => {
+  const registry = new ConflictOfInterestRegistry();
+  declare(registry, 'E2', [EMPLOYMENT]);
+
+  assert.throws(
+    () => registry.recordConflictResolution('SOL-001', 'E2', 'CO-1', 'Spouse left V2'),
+    /must sign a conflict-free declaration before the conflict can be resolved/
+  );
+
+  declare(registry, 'E2');
+  assert.throws(
+    () => registry.assertBidAccess('E2', 'SOL-001', ['V1', 'V2']),
+    /declared conflicts with V2 in declaration version 1 that a contracting officer has not resolved/
+  );
+  assert.throws(() => registry.recordConflictResolution('SOL-001', 'E2', 'E2', 'Resolved'), /cannot resolve their own/);
+  assert.throws(() => registry.recordConflictResolution('SOL-001', 'E2', 'CO-1', ' '), /requires a written rationale/);
+  assert.throws(() => registry.recordConflictResolution('SOL-001', 'E1', 'CO-1', 'n/a'), /no declared conflict to resolve/);
+
+  const resolution = registry.recordConflictResolution('SOL-001', 'E2', 'CO-1', 'Spouse left V2 before the solicitation');
+  assert.equal(resolution.declarationVersion, 2);
+  assert.equal(registry.canAccessBids('E2', 'SOL-001', ['V1', 'V2']), true);
+  assert.deepEqual(registry.generateSolicitationReport('SOL-001').evaluators[0].conflictResolutions, [resolution]);
+
+  // A later conflict needs its own resolution
+  declare(registry, 'E2', [EMPLOYMENT]);
+  declare(registry, 'E2');
+  assert.equal(registry.canAccessBids('E2', 'SOL-001', ['V1', 'V2']), false);
+});
+
+test('declarations require the NDA and conflicts must name declared vendors', () => {
+  const registry = new ConflictOfInterestRegistry();
+
+  assert.throws(() => registry.signDeclaration({
+    evaluatorId: 'E1', solicitationId: 'SOL-001', namedVendorIds: ['V1'], conflicts: [],
+    nonDisclosureAccepted: false, signedAt: new Date()
+  }), /must accept the non-disclosure agreement/);
+  assert.throws(() => registry.signDeclaration({
+    evaluatorId: 'E1', solicitationId: 'SOL-001', namedVendorIds: ['V1'], conflicts: [EMPLOYMENT],
+    nonDisclosureAccepted: true, signedAt: new Date()
+  }), /vendor V2 not named/);
+});
@@ -0,0 +1,83 @@
+// Shared Test Fixtures: a small IT services solicitation and well-formed bids against it
+
+const FIXTURE_DEADLINE = new Date('2026-03-02T17:00:00Z');
+
+function buildSolicitation(overrides: Partial<BidSolicitation> = {}): BidSolicitation {
+  return {
+    id: 'SOL-001',
+    agencyName: 'Defense Logistics Agency',
+    category: ProcurementCategory.ITServices,
+    budget: 100000,
+    requirements: [
+      { requirementId: 'REQ-1', description: 'FedRAMP Moderate hosting', priority: 'MANDATORY', verificationMethod: 'INSPECTION' },
+      { requirementId: 'REQ-2', description: 'Around-the-clock help desk', priority: 'DESIRABLE', verificationMethod: 'DEMONSTRATION' }
+    ],
+    deadline: FIXTURE_DEADLINE,
+    ...overrides
+  };
+}
+
+// A responsive bid whose single base-period CLIN prices at the given amount
+function buildBid(vendorId: string, price: number, overrides: Partial<VendorBid> = {}): VendorBid {
+  return {
+    vendorId,
+    solicitation: 'SOL-001',
+    proposedSolution: 'Section 2: FedRAMP Moderate hosting. Section 3: around-the-clock help desk.',
+    pricing: {
+      totalCost: price,
+      lineItems: [{ clin: '0001', description: 'Base period services', period: 0, quantity: 1, unitPrice: price }]
+    },
+    complianceDocuments: ['SF-1449'],
+    requirementMappings: [
+      { requirementId: 'REQ-1', proposalSection: 'Section 2', coverage: 'FULL' },
+      { requirementId: 'REQ-2', proposalSection: 'Section 3', coverage: 'FULL' }
+    ],
+    ...overrides
+  };
+}
+
+function buildLineItem(overrides: Partial<ContractLineItem> = {}): ContractLineItem {
+  return { clin: '0001', description: 'Services', period: 0, quantity: 1, unitPrice: 1000, ...overrides };
+}
+
+// Audit logger stand-in that keeps every event in memory
+function buildAuditLogger(): ComplianceLoggingManager & { events: AuditLogEntry[] } {
+  const events: AuditLogEntry[] = [];
+  return {
+    events,
+    logEvent: async (event: AuditLogEntry) => { events.push(event); }
+  } as ComplianceLoggingManager & { events: AuditLogEntry[] };
+}
+
+// Settable clock; read() is what the component under test is given
+function buildClock(isoTime: string) {
+  const clock = {
+    now: new Date(isoTime),
+    set: (nextIsoTime: string) => { clock.now = new Date(nextIsoTime); },
+    read: () => new Date(clock.now.getTime())
+  };
+  return clock;
+}
+
+// Two opening officials with sufficient access and one without
+function buildOpeningRoster(): BidOpeningOfficialRoster {
+  const roster = new BidOpeningOfficialRoster();
+  roster.designate({ userId: 'CO-1', accessLevel: AccessLevel.PRIVILEGED });
+  roster.designate({ userId: 'CO-2', accessLevel: AccessLevel.EXECUTIVE });
+  roster.designate({ userId: 'CLERK', accessLevel: AccessLevel.STANDARD });
+  return roster;
+}
+
+// Registered, unexcluded vendor with well-formed identifiers
+function buildVendorProfile(vendorId: string, overrides: Partial<VendorProfile> = {}): VendorProfile {
+  return {
+    vendorId,
+    legalName: `${vendorId} Federal Services`,
+    uei: 'J7M9HPTGJ1S0',
+    cageCode: '1ABC2',
+    naicsCodes: ['541512'],
+    certifications: [],
+    registrationExpiresOn: new Date('2030-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
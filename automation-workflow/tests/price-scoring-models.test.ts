@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function priceScore(solicitation: BidSolicitation, bid: VendorBid, competingBids: VendorBid[] = [bid]) {
+  return new BidEvaluationEngine().evaluateBid(bid, solicitation, competingBids).priceScore;
+}
+
+test('linear scoring interpolates between the floor and ceiling share of budget', () => {
+  const solicitation = buildSolicitation();
+
+  assert.equal(priceScore(solicitation, buildBid('V1', 70000)), 100);
+  assert.equal(priceScore(solicitation, buildBid('V1', 130000)), 0);
+  assert.ok(Math.abs(priceScore(solicitation, buildBid('V1', 100000)) - 50) < 1e-9);
+});
+
+test('ratio-to-lowest scores each bid proportionally to the lowest responsive price', () => {
+  const solicitation = buildSolicitation({ priceScoring: { modelType: 'RATIO_TO_LOWEST' } });
+  const low = buildBid('V1', 60000);
+  const high = buildBid('V2', 80000);
+
+  assert.equal(priceScore(solicitation, low, [low, high]), 100);
+  assert.equal(priceScore(solicitation, high, [low, high]), 75);
+});
+
+test('ratio-to-lowest refuses a bid without a positive evaluated price', () => {
+  const solicitation = buildSolicitation({ priceScoring: { modelType: 'RATIO_TO_LOWEST' } });
+  const free = buildBid('V1', 0);
+
+  assert.throws(
+    () => priceScore(solicitation, free, [free, buildBid('V2', 80000)]),
+    /requires a positive evaluated price; bid V1 has 0/
+  );
+});
+
+test('LPTA pass/fail awards full points only within the price ceiling', () => {
+  const solicitation = buildSolicitation({
+    priceScoring: { modelType: 'LPTA_PASS_FAIL', parameters: { priceCeilingRatio: 0.9 } }
+  });
+
+  assert.equal(priceScore(solicitation, buildBid('V1', 90000)), 100);
+  assert.equal(priceScore(solicitation, buildBid('V1', 90001)), 0);
+});
+
+test('custom models can be registered and unknown models are refused', () => {
+  const engine = new BidEvaluationEngine();
+  engine.registerPriceScoringModel('FLAT', () => ({
+    modelType: 'FLAT',
+    scorePrice: () => ({ score: 42, rule: 'FLAT', inputs: {}, explanation: 'Flat score.' })
+  }));
+
+  const bid = buildBid('V1', 80000);
+  assert.equal(engine.evaluateBid(bid, buildSolicitation({ priceScoring: { modelType: 'FLAT' } })).priceScore, 42);
+  assert.throws(
+    () => engine.evaluateBid(bid, buildSolicitation({ priceScoring: { modelType: 'MYSTERY' } })),
+    /Unknown price scoring model: MYSTERY/
+  );
+});
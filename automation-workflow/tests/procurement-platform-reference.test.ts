@@ -0,0 +1,202 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, readdirSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const BEFORE_DEADLINE = '2026-03-01T12:00:00Z';
+const AFTER_DEADLINE = '2026-03-03T09:00:00Z';
+
+// Draft, review by someone other than the author, then publish
+async function publish(platform: ReferenceProcurementPlatform, solicitation: BidSolicitation) {
+  await platform.createBidSolicitation(solicitation, 'CS-AUTHOR');
+  await platform.submitSolicitationForReview(solicitation.id, 'CS-AUTHOR');
+  await platform.approveSolicitation(solicitation.id, 'CO-REVIEWER');
+  return platform.publishSolicitation(solicitation.id, 'CO-REVIEWER');
+}
+
+function buildPlatform(
+  storage: ProcurementStorageAdapter,
+  clock: ReturnType<typeof buildClock>,
+  keyStore: SealedBidKeyStore = new InMemorySealedBidKeyStore()
+) {
+  const registry = new VendorRegistry();
+  ['V1', 'V2', 'V3'].forEach(vendorId => registry.registerVendor(buildVendorProfile(vendorId)));
+
+  const regulationRules = new AcquisitionRegulationRuleEngine();
+  regulationRules.importRuleLibrary(readFileSync(join(__dirname, '..', 'acquisition-regulation-rules.json'), 'utf8'));
+
+  return new ReferenceProcurementPlatform(
+    storage,
+    new SealedBidVault(buildAuditLogger(), buildOpeningRoster(), 'REFUSE', clock.read, keyStore),
+    registry,
+    regulationRules
+  );
+}
+
+test('a solicitation runs from creation through sealed bidding and opening to an award', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const platform = buildPlatform(new InMemoryProcurementStorage(), clock);
+
+  await publish(platform, buildSolicitation());
+  const submissions = await Promise.all([
+    platform.submitBid(buildBid('V1', 90000)),
+    platform.submitBid(buildBid('V2', 75000)),
+    platform.submitBid(buildBid('V3', 140000)),
+    platform.submitBid(buildBid('UNREGISTERED', 60000))
+  ]);
+  assert.deepEqual(submissions.map(result => result.accepted), [true, true, true, false]);
+
+  await assert.rejects(platform.evaluateBids('SOL-001'), /must be opened before evaluation/);
+  clock.set(AFTER_DEADLINE);
+  await platform.openBids('SOL-001', ['CO-1', 'CO-2']);
+  const report = await platform.evaluateBids('SOL-001');
+
+  assert.equal(report.awardRecommendation.vendorId, 'V2');
+  assert.deepEqual(report.rankedBids.map(ranked => ranked.vendorId), ['V2', 'V1']);
+  assert.deepEqual(report.excludedBids.map(excluded => excluded.vendorId), ['V3']);
+  assert.match(report.excludedBids[0].reason, /exceeds the screening ceiling/);
+});
+
+test('bids that fail screening are excluded before scoring', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const platform = buildPlatform(new InMemoryProcurementStorage(), clock);
+
+  await publish(platform, buildSolicitation());
+  await platform.submitBid(buildBid('V1', 90000));
+  await platform.submitBid(buildBid('V2', 70000, { requirementMappings: [] }));
+  clock.set(AFTER_DEADLINE);
+  await platform.openBids('SOL-001', ['CO-1', 'CO-2']);
+
+  const report = await platform.evaluateBids('SOL-001');
+  assert.deepEqual(report.rankedBids.map(ranked => ranked.vendorId), ['V1']);
+  assert.equal(report.excludedBids[0].reason, 'Rejected in workflow: Mandatory requirements not addressed: REQ-1');
+});
+
+test('sealed bids and the opening record survive a restart of the file-backed platform', async () => {
+  const filePath = join(mkdtempSync(join(tmpdir(), 'procurement-')), 'store.json');
+  const clock = buildClock(BEFORE_DEADLINE);
+  // Stands in for the agency secret store, which outlives the platform process
+  const keyStore = new InMemorySealedBidKeyStore();
+
+  const before = buildPlatform(new FileBackedProcurementStorage(filePath), clock, keyStore);
+  await publish(before, buildSolicitation());
+  await before.submitBid(buildBid('V1', 90000));
+  await before.submitBid(buildBid('V2', 75000));
+
+  clock.set(AFTER_DEADLINE);
+  const afterRestart = buildPlatform(new FileBackedProcurementStorage(filePath), clock, keyStore);
+  const opening = await afterRestart.openBids('SOL-001', ['CO-1', 'CO-2']);
+  assert.equal(opening.openedReceiptIds.length, 2);
+
+  const afterSecondRestart = buildPlatform(new FileBackedProcurementStorage(filePath), clock, keyStore);
+  await assert.rejects(afterSecondRestart.openBids('SOL-001', ['CO-1', 'CO-2']), /already been opened/);
+  const report = await afterSecondRestart.evaluateBids('SOL-001');
+  assert.equal(report.awardRecommendation.vendorId, 'V2');
+});
+
+test('concurrent saves to the file-backed store are written in turn and none is lost', async () => {
+  const directory = mkdtempSync(join(tmpdir(), 'procurement-'));
+  const filePath = join(directory, 'store.json');
+  const clock = buildClock(BEFORE_DEADLINE);
+  const keyStore = new InMemorySealedBidKeyStore();
+
+  const platform = buildPlatform(new FileBackedProcurementStorage(filePath), clock, keyStore);
+  await publish(platform, buildSolicitation());
+  const submissions = await Promise.all(['V1', 'V2', 'V3'].map(vendorId => platform.submitBid(buildBid(vendorId, 90000))));
+  assert.deepEqual(submissions.map(result => result.accepted), [true, true, true]);
+
+  const restarted = new FileBackedProcurementStorage(filePath);
+  assert.equal((await restarted.getReceipts('SOL-001')).length, 3);
+  assert.equal((await restarted.getVaultState())!.sealedBids['SOL-001'].length, 3);
+  assert.deepEqual(readdirSync(directory), ['store.json']);
+});
+
+test('the saved store holds encrypted bids but no key material', async () => {
+  const filePath = join(mkdtempSync(join(tmpdir(), 'procurement-')), 'store.json');
+  const clock = buildClock(BEFORE_DEADLINE);
+  const keyStore = new InMemorySealedBidKeyStore();
+
+  const platform = buildPlatform(new FileBackedProcurementStorage(filePath), clock, keyStore);
+  await publish(platform, buildSolicitation());
+  await platform.submitBid(buildBid('V1', 90000));
+  clock.set(AFTER_DEADLINE);
+  await platform.openBids('SOL-001', ['CO-1', 'CO-2']);
+
+  const key = await keyStore.getKey('SOL-001');
+  assert.ok(key);
+  const saved = readFileSync(filePath, 'utf8');
+  assert.equal(JSON.parse(saved).vault.sealedBids['SOL-001'].length, 1);
+  assert.ok(!saved.includes(key.toString('base64')));
+  assert.ok(!saved.includes(key.toString('hex')));
+  assert.doesNotMatch(saved, /solicitationKeys/);
+
+  // Without the key store the saved bids cannot be opened
+  const withoutKeys = buildPlatform(new FileBackedProcurementStorage(filePath), clock);
+  await assert.rejects(withoutKeys.evaluateBids('SOL-001'), /No sealing key is available for solicitation SOL-001/);
+});
+
+test('bids are accepted only while the solicitation is published', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const platform = buildPlatform(new InMemoryProcurementStorage(), clock);
+
+  await platform.createBidSolicitation(buildSolicitation(), 'CS-AUTHOR');
+  const onDraft = await platform.submitBid(buildBid('V1', 90000));
+  assert.equal(onDraft.accepted, false);
+  assert.equal(onDraft.reason, 'Solicitation SOL-001 is DRAFT; bids are accepted only while it is published');
+
+  await platform.submitSolicitationForReview('SOL-001', 'CS-AUTHOR');
+  await assert.rejects(platform.approveSolicitation('SOL-001', 'CS-AUTHOR'), /cannot be approved by its author/);
+  await platform.approveSolicitation('SOL-001', 'CO-REVIEWER');
+  await platform.publishSolicitation('SOL-001', 'CO-REVIEWER');
+  assert.equal((await platform.submitBid(buildBid('V1', 90000))).accepted, true);
+
+  await platform.cancelSolicitation('SOL-001', 'CO-REVIEWER', 'Requirement withdrawn');
+  const onCancelled = await platform.submitBid(buildBid('V2', 80000));
+  assert.equal(onCancelled.accepted, false);
+  assert.match(onCancelled.reason!, /is CANCELLED/);
+  await assert.rejects(platform.evaluateBids('SOL-001'), /has been cancelled/);
+});
+
+test('amendments are stored and enforced through screening', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const platform = buildPlatform(new InMemoryProcurementStorage(), clock);
+  await publish(platform, buildSolicitation());
+
+  const extendedDeadline = new Date('2026-03-05T17:00:00Z');
+  await platform.amendSolicitation('SOL-001', {
+    description: 'Extend the response deadline',
+    changes: { deadline: extendedDeadline },
+    issuedBy: 'CO-REVIEWER',
+    issuedAt: new Date(BEFORE_DEADLINE)
+  });
+
+  // The amended deadline reaches the vault: this receipt would be late under the original one
+  clock.set(AFTER_DEADLINE);
+  assert.equal((await platform.submitBid(buildBid('V1', 90000, { acknowledgedAmendments: [1] }))).accepted, true);
+  assert.equal((await platform.submitBid(buildBid('V2', 80000))).accepted, true);
+
+  clock.set('2026-03-06T09:00:00Z');
+  await platform.openBids('SOL-001', ['CO-1', 'CO-2']);
+  const report = await platform.evaluateBids('SOL-001');
+
+  assert.equal(report.awardRecommendation.vendorId, 'V1');
+  assert.equal(report.excludedBids[0].reason, 'Rejected in workflow: Material amendments not acknowledged: 1');
+});
+
+test('the solicitation lifecycle resumes from storage after a restart', async () => {
+  const filePath = join(mkdtempSync(join(tmpdir(), 'procurement-')), 'store.json');
+  const clock = buildClock(BEFORE_DEADLINE);
+
+  const before = buildPlatform(new FileBackedProcurementStorage(filePath), clock);
+  await before.createBidSolicitation(buildSolicitation(), 'CS-AUTHOR');
+  await before.submitSolicitationForReview('SOL-001', 'CS-AUTHOR');
+
+  const afterRestart = buildPlatform(new FileBackedProcurementStorage(filePath), clock);
+  await assert.rejects(afterRestart.approveSolicitation('SOL-001', 'CS-AUTHOR'), /cannot be approved by its author/);
+  await afterRestart.approveSolicitation('SOL-001', 'CO-REVIEWER');
+  const published = await afterRestart.publishSolicitation('SOL-001', 'CO-REVIEWER');
+
+  assert.equal(published.status, 'PUBLISHED');
+  assert.ok(published.deadline instanceof Date);
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function matrixFor(requirementMappings: RequirementMapping[]): ComplianceMatrix {
+  return new BidEvaluationEngine().buildComplianceMatrix(buildBid('V1', 80000, { requirementMappings }), buildSolicitation());
+}
+
+test('each requirement is matched to the proposal section the vendor cites', () => {
+  const matrix = matrixFor([
+    { requirementId: 'REQ-1', proposalSection: 'Section 2', coverage: 'FULL' },
+    { requirementId: 'REQ-2', proposalSection: 'Section 3', coverage: 'PARTIAL' }
+  ]);
+
+  assert.deepEqual(matrix.entries.map(entry => entry.status), ['MET', 'PARTIALLY_MET']);
+  assert.ok(Math.abs(new RequirementsComplianceMatrixBuilder().calculateAlignmentScore(matrix) - 250 / 3) < 1e-9);
+});
+
+test('sections missing from the proposal leave the requirement unaddressed', () => {
+  const matrix = matrixFor([{ requirementId: 'REQ-1', proposalSection: 'Section 9', coverage: 'FULL' }]);
+
+  assert.deepEqual(matrix.unaddressedMandatory, ['REQ-1']);
+  assert.match(matrix.entries[0].note, /"Section 9" not found/);
+});
+
+test('a cited section must match a whole section identifier in the proposal', () => {
+  const proposal = { proposedSolution: 'Section 20: FedRAMP Moderate hosting. Section 3.1: help desk staffing.' };
+  const matrixWith = (proposalSection: string) => new BidEvaluationEngine().buildComplianceMatrix(
+    buildBid('V1', 80000, { ...proposal, requirementMappings: [{ requirementId: 'REQ-1', proposalSection, coverage: 'FULL' }] }),
+    buildSolicitation()
+  ).entries[0].status;
+
+  assert.equal(matrixWith('Section 2'), 'NOT_ADDRESSED');
+  assert.equal(matrixWith('Section 3'), 'NOT_ADDRESSED');
+  assert.equal(matrixWith('Section 20'), 'MET');
+  assert.equal(matrixWith('section 3.1'), 'MET');
+});
+
+test('an empty or whitespace proposal section does not satisfy a requirement', () => {
+  ['', '   '].forEach(proposalSection => {
+    const matrix = matrixFor([{ requirementId: 'REQ-1', proposalSection, coverage: 'FULL' }]);
+
+    assert.equal(matrix.entries[0].status, 'NOT_ADDRESSED');
+    assert.deepEqual(matrix.unaddressedMandatory, ['REQ-1']);
+  });
+});
+
+test('an exception to a mandatory requirement fails screening', () => {
+  const bid = buildBid('V1', 80000, {
+    requirementMappings: [
+      { requirementId: 'REQ-1', proposalSection: 'Section 2', coverage: 'FULL', exception: 'Hosting is FedRAMP Low only' },
+      { requirementId: 'REQ-2', proposalSection: 'Section 3', coverage: 'FULL' }
+    ]
+  });
+  const result = new BidEvaluationEngine().processBidWorkflow(bid, buildSolicitation(), 'CO-1');
+
+  assert.equal(result.finalState, 'REJECTED');
+  assert.equal(result.rejectionReason, 'Exceptions taken to mandatory requirements: REQ-1');
+});
+
+test('duplicate requirement IDs in a solicitation are refused', () => {
+  const requirement = buildSolicitation().requirements[0];
+
+  assert.throws(
+    () => new BidEvaluationEngine().buildComplianceMatrix(
+      buildBid('V1', 80000),
+      buildSolicitation({ requirements: [requirement, requirement] })
+    ),
+    /Duplicate requirement ID REQ-1/
+  );
+});
@@ -0,0 +1,76 @@
+// Test Runner: the platform is written as global scripts, so each test file is bundled with
+// every script listed in tsconfig.json (including shared fixtures) and run in one function scope under node:test
+
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+
+// Legacy scripts (marked @ts-nocheck) that define globals the platform uses at runtime
+const LEGACY_SCRIPTS = ['bubble-gov-integration-module.ts', 'gov-workflow-logging-compliance.ts'];
+
+function platformScripts() {
+  const config = ts.getParsedCommandLineOfConfigFile(path.join(ROOT, 'tsconfig.json'), {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: diagnostic => {
+      throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    }
+  });
+
+  const scripts = config.fileNames
+    .filter(fileName => !fileName.endsWith('.d.ts'))
+    .filter(fileName => !fileName.endsWith('.test.ts'))
+    .sort();
+
+  // Scripts that others reference while their classes are being defined load first
+  const loadFirst = [...LEGACY_SCRIPTS, 'node-runtime.ts'].map(fileName => path.join(ROOT, fileName));
+  return [...loadFirst, ...scripts.filter(fileName => !loadFirst.includes(fileName))];
+}
+
+function transpile(fileName) {
+  return ts.transpileModule(fs.readFileSync(fileName, 'utf8'), {
+    fileName,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS
+    }
+  }).outputText;
+}
+
+function runTestFile(platformSource, testFile) {
+  const bundle = [
+    '(function (exports, require, module, __filename, __dirname) {',
+    platformSource,
+    transpile(testFile),
+    '})'
+  ].join('\n');
+
+  const testModule = { exports: {} };
+  vm.runInThisContext(bundle, { filename: testFile })(
+    testModule.exports,
+    require,
+    testModule,
+    testFile,
+    path.dirname(testFile)
+  );
+}
+
+function main() {
+  const filter = process.argv[2];
+  const testFiles = fs.readdirSync(__dirname)
+    .filter(fileName => fileName.endsWith('.test.ts'))
+    .filter(fileName => !filter || fileName.includes(filter))
+    .sort()
+    .map(fileName => path.join(__dirname, fileName));
+
+  if (testFiles.length === 0) {
+    throw new Error(filter ? `No test files match ${filter}` : 'No test files found');
+  }
+
+  const platformSource = platformScripts().map(transpile).join('\n');
+  testFiles.forEach(testFile => runTestFile(platformSource, testFile));
+}
+
+main();
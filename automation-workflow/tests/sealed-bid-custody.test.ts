@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+const BEFORE_DEADLINE = '2026-03-01T12:00:00Z';
+const AFTER_DEADLINE = '2026-03-03T09:00:00Z';
+
+test('receipt times come from the vault clock, so a late bid cannot be backdated', async () => {
+  const clock = buildClock(AFTER_DEADLINE);
+  const vault = new SealedBidVault(buildAuditLogger(), buildOpeningRoster(), 'REFUSE', clock.read);
+
+  const receipt = await vault.receiveBid(buildBid('V1', 80000), buildSolicitation());
+
+  assert.equal(receipt.status, 'REFUSED_LATE');
+  assert.equal(receipt.receivedAt.toISOString(), new Date(AFTER_DEADLINE).toISOString());
+});
+
+test('late bids can be quarantined and stay out of the opening', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const vault = new SealedBidVault(buildAuditLogger(), buildOpeningRoster(), 'QUARANTINE', clock.read);
+  const solicitation = buildSolicitation();
+
+  await vault.receiveBid(buildBid('V1', 80000), solicitation);
+  clock.set(AFTER_DEADLINE);
+  const late = await vault.receiveBid(buildBid('V2', 70000), solicitation);
+  const opening = await vault.openBids(solicitation, ['CO-1', 'CO-2']);
+
+  assert.equal(late.status, 'QUARANTINED_LATE');
+  assert.deepEqual(opening.quarantinedReceiptIds, [late.receiptId]);
+  assert.deepEqual(vault.getOpenedBids('SOL-001').map(bid => bid.vendorId), ['V1']);
+});
+
+test('bids cannot be opened before the deadline or read before opening', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const vault = new SealedBidVault(buildAuditLogger(), buildOpeningRoster(), 'REFUSE', clock.read);
+  const solicitation = buildSolicitation();
+  await vault.receiveBid(buildBid('V1', 80000), solicitation);
+
+  await assert.rejects(vault.openBids(solicitation, ['CO-1', 'CO-2']), /cannot be opened before the deadline/);
+  assert.throws(() => vault.getOpenedBids('SOL-001'), /have not been opened/);
+});
+
+test('opening officials are authorized by the directory, not by what they claim', async () => {
+  const clock = buildClock(AFTER_DEADLINE);
+  const auditLogger = buildAuditLogger();
+  const vault = new SealedBidVault(auditLogger, buildOpeningRoster(), 'REFUSE', clock.read);
+
+  await assert.rejects(
+    vault.openBids(buildSolicitation(), ['CO-1', 'CLERK', 'STRANGER', 'CO-1']),
+    /requires 2 distinct authorized officials/
+  );
+  assert.equal(auditLogger.events[0].resourceAccessed, 'SOL-001:INSUFFICIENT_OFFICIALS');
+
+  const opening = await vault.openBids(buildSolicitation(), ['CO-1', 'CO-2']);
+  assert.deepEqual(opening.officials, ['CO-1', 'CO-2']);
+});
+
+test('opened bids match the submission, including dates', async () => {
+  const clock = buildClock(BEFORE_DEADLINE);
+  const vault = new SealedBidVault(buildAuditLogger(), buildOpeningRoster(), 'REFUSE', clock.read);
+  const solicitation = buildSolicitation();
+  const bid = buildBid('V1', 80000, {
+    documentMetadata: [{ fileName: 'proposal.pdf', createdAt: new Date('2026-02-20T08:30:00Z') }]
+  });
+
+  await vault.receiveBid(bid, solicitation);
+  clock.set(AFTER_DEADLINE);
+  await vault.openBids(solicitation, ['CO-1', 'CO-2']);
+
+  const [opened] = vault.getOpenedBids('SOL-001');
+  assert.ok(opened.documentMetadata![0].createdAt instanceof Date);
+  assert.deepEqual(opened, bid);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function publishedManager() {
+  const lifecycle = new SolicitationLifecycleManager();
+  lifecycle.createDraft(buildSolicitation(), 'CS-AUTHOR');
+  lifecycle.submitForReview('SOL-001', 'CS-AUTHOR');
+  lifecycle.approve('SOL-001', 'CO-REVIEWER');
+  lifecycle.publish('SOL-001', 'CO-REVIEWER');
+  return lifecycle;
+}
+
+test('drafts pass review by someone other than the author before publication', () => {
+  const lifecycle = new SolicitationLifecycleManager();
+  lifecycle.createDraft(buildSolicitation(), 'CS-AUTHOR');
+
+  assert.throws(() => lifecycle.publish('SOL-001', 'CS-AUTHOR'), /cannot move from DRAFT to PUBLISHED/);
+  lifecycle.submitForReview('SOL-001', 'CS-AUTHOR');
+  assert.throws(() => lifecycle.updateDraft('SOL-001', { budget: 1 }, 'CS-AUTHOR'), /only drafts can be edited/);
+  assert.throws(() => lifecycle.approve('SOL-001', 'CS-AUTHOR'), /cannot be approved by its author/);
+
+  lifecycle.approve('SOL-001', 'CO-REVIEWER');
+  assert.equal(lifecycle.publish('SOL-001', 'CO-REVIEWER').status, 'PUBLISHED');
+  assert.deepEqual(
+    lifecycle.getStatusHistory('SOL-001').map(change => change.status),
+    ['DRAFT', 'IN_REVIEW', 'APPROVED', 'PUBLISHED']
+  );
+});
+
+test('amendments are numbered, versioned and leave earlier versions frozen', () => {
+  const lifecycle = publishedManager();
+  const amendment = lifecycle.issueAmendment('SOL-001', {
+    description: 'Raise the budget',
+    changes: { budget: 120000 },
+    issuedBy: 'CO-REVIEWER'
+  });
+
+  assert.equal(amendment.amendmentNumber, 1);
+  assert.equal(amendment.material, true);
+  assert.equal(lifecycle.getSolicitation('SOL-001').budget, 120000);
+
+  const original = lifecycle.getVersion('SOL-001', 1);
+  assert.equal(original.budget, 100000);
+  assert.ok(Object.isFrozen(original));
+  assert.throws(() => { (original.requirements as SolicitationRequirement[]).push(original.requirements[0]); });
+});
+
+test('unacknowledged material amendments are reported per bid', () => {
+  const lifecycle = publishedManager();
+  lifecycle.issueAmendment('SOL-001', { description: 'Raise the budget', changes: { budget: 120000 }, issuedBy: 'CO-REVIEWER' });
+  const solicitation = lifecycle.getSolicitation('SOL-001');
+
+  const acknowledging = buildBid('V1', 90000, { acknowledgedAmendments: [1] });
+  const silent = buildBid('V2', 90000);
+
+  assert.equal(SolicitationLifecycleManager.findUnacknowledgedAmendments(acknowledging, solicitation).length, 0);
+  assert.equal(SolicitationLifecycleManager.findUnacknowledgedAmendments(silent, solicitation).length, 1);
+  assert.deepEqual(lifecycle.getAcknowledgementReport('SOL-001', [acknowledging, silent]).amendments[0].outstanding, ['V2']);
+});
+
+test('a restored record keeps its author, history and frozen versions', () => {
+  const source = new SolicitationLifecycleManager();
+  source.createDraft(buildSolicitation(), 'CS-AUTHOR');
+  source.submitForReview('SOL-001', 'CS-AUTHOR');
+
+  const restored = new SolicitationLifecycleManager();
+  restored.restoreRecord(source.exportRecord('SOL-001'));
+
+  assert.throws(() => restored.approve('SOL-001', 'CS-AUTHOR'), /cannot be approved by its author/);
+  assert.equal(restored.approve('SOL-001', 'CO-REVIEWER').status, 'APPROVED');
+  assert.ok(Object.isFrozen(restored.getVersion('SOL-001', 1)));
+  assert.equal(source.getSolicitation('SOL-001').status, 'IN_REVIEW');
+});
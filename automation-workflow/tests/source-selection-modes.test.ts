@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+// Technical merit follows how many requirements a bid maps to its proposal
+const partialBid = (vendorId: string, price: number) => buildBid(vendorId, price, {
+  requirementMappings: [{ requirementId: 'REQ-1', proposalSection: 'Section 2', coverage: 'FULL' }]
+});
+
+test('best-value tradeoff recommends the highest weighted score and documents the price premium', () => {
+  const engine = new BidEvaluationEngine();
+  const report = engine.evaluateBids(buildSolicitation(), [partialBid('CHEAP', 69000), buildBid('STRONG', 72000)]);
+
+  assert.equal(report.sourceSelectionMode, 'BEST_VALUE_TRADEOFF');
+  assert.equal(report.awardRecommendation.vendorId, 'STRONG');
+  assert.equal(report.tradeoffs.length, 1);
+  assert.equal(report.tradeoffs[0].lowerPricedVendorId, 'CHEAP');
+  assert.equal(report.tradeoffs[0].priceDifference, 3000);
+  assert.match(report.awardRecommendation.rationale, /preferred over 1 lower-priced offer/);
+});
+
+test('LPTA excludes technically unacceptable offers and awards the lowest remaining price', () => {
+  const engine = new BidEvaluationEngine();
+  const solicitation = buildSolicitation({ sourceSelectionMode: 'LPTA', technicalAcceptabilityThreshold: 90 });
+  const report = engine.evaluateBids(solicitation, [
+    partialBid('CHEAP', 50000),
+    buildBid('MID', 80000),
+    buildBid('HIGH', 95000)
+  ]);
+
+  assert.deepEqual(report.excludedBids.map(excluded => excluded.vendorId), ['CHEAP']);
+  assert.deepEqual(report.rankedBids.map(ranked => ranked.vendorId), ['MID', 'HIGH']);
+  assert.equal(report.awardRecommendation.vendorId, 'MID');
+});
+
+test('no award is recommended when no offer is technically acceptable', () => {
+  const engine = new BidEvaluationEngine();
+  const solicitation = buildSolicitation({ sourceSelectionMode: 'LPTA', technicalAcceptabilityThreshold: 101 });
+  const report = engine.evaluateBids(solicitation, [buildBid('V1', 80000)]);
+
+  assert.equal(report.awardRecommendation.vendorId, null);
+  assert.match(report.awardRecommendation.rationale, /No technically acceptable offers/);
+});
+
+test('a bid whose CLINs cannot be priced is excluded without aborting the report', () => {
+  const engine = new BidEvaluationEngine();
+  const unpriceable = buildBid('BROKEN', 10000, {
+    pricing: { totalCost: 10000, lineItems: [buildLineItem({ contractType: 'COST_PLUS_FIXED_FEE' })] }
+  });
+
+  const report = engine.evaluateBids(buildSolicitation(), [buildBid('V1', 80000), unpriceable, buildBid('V2', 90000)]);
+
+  assert.deepEqual(report.rankedBids.map(ranked => ranked.vendorId), ['V1', 'V2']);
+  assert.deepEqual(report.excludedBids, [{
+    vendorId: 'BROKEN',
+    reason: 'Price could not be evaluated: Cost-plus CLIN 0001 requires an estimated cost'
+  }]);
+  assert.equal(report.awardRecommendation.vendorId, 'V1');
+});
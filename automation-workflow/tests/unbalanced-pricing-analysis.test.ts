@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function estimate(lineItems: ContractLineItem[]): IndependentGovernmentCostEstimate {
+  return { solicitationId: 'SOL-001', preparedBy: 'COST-ANALYST', preparedOn: new Date('2026-01-10'), lineItems };
+}
+
+function pricedBid(vendorId: string, lineItems: ContractLineItem[]): VendorBid {
+  return buildBid(vendorId, 0, { pricing: { totalCost: 0, lineItems } });
+}
+
+const baseAndOption = (base: number, option: number) => [
+  buildLineItem({ clin: '0001', period: 0, unitPrice: base }),
+  buildLineItem({ clin: '1001', period: 1, unitPrice: option })
+];
+
+test('offsetting over- and under-priced CLINs are flagged as unbalanced', () => {
+  const report = new BidEvaluationEngine().analyzeLineItemPricing(
+    buildSolicitation({ optionPeriods: 1 }),
+    [pricedBid('SKEWED', baseAndOption(80000, 10000))],
+    estimate(baseAndOption(50000, 50000))
+  );
+  const [analysis] = report.bids;
+
+  assert.deepEqual(analysis.flags.map(flag => flag.flagType), ['OVERPRICED_LINE_ITEM', 'UNDERPRICED_LINE_ITEM', 'FRONT_LOADED']);
+  assert.equal(analysis.unbalanced, true);
+  assert.equal(analysis.requiresPriceRealismReview, false);
+});
+
+test('totals well below the estimate and peers are referred for price realism review', () => {
+  const report = new BidEvaluationEngine().analyzeLineItemPricing(
+    buildSolicitation({ optionPeriods: 1 }),
+    [
+      pricedBid('LOW', baseAndOption(30000, 30000)),
+      pricedBid('PEER-1', baseAndOption(50000, 50000)),
+      pricedBid('PEER-2', baseAndOption(52000, 52000))
+    ],
+    estimate(baseAndOption(50000, 50000))
+  );
+  const low = report.bids.find(analysis => analysis.vendorId === 'LOW');
+  assert.ok(low);
+
+  assert.equal(report.governmentEstimateTotal, 100000);
+  assert.equal(low.requiresPriceRealismReview, true);
+  assert.deepEqual(
+    low.flags.filter(flag => flag.flagType === 'PRICE_REALISM_REVIEW').map(flag => flag.benchmarkSource),
+    ['IGCE', 'PEER_MEDIAN']
+  );
+  assert.equal(low.unbalanced, false);
+});
+
+test('the estimate must belong to the solicitation under analysis', () => {
+  assert.throws(
+    () => new BidEvaluationEngine().analyzeLineItemPricing(
+      buildSolicitation(),
+      [buildBid('V1', 80000)],
+      { ...estimate([]), solicitationId: 'SOL-999' }
+    ),
+    /Cost estimate is for solicitation SOL-999, not SOL-001/
+  );
+});
+
+test('cost-plus CLINs are compared at their evaluated amounts', () => {
+  const costPlus = (clin: string, period: number, estimatedCost: number) =>
+    buildLineItem({ clin, period, contractType: 'COST_PLUS_FIXED_FEE', estimatedCost, feeRate: 0.25, unitPrice: undefined });
+
+  const report = new BidEvaluationEngine().analyzeLineItemPricing(
+    buildSolicitation({ optionPeriods: 1 }),
+    [
+      pricedBid('COST-PLUS', [costPlus('0001', 0, 100000), costPlus('1001', 1, 10000)]),
+      pricedBid('UNPRICEABLE', [buildLineItem({ contractType: 'COST_PLUS_FIXED_FEE' })])
+    ],
+    estimate(baseAndOption(50000, 50000))
+  );
+  const [analysis] = report.bids;
+
+  assert.equal(report.bids.length, 1);
+  assert.equal(analysis.lineItemTotal, 137500);
+  assert.deepEqual(analysis.flags.map(flag => [flag.flagType, flag.observed]), [
+    ['OVERPRICED_LINE_ITEM', 125000],
+    ['UNDERPRICED_LINE_ITEM', 12500],
+    ['FRONT_LOADED', 125000 / 137500]
+  ]);
+  assert.deepEqual(report.unpricedBids, [
+    { vendorId: 'UNPRICEABLE', reason: 'Cost-plus CLIN 0001 requires an estimated cost' }
+  ]);
+});
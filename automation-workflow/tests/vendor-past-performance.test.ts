@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const CSV_HEADER = 'vendorId,contractNumber,agencyName,contractValue,completedOn,onTimeDeliveryRate,qualityRating,terminatedForDefault,disputeCount';
+
+test('a CSV file with a bad row loads nothing', () => {
+  const repository = new PastPerformanceRepository();
+  const csv = [
+    CSV_HEADER,
+    'V1,GS-1,GSA,100000,2025-01-15,0.95,4,false,0',
+    'V1,GS-2,GSA,250000,2024-06-30,1.4,4,false,0'
+  ].join('\n');
+
+  assert.throws(() => repository.importCsv(csv), /CSV row 3: On-time delivery rate for contract GS-2/);
+  assert.deepEqual(repository.getRecords('V1'), []);
+});
+
+test('a JSON file with a bad record loads nothing', () => {
+  const repository = new PastPerformanceRepository();
+  const json = JSON.stringify([
+    { vendorId: 'V1', contractNumber: 'GS-1', agencyName: 'GSA', contractValue: 1, completedOn: '2025-01-15',
+      onTimeDeliveryRate: 1, qualityRating: 5, terminatedForDefault: false, disputeCount: 0 },
+    { vendorId: 'V2', contractNumber: 'GS-2', agencyName: 'GSA', contractValue: 1, completedOn: 'not a date',
+      onTimeDeliveryRate: 1, qualityRating: 5, terminatedForDefault: false, disputeCount: 0 }
+  ]);
+
+  assert.throws(() => repository.importJson(json), /JSON record 2: Invalid completion date for contract GS-2/);
+  assert.deepEqual(repository.getRecords('V1'), []);
+});
+
+test('records load from a local file and weight recent contracts more heavily', async () => {
+  const directory = mkdtempSync(join(tmpdir(), 'past-performance-'));
+  const filePath = join(directory, 'history.csv');
+  writeFileSync(filePath, [
+    CSV_HEADER,
+    'V1,GS-1,GSA,100000,2026-01-01,1,5,false,0',
+    'V1,GS-2,GSA,100000,2014-01-01,0,1,true,2'
+  ].join('\n'));
+
+  const repository = new PastPerformanceRepository();
+  assert.equal(await repository.loadFromFile(filePath), 2);
+
+  const assessment = repository.assessReliability('V1', new Date('2026-06-01'));
+  assert.equal(assessment.recordCount, 2);
+  assert.equal(assessment.terminationsForDefault, 1);
+  assert.ok(assessment.score > 90 && assessment.score < 100);
+});
+
+test('vendors without history receive the neutral reliability score', () => {
+  const score = new BidEvaluationEngine().evaluateBid(buildBid('NEW', 80000), buildSolicitation());
+
+  assert.equal(score.vendorReliabilityScore, PastPerformanceRepository.NEUTRAL_RELIABILITY_SCORE);
+});
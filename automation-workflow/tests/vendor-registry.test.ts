@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+const AS_OF = new Date('2026-03-01T00:00:00Z');
+
+function exclusionList(records: object[]) {
+  return JSON.stringify(records.map(record => ({
+    exclusionType: 'Ineligible (Proceedings Completed)',
+    activeDate: '2025-01-01',
+    ...record
+  })));
+}
+
+test('UEIs are checked for length, alphabet and leading zero only', () => {
+  const registry = new VendorRegistry();
+
+  // Real UEIs carry a check character whose algorithm is not published
+  assert.equal(registry.isValidUei('J7M9HPTGJ1S0'), true);
+  assert.equal(registry.isValidUei('J7M9HPTGJ1S7'), true);
+  assert.equal(registry.isValidUei('ZQGGHJH74DW7'), true);
+  assert.equal(registry.isValidUei('j7m9hptgj1s0'), true);
+
+  assert.equal(registry.isValidUei('07M9HPTGJ1S0'), false);
+  assert.equal(registry.isValidUei('J7M9HPTGJ1S'), false);
+  assert.equal(registry.isValidUei('J7M9HPTGJ1S00'), false);
+  assert.equal(registry.isValidUei('J7M9HPTGJ1O0'), false);
+  assert.equal(registry.isValidUei('J7M9HPTGJ1I0'), false);
+});
+
+test('registration rejects malformed identifiers', () => {
+  const registry = new VendorRegistry();
+
+  assert.throws(
+    () => registry.registerVendor(buildVendorProfile('V1', { uei: '0ABC', naicsCodes: ['999999'] })),
+    /UEI 0ABC is malformed; NAICS code 999999 is not a valid 6-digit code/
+  );
+  registry.registerVendor(buildVendorProfile('V2', { uei: 'ZQGGHJH74DW7' }));
+  assert.equal(registry.checkBidEligibility('V2', AS_OF).eligible, true);
+});
+
+test('exclusions carrying identifiers match on UEI or CAGE, never on a similar name', () => {
+  const registry = new VendorRegistry();
+  registry.registerVendor(buildVendorProfile('V1', { legalName: 'Acme Solutions LLC' }));
+  registry.registerVendor(buildVendorProfile('V2', { legalName: 'Acme Solutions Inc', uei: 'ZQGGHJH74DW7', cageCode: '9XYZ8' }));
+
+  registry.importExclusionsJson(exclusionList([
+    { name: 'Acme Solutions LLC', uei: 'J7M9HPTGJ1S0' }
+  ]));
+
+  assert.equal(registry.checkBidEligibility('V1', AS_OF).eligible, false);
+  assert.equal(registry.checkBidEligibility('V2', AS_OF).eligible, true);
+
+  registry.importExclusionsJson(exclusionList([{ name: 'Someone Else', cageCode: '9xyz8' }]));
+  assert.equal(registry.checkBidEligibility('V1', AS_OF).eligible, true);
+  assert.equal(registry.checkBidEligibility('V2', AS_OF).exclusions.length, 1);
+});
+
+test('name-only exclusions keep entity suffixes when matching', () => {
+  const registry = new VendorRegistry();
+  registry.registerVendor(buildVendorProfile('V1', { legalName: 'Acme Co.' }));
+  registry.registerVendor(buildVendorProfile('V2', { legalName: 'Acme Corp', uei: 'ZQGGHJH74DW7', cageCode: '9XYZ8' }));
+
+  registry.importExclusionsJson(exclusionList([{ name: 'ACME CO' }]));
+
+  assert.equal(registry.checkBidEligibility('V1', AS_OF).eligible, false);
+  assert.equal(registry.checkBidEligibility('V2', AS_OF).eligible, true);
+});
+
+test('exclusions apply only within their active window', () => {
+  const registry = new VendorRegistry();
+  registry.registerVendor(buildVendorProfile('V1'));
+  registry.importExclusionsJson(exclusionList([
+    { name: 'V1 Federal Services', uei: 'J7M9HPTGJ1S0', activeDate: '2026-06-01' }
+  ]));
+
+  assert.equal(registry.checkBidEligibility('V1', AS_OF).eligible, true);
+  assert.match(
+    registry.checkBidEligibility('V1', new Date('2026-07-01T00:00:00Z')).blockingReasons[0],
+    /Listed as excluded party .* since 2026-06-01/
+  );
+  assert.deepEqual(registry.checkBidEligibility('UNKNOWN', AS_OF).blockingReasons, ['Vendor UNKNOWN is not registered']);
+});
+
+test('exclusion records with unparseable dates are refused and the current list is kept', () => {
+  const registry = new VendorRegistry();
+  registry.registerVendor(buildVendorProfile('V1'));
+  registry.importExclusionsJson(exclusionList([{ name: 'V1 Federal Services', uei: 'J7M9HPTGJ1S0' }]));
+
+  assert.throws(
+    () => registry.importExclusionsJson(exclusionList([
+      { name: 'Other Vendor LLC' },
+      { name: 'V1 Federal Services', uei: 'J7M9HPTGJ1S0', activeDate: '2025-13-45' }
+    ])),
+    /Exclusion record 2 has an unparseable activeDate: "2025-13-45"/
+  );
+  assert.throws(
+    () => registry.importExclusionsJson(exclusionList([{ name: 'V1 Federal Services', terminationDate: 'indefinite' }])),
+    /Exclusion record 1 has an unparseable terminationDate: "indefinite"/
+  );
+  assert.equal(registry.checkBidEligibility('V1', AS_OF).eligible, false);
+});
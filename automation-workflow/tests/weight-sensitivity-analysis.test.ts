@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+// CHEAP wins on price, STRONG on requirement coverage; price-weighted scoring keeps them close
+const ratioSolicitation = () => buildSolicitation({ priceScoring: { modelType: 'RATIO_TO_LOWEST' } });
+const bids = () => [
+  buildBid('CHEAP', 60000, {
+    requirementMappings: [{ requirementId: 'REQ-1', proposalSection: 'Section 2', coverage: 'FULL' }]
+  }),
+  buildBid('STRONG', 72000)
+];
+
+test('weight swings that change the leader are reported as switch points', () => {
+  const report = new BidEvaluationEngine().analyzeWeightSensitivity(ratioSolicitation(), bids(), { weightRange: 0.3 });
+  const price = report.tornadoTable.find(row => row.criterion === 'PRICE');
+  assert.ok(price && price.switchPointAbove);
+
+  assert.equal(report.stability.baselineLeaderVendorId, 'STRONG');
+  assert.equal(report.stability.stable, false);
+  assert.ok(report.stability.sensitiveCriteria.includes('PRICE'));
+  assert.equal(price.switchPointAbove.newLeaderVendorId, 'CHEAP');
+  assert.ok(price.switchPointAbove.weight > 0.4 && price.switchPointAbove.weight <= 0.7);
+});
+
+test('the summary reports switch points on both sides of a baseline weight', () => {
+  const middle = buildBid('MIDDLE', 62000, {
+    requirementMappings: [
+      { requirementId: 'REQ-1', proposalSection: 'Section 2', coverage: 'FULL' },
+      { requirementId: 'REQ-2', proposalSection: 'Section 3', coverage: 'PARTIAL' }
+    ]
+  });
+  const report = new BidEvaluationEngine()
+    .analyzeWeightSensitivity(ratioSolicitation(), [...bids(), middle], { weightRange: 0.4 });
+  const price = report.tornadoTable.find(row => row.criterion === 'PRICE');
+  assert.ok(price && price.switchPointBelow && price.switchPointAbove);
+
+  assert.equal(report.stability.baselineLeaderVendorId, 'MIDDLE');
+  assert.equal(price.switchPointBelow.newLeaderVendorId, 'STRONG');
+  assert.equal(price.switchPointAbove.newLeaderVendorId, 'CHEAP');
+  assert.match(
+    report.stability.summary,
+    /PRICE weight moves from 0\.40 to 0\.380 \(new leader STRONG\) or to 0\.740 \(new leader CHEAP\)/
+  );
+});
+
+test('bids are ranked as the award recommendation ranks them', () => {
+  // Equal weighted totals: the lower price leads, whatever the submission order
+  const tied = new BidEvaluationEngine()
+    .analyzeWeightSensitivity(buildSolicitation(), [buildBid('V1', 65000), buildBid('V2', 60000)]);
+  assert.equal(tied.stability.baselineLeaderVendorId, 'V2');
+
+  // LPTA ranks acceptable offers by price alone, so no weight change moves the leader
+  const lpta = new BidEvaluationEngine().analyzeWeightSensitivity(
+    buildSolicitation({ priceScoring: { modelType: 'RATIO_TO_LOWEST' }, sourceSelectionMode: 'LPTA' }),
+    [...bids(), buildBid('PRICIER', 80000)],
+    { weightRange: 0.3 }
+  );
+  assert.equal(lpta.stability.baselineLeaderVendorId, 'STRONG');
+  assert.equal(lpta.stability.stable, true);
+  assert.match(lpta.stability.summary, /^STRONG ranks first as the lowest-priced technically acceptable offer\./);
+});
+
+test('a narrow range around a clear winner reports a stable ranking', () => {
+  const report = new BidEvaluationEngine().analyzeWeightSensitivity(ratioSolicitation(), bids(), { weightRange: 0.01 });
+
+  assert.equal(report.stability.stable, true);
+  assert.deepEqual(report.stability.sensitiveCriteria, []);
+  assert.equal(report.tornadoTable.length, 4);
+});
+
+test('sensitivity analysis needs at least two bids', () => {
+  assert.throws(
+    () => new BidEvaluationEngine().analyzeWeightSensitivity(buildSolicitation(), [buildBid('V1', 80000)]),
+    /at least two bids/
+  );
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const ROOT = join(__dirname, '..');
+
+function buildLoader() {
+  const loader = new WorkflowDefinitionLoader();
+  loader.importSchema(readFileSync(join(ROOT, 'schemas', 'agency-workflow-configuration.schema.json'), 'utf8'));
+  return loader;
+}
+
+// Minimal valid YAML definition; the rule's description line is supplied by each test
+function yamlWithDescription(descriptionLine: string) {
+  return [
+    'agencyId: TEST_001',
+    'agencyName: Test Agency',
+    'workflowType: PROCUREMENT',
+    'specificRules:',
+    '  - ruleId: TEST_RULE_001',
+    `    ${descriptionLine}`,
+    '    applicableWorkflows: [PROCUREMENT]',
+    '    automationPriority: 5',
+    ''
+  ].join('\n');
+}
+
+test('the bundled JSON and YAML definitions load and register', async () => {
+  const engine = new AdaptiveWorkflowEngine();
+  const agencyIds = await buildLoader().registerDirectory(join(ROOT, 'agency-workflows'), engine);
+
+  assert.deepEqual(agencyIds, ['DLA_001', 'OPM_001']);
+  const workflow = engine.generateWorkflowForAgency('DLA_001', WorkflowCategory.PROCUREMENT);
+  assert.equal(workflow.workflowSteps[0].stepId, 'DLA_PROCUREMENT_001');
+});
+
+test('YAML values may contain colons and indicator characters', () => {
+  const loader = buildLoader();
+  const description = (line: string) =>
+    loader.parseConfiguration(yamlWithDescription(line), 'YAML').specificRules[0].description;
+
+  assert.equal(description('description: "quoted: > x"'), 'quoted: > x');
+  assert.equal(description("description: 'ends with |'"), 'ends with |');
+  assert.equal(description('description: > 250K goes to legal'), '> 250K goes to legal');
+  assert.equal(description('description: Review: legal & funds'), 'Review: legal & funds');
+  assert.equal(description('description: "*starred*" # comment'), '*starred*');
+});
+
+test('anchors, aliases, tags and block scalars are rejected at the field that uses them', () => {
+  const loader = buildLoader();
+  const issues = (line: string) => loader.validate(yamlWithDescription(line), 'YAML');
+
+  assert.deepEqual(issues('description: >'), [{
+    path: 'specificRules[0].description',
+    line: 6,
+    column: 18,
+    message: 'Block scalars are not supported in workflow definitions; use a quoted string'
+  }]);
+  assert.equal(issues('description: |-')[0].path, 'specificRules[0].description');
+  assert.match(issues('description: &text Shared')[0].message, /Anchors, aliases and tags are not supported/);
+  assert.match(issues('description: *text')[0].message, /Anchors, aliases and tags are not supported/);
+  assert.equal(issues('description: !!str tagged')[0].path, 'specificRules[0].description');
+});
+
+test('YAML structure errors carry the enclosing field path', () => {
+  const yaml = yamlWithDescription('description: Rule').replace(
+    '    automationPriority: 5',
+    '    automationPriority: 5\n    applicableWorkflows: [PROCUREMENT]'
+  );
+
+  assert.deepEqual(buildLoader().validate(yaml, 'YAML'), [{
+    path: 'specificRules[0].applicableWorkflows',
+    line: 9,
+    column: 5,
+    message: 'Duplicate field applicableWorkflows'
+  }]);
+});
+
+test('schema violations report path, line and column in JSON and YAML', () => {
+  const loader = buildLoader();
+  const json = JSON.stringify({
+    agencyId: 'TEST_001',
+    agencyName: 'Test Agency',
+    workflowType: 'PROCUREMENT',
+    specificRules: [{
+      ruleId: 'TEST_RULE_001',
+      description: 'Rule',
+      applicableWorkflows: ['PROCUREMENT'],
+      automationPriority: 11
+    }]
+  }, null, 2);
+
+  const [jsonIssue] = loader.validate(json, 'JSON');
+  assert.equal(jsonIssue.path, 'specificRules[0].automationPriority');
+  assert.equal(jsonIssue.line, 12);
+  assert.match(jsonIssue.message, /above the maximum of 10/);
+
+  const yaml = yamlWithDescription('description: Rule').replace('automationPriority: 5', 'automationPriority: high');
+  assert.throws(
+    () => loader.parseConfiguration(yaml, 'YAML', 'test.yaml'),
+    /test\.yaml:8:25 specificRules\[0\]\.automationPriority: Expected integer, found/
+  );
+});
+
+test('gateway targets and conditions are checked against the definition at load', () => {
+  const yaml = yamlWithDescription('description: Rule') + [
+    '    next:',
+    '      type: EXCLUSIVE',
+    '      conditions:',
+    '        - when:',
+    '            type: DATE_WINDOW',
+    '            field: awardDate',
+    '          goTo: TEST_RULE_001',
+    '      otherwise: MISSING_RULE',
+    ''
+  ].join('\n');
+
+  assert.deepEqual(buildLoader().validate(yaml, 'YAML').map(issue => [issue.path, issue.line]), [
+    ['specificRules[0].next.conditions[0].when', 13],
+    ['specificRules[0].next.otherwise', 16]
+  ]);
+});
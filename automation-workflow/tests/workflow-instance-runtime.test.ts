@@ -0,0 +1,363 @@
+import { test } from 'node:test';
+import { strict as assert } from 'node:assert';
+
+function step(stepId: string, overrides: Partial<WorkflowStepDefinition> = {}): WorkflowStepDefinition {
+  return {
+    stepId,
+    ruleId: stepId,
+    description: `${stepId} step`,
+    complianceChecks: [],
+    executionMode: 'HUMAN',
+    ...overrides
+  };
+}
+
+function definition(workflowSteps: WorkflowStepDefinition[]): AgencyWorkflowDefinition {
+  return { agencyId: 'TEST_001', workflowType: WorkflowCategory.PROCUREMENT, workflowSteps };
+}
+
+function buildRuntime() {
+  const approvals = new ApprovalChainManager();
+  approvals.assignRole('SPECIALIST-1', 'SPECIALIST');
+  return { approvals, runtime: new WorkflowInstanceRuntime(new AdaptiveWorkflowEngine(), approvals) };
+}
+
+test('only a holder of the assigned role can complete a human step', async () => {
+  const { runtime } = buildRuntime();
+  const started = await runtime.startFromDefinition(
+    definition([step('REVIEW', { assignedRole: 'SPECIALIST' })]),
+    'REQUESTER'
+  );
+
+  await assert.rejects(
+    runtime.completeHumanStep(started.instanceId, 'REVIEW', 'REQUESTER'),
+    /REQUESTER does not hold role SPECIALIST required to complete step REVIEW/
+  );
+  assert.equal(runtime.getInstance(started.instanceId).status, 'WAITING');
+
+  const completed = await runtime.completeHumanStep(started.instanceId, 'REVIEW', 'SPECIALIST-1');
+  assert.equal(completed.status, 'COMPLETED');
+  assert.equal(completed.steps[0].completedBy, 'SPECIALIST-1');
+});
+
+test('instances handed to callers are copies of the runtime state', async () => {
+  const { runtime } = buildRuntime();
+  const started = await runtime.startFromDefinition(definition([step('REVIEW')]), 'REQUESTER');
+
+  const copy = runtime.getInstance(started.instanceId);
+  copy.status = 'COMPLETED';
+  copy.activeStepIds.length = 0;
+  copy.data.injected = true;
+  started.steps[0].status = 'COMPLETED';
+
+  const current = runtime.getInstance(started.instanceId);
+  assert.equal(current.status, 'WAITING');
+  assert.deepEqual(current.activeStepIds, ['REVIEW']);
+  assert.equal(current.data.injected, undefined);
+  assert.equal(runtime.listInstances()[0].steps[0].status, 'WAITING');
+});
+
+test('a failed automated step is re-run when the instance is retried', async () => {
+  const { runtime } = buildRuntime();
+  runtime.registerStepHandler('post', context => {
+    if (!context.data.endpoint) throw new Error('No endpoint configured');
+    return { posted: true };
+  });
+
+  const failed = await runtime.startFromDefinition(
+    definition([step('POST', { executionMode: 'AUTOMATED', automationHandler: 'post' })]),
+    'REQUESTER'
+  );
+  assert.equal(failed.status, 'FAILED');
+  assert.deepEqual(failed.failure && [failed.failure.stepId, failed.failure.kind], ['POST', 'STEP_ERROR']);
+
+  const retried = await runtime.retryFailedInstance(failed.instanceId, 'OPERATOR', { endpoint: 'https://example.gov' });
+
+  assert.equal(retried.status, 'COMPLETED');
+  assert.equal(retried.failure, undefined);
+  assert.equal(retried.data.posted, true);
+  assert.ok(retried.history.some(event => event.event === 'INSTANCE_RETRIED' && event.actor === 'OPERATOR'));
+  await assert.rejects(runtime.retryFailedInstance(failed.instanceId, 'OPERATOR'), /has not failed/);
+});
+
+test('a routing failure is retried by routing again from the completed step', async () => {
+  const { runtime } = buildRuntime();
+  const failed = await runtime.startFromDefinition(definition([
+    step('TRIAGE', {
+      assignedRole: 'SPECIALIST',
+      next: {
+        type: 'EXCLUSIVE',
+        conditions: [{ when: { type: 'THRESHOLD', field: 'amount', operator: 'gt', value: 0 }, goTo: 'APPROVE' }]
+      }
+    }),
+    step('APPROVE', { assignedRole: 'SPECIALIST' })
+  ]), 'REQUESTER');
+
+  const routed = await runtime.completeHumanStep(failed.instanceId, 'TRIAGE', 'SPECIALIST-1', { amount: -5 });
+  assert.equal(routed.status, 'FAILED');
+  assert.equal(routed.failure?.kind, 'ROUTING');
+
+  const retried = await runtime.retryFailedInstance(failed.instanceId, 'OPERATOR', { amount: 5 });
+  assert.equal(retried.status, 'WAITING');
+  assert.deepEqual(retried.activeStepIds, ['APPROVE']);
+  assert.equal(retried.steps[0].status, 'COMPLETED');
+});
+
+const fundsCertified: ComplianceCheck = {
+  checkId: 'FUNDS_CERTIFIED',
+  description: 'Funds are certified before review',
+  severity: 'BLOCKING',
+  predicate: { type: 'REQUIRED_FIELDS', fields: ['fundsCertification'] }
+};
+
+test('only a holder of the waiver role can waive a compliance check', async () => {
+  const { approvals, runtime } = buildRuntime();
+  approvals.assignRole('OFFICER-1', 'COMPLIANCE_OFFICER');
+  approvals.assignRole('COUNSEL-1', 'ACQUISITION_COUNSEL');
+  const started = await runtime.startFromDefinition(definition([
+    step('CERTIFY', { complianceChecks: [fundsCertified, { ...fundsCertified, checkId: 'LEGAL_REVIEW', waiverRole: 'ACQUISITION_COUNSEL' }] })
+  ]), 'REQUESTER');
+  const waive = (checkId: string, waivedBy: string) =>
+    runtime.waiveComplianceCheck(started.instanceId, 'CERTIFY', checkId, waivedBy, 'Emergency acquisition');
+
+  assert.throws(() => waive('FUNDS_CERTIFIED', 'REQUESTER'),
+    /REQUESTER does not hold role COMPLIANCE_OFFICER required to waive FUNDS_CERTIFIED/);
+  assert.throws(() => waive('LEGAL_REVIEW', 'OFFICER-1'),
+    /OFFICER-1 does not hold role ACQUISITION_COUNSEL required to waive LEGAL_REVIEW/);
+
+  assert.equal(waive('FUNDS_CERTIFIED', 'OFFICER-1').execution, 1);
+  waive('LEGAL_REVIEW', 'COUNSEL-1');
+  const completed = await runtime.completeHumanStep(started.instanceId, 'CERTIFY', 'SPECIALIST-1');
+  assert.equal(completed.status, 'COMPLETED');
+  assert.deepEqual(completed.steps[0].complianceReport?.summary, { passed: 0, failed: 0, waived: 2 });
+  assert.throws(() => waive('FUNDS_CERTIFIED', 'OFFICER-1'), /Step CERTIFY of instance .* is not waiting or blocked/);
+});
+
+test('a waiver covers one execution of a step and lapses when a rework loop re-enters it', async () => {
+  const { approvals, runtime } = buildRuntime();
+  approvals.assignRole('OFFICER-1', 'COMPLIANCE_OFFICER');
+  const started = await runtime.startFromDefinition(definition([
+    step('CERTIFY', { complianceChecks: [fundsCertified], next: { type: 'GOTO', goTo: 'REVIEW' } }),
+    step('REVIEW', {
+      next: {
+        type: 'EXCLUSIVE',
+        conditions: [{ when: { type: 'THRESHOLD', field: 'rework', operator: 'eq', value: 1 }, goTo: 'CERTIFY' }],
+        otherwise: 'AWARD'
+      }
+    }),
+    step('AWARD')
+  ]), 'REQUESTER');
+  const { instanceId } = started;
+
+  const blocked = await runtime.completeHumanStep(instanceId, 'CERTIFY', 'SPECIALIST-1');
+  assert.deepEqual(blocked.activeStepIds, ['CERTIFY']);
+  runtime.waiveComplianceCheck(instanceId, 'CERTIFY', 'FUNDS_CERTIFIED', 'OFFICER-1', 'Continuing resolution');
+  await runtime.completeHumanStep(instanceId, 'CERTIFY', 'SPECIALIST-1');
+  const reworked = await runtime.completeHumanStep(instanceId, 'REVIEW', 'SPECIALIST-1', { rework: 1 });
+  assert.deepEqual(reworked.activeStepIds, ['CERTIFY']);
+
+  // The second pass through CERTIFY evaluates the check again
+  const reblocked = await runtime.completeHumanStep(instanceId, 'CERTIFY', 'SPECIALIST-1');
+  assert.deepEqual(reblocked.activeStepIds, ['CERTIFY']);
+  assert.equal(reblocked.steps[0].executions, 2);
+  assert.match(reblocked.steps[0].blockedReason!, /^FUNDS_CERTIFIED: /);
+
+  await runtime.completeHumanStep(instanceId, 'CERTIFY', 'SPECIALIST-1', { fundsCertification: 'FC-2026-118', rework: 0 });
+  const awarded = await runtime.completeHumanStep(instanceId, 'REVIEW', 'SPECIALIST-1');
+  assert.deepEqual(awarded.activeStepIds, ['AWARD']);
+  assert.deepEqual(awarded.waivers.map(waiver => [waiver.stepId, waiver.execution]), [['CERTIFY', 1]]);
+});
+
+test('retrying an instance that hit the execution limit grants a fresh budget without resetting the count', async () => {
+  const { runtime } = buildRuntime();
+  runtime.registerStepHandler('poll', () => ({}));
+
+  const failed = await runtime.startFromDefinition(definition([
+    step('POLL', { executionMode: 'AUTOMATED', automationHandler: 'poll', next: { type: 'GOTO', goTo: 'POLL' } })
+  ]), 'REQUESTER');
+  assert.equal(failed.failure?.kind, 'EXECUTION_LIMIT');
+  assert.equal(failed.failure?.reason, 'Step POLL exceeded 25 executions');
+  assert.equal(failed.steps[0].executions, 25);
+
+  const retried = await runtime.retryFailedInstance(failed.instanceId, 'OPERATOR');
+  assert.equal(retried.failure?.kind, 'EXECUTION_LIMIT');
+  assert.equal(retried.failure?.reason, 'Step POLL exceeded 50 executions');
+  assert.equal(retried.steps[0].executions, 50);
+});
+
+function parallelReview(financeNext: WorkflowTransition): AgencyWorkflowDefinition {
+  return definition([
+    step('INTAKE', { next: { type: 'PARALLEL', branches: ['LEGAL', 'FINANCE'], joinAt: 'AWARD' } }),
+    step('LEGAL', { next: { type: 'GOTO', goTo: 'AWARD' } }),
+    step('FINANCE', { next: financeNext }),
+    step('AWARD')
+  ]);
+}
+
+test('a parallel split runs its join step once every branch has arrived', async () => {
+  const { runtime } = buildRuntime();
+  const { instanceId } = await runtime.startFromDefinition(parallelReview({ type: 'GOTO', goTo: 'AWARD' }), 'REQUESTER');
+
+  const split = await runtime.completeHumanStep(instanceId, 'INTAKE', 'SPECIALIST-1');
+  assert.deepEqual(split.activeStepIds, ['LEGAL', 'FINANCE']);
+  assert.deepEqual(split.openJoins, { AWARD: { expected: 2, arrived: 0 } });
+
+  const halfway = await runtime.completeHumanStep(instanceId, 'FINANCE', 'SPECIALIST-1');
+  assert.deepEqual(halfway.activeStepIds, ['LEGAL']);
+  assert.equal(halfway.steps[3].status, 'PENDING');
+
+  const joined = await runtime.completeHumanStep(instanceId, 'LEGAL', 'SPECIALIST-1');
+  assert.deepEqual(joined.activeStepIds, ['AWARD']);
+  assert.deepEqual(joined.openJoins, {});
+  assert.equal(joined.steps[3].executions, 1);
+});
+
+test('a branch that ends before its join fails the instance without a retry path', async () => {
+  const { runtime } = buildRuntime();
+  const { instanceId } = await runtime.startFromDefinition(parallelReview({ type: 'END' }), 'REQUESTER');
+
+  await runtime.completeHumanStep(instanceId, 'INTAKE', 'SPECIALIST-1');
+  await runtime.completeHumanStep(instanceId, 'LEGAL', 'SPECIALIST-1');
+  const failed = await runtime.completeHumanStep(instanceId, 'FINANCE', 'SPECIALIST-1');
+
+  assert.equal(failed.status, 'FAILED');
+  assert.deepEqual([failed.failure?.kind, failed.failure?.reason], ['UNSATISFIED_JOIN', 'Joins never satisfied: AWARD']);
+  await assert.rejects(runtime.retryFailedInstance(instanceId, 'OPERATOR'), /cannot be retried/);
+});
+
+test('an exclusive gateway takes the first matching route, else its otherwise route', async () => {
+  const { runtime } = buildRuntime();
+  const gateway = definition([
+    step('TRIAGE', {
+      next: {
+        type: 'EXCLUSIVE',
+        conditions: [
+          { when: { type: 'THRESHOLD', field: 'amount', operator: 'gt', value: 250000 }, goTo: 'LEGAL' },
+          { when: { type: 'THRESHOLD', field: 'amount', operator: 'gt', value: 10000 }, goTo: 'CONTRACTING' }
+        ],
+        otherwise: 'PURCHASE_CARD'
+      }
+    }),
+    step('LEGAL', { next: { type: 'END' } }),
+    step('CONTRACTING', { next: { type: 'END' } }),
+    step('PURCHASE_CARD')
+  ]);
+  const routeFor = async (amount: number) => {
+    const { instanceId } = await runtime.startFromDefinition(gateway, 'REQUESTER', { amount });
+    return (await runtime.completeHumanStep(instanceId, 'TRIAGE', 'SPECIALIST-1')).activeStepIds;
+  };
+
+  assert.deepEqual(await routeFor(500000), ['LEGAL']);
+  assert.deepEqual(await routeFor(50000), ['CONTRACTING']);
+  assert.deepEqual(await routeFor(2500), ['PURCHASE_CARD']);
+});
+
+test('definitions with unreachable routes or malformed gateways are rejected before starting', async () => {
+  const { runtime } = buildRuntime();
+  const start = (steps: WorkflowStepDefinition[]) => runtime.startFromDefinition(definition(steps), 'REQUESTER');
+
+  await assert.rejects(start([step('A', { next: { type: 'GOTO', goTo: 'MISSING' } })]),
+    /Step A routes to MISSING, which is not part of the workflow/);
+  await assert.rejects(start([step('A', { next: { type: 'EXCLUSIVE', conditions: [] } })]),
+    /Exclusive gateway after A has no routes/);
+  await assert.rejects(start([step('A', { next: { type: 'PARALLEL', branches: ['B', 'B'], joinAt: 'C' } }), step('B'), step('C')]),
+    /Parallel split after A needs at least two distinct branches/);
+  await assert.rejects(start([step('A', { next: { type: 'PARALLEL', branches: ['B', 'C'], joinAt: 'C' } }), step('B'), step('C')]),
+    /Parallel split after A cannot join at one of its own branches/);
+  assert.equal(runtime.listInstances().length, 0);
+});
+
+const awardApproval: ApprovalChainDefinition = {
+  mode: 'SEQUENTIAL',
+  approvers: [{ type: 'PERSON', userId: 'CO-1' }, { type: 'PERSON', userId: 'ADVOCATE-1' }],
+  escalationPath: [],
+  slaHours: 24
+};
+
+test('a rejected approval fails the instance when no gateway routes the outcome', async () => {
+  const { runtime } = buildRuntime();
+  const { instanceId } = await runtime.startFromDefinition(definition([
+    step('AWARD_APPROVAL', { approval: awardApproval }),
+    step('AWARD_NOTICE')
+  ]), 'REQUESTER');
+
+  const rejected = await runtime.recordApprovalDecision(instanceId, 'AWARD_APPROVAL', 'CO-1', 'REJECTED', 'Price not fair and reasonable');
+
+  assert.equal(rejected.status, 'FAILED');
+  assert.deepEqual([rejected.failure?.stepId, rejected.failure?.kind], ['AWARD_APPROVAL', 'APPROVAL_REJECTED']);
+  assert.equal(rejected.failure?.reason, 'Approval chain APR-000001 was rejected by CO-1: Price not fair and reasonable');
+  assert.deepEqual([rejected.steps[0].status, rejected.steps[1].status], ['FAILED', 'PENDING']);
+  assert.deepEqual(rejected.activeStepIds, []);
+  await assert.rejects(runtime.retryFailedInstance(instanceId, 'OPERATOR'), /was rejected at step AWARD_APPROVAL and cannot be retried/);
+});
+
+test('a rejected approval follows the gateway route that reads the approval outcome', async () => {
+  const { runtime } = buildRuntime();
+  const { instanceId } = await runtime.startFromDefinition(definition([
+    step('REQUISITION'),
+    step('AWARD_APPROVAL', {
+      approval: awardApproval,
+      next: {
+        type: 'EXCLUSIVE',
+        conditions: [{
+          when: { type: 'THRESHOLD', field: 'approvals.AWARD_APPROVAL.approved', operator: 'eq', value: 0 },
+          goTo: 'REQUISITION'
+        }],
+        otherwise: 'AWARD_NOTICE'
+      }
+    }),
+    step('AWARD_NOTICE')
+  ]), 'REQUESTER');
+
+  await runtime.completeHumanStep(instanceId, 'REQUISITION', 'SPECIALIST-1');
+  await runtime.recordApprovalDecision(instanceId, 'AWARD_APPROVAL', 'CO-1', 'APPROVED');
+  const returned = await runtime.recordApprovalDecision(instanceId, 'AWARD_APPROVAL', 'ADVOCATE-1', 'REJECTED');
+
+  assert.equal(returned.status, 'WAITING');
+  assert.deepEqual(returned.activeStepIds, ['REQUISITION']);
+  assert.deepEqual(returned.data.approvals, { AWARD_APPROVAL: { chainId: 'APR-000001', approved: 0 } });
+});
+
+test('an approval outcome survives a compliance check that blocks the step', async () => {
+  const { runtime } = buildRuntime();
+  const start = () => runtime.startFromDefinition(definition([
+    step('REQUISITION'),
+    step('AWARD_APPROVAL', {
+      approval: { ...awardApproval, approvers: [{ type: 'PERSON', userId: 'CO-1' }] },
+      complianceChecks: [fundsCertified],
+      next: {
+        type: 'EXCLUSIVE',
+        conditions: [{
+          when: { type: 'THRESHOLD', field: 'approvals.AWARD_APPROVAL.approved', operator: 'eq', value: 0 },
+          goTo: 'REQUISITION'
+        }],
+        otherwise: 'AWARD_NOTICE'
+      }
+    }),
+    step('AWARD_NOTICE')
+  ]), 'REQUESTER');
+
+  // The rejection is held while funds certification is outstanding, then routes the step back
+  const rejectedRun = await start();
+  await runtime.completeHumanStep(rejectedRun.instanceId, 'REQUISITION', 'SPECIALIST-1');
+  const blocked = await runtime.recordApprovalDecision(rejectedRun.instanceId, 'AWARD_APPROVAL', 'CO-1', 'REJECTED');
+  assert.deepEqual(blocked.activeStepIds, ['AWARD_APPROVAL']);
+  assert.match(blocked.steps[1].blockedReason!, /^FUNDS_CERTIFIED: /);
+  assert.deepEqual(blocked.data.approvals, { AWARD_APPROVAL: { chainId: 'APR-000001', approved: 0 } });
+
+  const returned = await runtime.completeHumanStep(rejectedRun.instanceId, 'AWARD_APPROVAL', 'SPECIALIST-1', {
+    fundsCertification: 'FC-2026-204'
+  });
+  assert.deepEqual(returned.activeStepIds, ['REQUISITION']);
+  assert.equal(returned.steps[2].status, 'PENDING');
+
+  // An approval blocked the same way still proceeds to the award notice
+  const approvedRun = await start();
+  await runtime.completeHumanStep(approvedRun.instanceId, 'REQUISITION', 'SPECIALIST-1');
+  await runtime.recordApprovalDecision(approvedRun.instanceId, 'AWARD_APPROVAL', 'CO-1', 'APPROVED');
+  const approved = await runtime.completeHumanStep(approvedRun.instanceId, 'AWARD_APPROVAL', 'SPECIALIST-1', {
+    fundsCertification: 'FC-2026-205'
+  });
+  assert.deepEqual(approved.activeStepIds, ['AWARD_NOTICE']);
+  assert.deepEqual(approved.data.approvals, { AWARD_APPROVAL: { chainId: 'APR-000002', approved: 1 } });
+});
@@ -0,0 +1,100 @@
+// Total Evaluated Price Across CLIN Contract Types and Option Periods
+
+class TotalEvaluatedPriceCalculator {
+  // Evaluated amount of a single line item, before escalation
+  private static LINE_ITEM_PRICERS: Record<ClinContractType, (item: ContractLineItem) => number> = {
+    FFP: item => item.quantity * item.unitPrice,
+    // Hours at the fully burdened rate plus materials at cost
+    T_AND_M: item => item.quantity * item.unitPrice + (item.materialsCost || 0),
+    // Estimated cost plus the fixed fee
+    COST_PLUS_FIXED_FEE: item => (item.estimatedCost || 0) * (1 + (item.feeRate || 0))
+  };
+
+  // Every bid is priced by the same rules: line items, escalation by period, options included
+  calculate(bid: VendorBid, solicitation: BidSolicitation): TotalEvaluatedPrice {
+    const pricing = bid.pricing;
+    const lineItems = this.calculateLineItems(pricing.lineItems, solicitation, pricing.escalationRate || 0);
+
+    const counted = lineItems.filter(item => item.included);
+    const periodTotals = new Map<number, number>();
+    counted.forEach(item => periodTotals.set(item.period, (periodTotals.get(item.period) || 0) + item.evaluatedAmount));
+
+    const byContractType = {} as Record<ClinContractType, number>;
+    counted.forEach(item => {
+      byContractType[item.contractType] = (byContractType[item.contractType] || 0) + item.evaluatedAmount;
+    });
+
+    const total = counted.reduce((sum, item) => sum + item.evaluatedAmount, 0);
+
+    return {
+      vendorId: bid.vendorId,
+      total,
+      basePeriodTotal: periodTotals.get(0) || 0,
+      optionPeriodTotals: [...periodTotals.entries()]
+        .filter(([period]) => period > 0)
+        .sort(([a], [b]) => a - b)
+        .map(([period, amount]) => ({ period, amount })),
+      byContractType,
+      lineItems,
+      statedTotal: pricing.totalCost,
+      statedTotalDiscrepancy: pricing.totalCost - total
+    };
+  }
+
+  // Evaluated amount of each line item, also used for government estimates priced the same way
+  calculateLineItems(
+    lineItems: ContractLineItem[],
+    solicitation: BidSolicitation,
+    escalationRate: number = 0
+  ): EvaluatedLineItem[] {
+    const evaluateOptions = solicitation.evaluateOptions !== false;
+    const maxPeriod = solicitation.optionPeriods ?? Infinity;
+
+    return lineItems.map(item => {
+      const contractType = item.contractType || 'FFP';
+      this.validateLineItem(item, contractType);
+
+      const included = item.period === 0 || (evaluateOptions && item.period <= maxPeriod);
+      const escalationFactor = Math.pow(1 + escalationRate, item.period);
+      const evaluatedAmount = TotalEvaluatedPriceCalculator.LINE_ITEM_PRICERS[contractType](item) * escalationFactor;
+
+      return { clin: item.clin, period: item.period, contractType, escalationFactor, evaluatedAmount, included };
+    });
+  }
+
+  private validateLineItem(item: ContractLineItem, contractType: ClinContractType) {
+    if (!(contractType in TotalEvaluatedPriceCalculator.LINE_ITEM_PRICERS)) {
+      throw new Error(`CLIN ${item.clin} has unknown contract type ${contractType}`);
+    }
+    if (!Number.isInteger(item.period) || item.period < 0) {
+      throw new Error(`CLIN ${item.clin} has invalid period ${item.period}`);
+    }
+    if (contractType === 'COST_PLUS_FIXED_FEE' && (item.estimatedCost === undefined || !(item.estimatedCost >= 0))) {
+      throw new Error(`Cost-plus CLIN ${item.clin} requires an estimated cost`);
+    }
+    if (contractType !== 'COST_PLUS_FIXED_FEE' && (item.quantity < 0 || item.unitPrice < 0)) {
+      throw new Error(`CLIN ${item.clin} has a negative quantity or unit price`);
+    }
+  }
+}
+
+// Type Definitions
+interface TotalEvaluatedPrice {
+  vendorId: string;
+  total: number;
+  basePeriodTotal: number;
+  optionPeriodTotals: { period: number; amount: number }[];
+  byContractType: Record<ClinContractType, number>;
+  lineItems: EvaluatedLineItem[];
+  statedTotal: number;             // Total the vendor entered, kept for reference only
+  statedTotalDiscrepancy: number;  // Stated total minus evaluated total
+}
+
+interface EvaluatedLineItem {
+  clin: string;
+  period: number;
+  contractType: ClinContractType;
+  escalationFactor: number;
+  evaluatedAmount: number;
+  included: boolean;  // False for option periods the solicitation does not evaluate
+}
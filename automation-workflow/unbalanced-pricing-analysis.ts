@@ -0,0 +1,232 @@
+// Unbalanced Pricing and Price Realism Detection on CLIN Line Items
+
+class UnbalancedPricingAnalyzer {
+  // Ratios against the IGCE or peer median that trigger a flag
+  private static THRESHOLDS = {
+    UNDERPRICED_RATIO: 0.5,         // Line item below half its benchmark
+    OVERPRICED_RATIO: 1.5,          // Line item above 150% of its benchmark
+    FRONT_LOADING_SHARE_DELTA: 0.15, // Base-period share exceeds the IGCE's by 15 points
+    PRICE_REALISM_RATIO: 0.7        // Total below 70% of the IGCE or peer median
+  };
+
+  private priceCalculator = new TotalEvaluatedPriceCalculator();
+
+  // Compare every bid's evaluated CLIN amounts against the IGCE and the other bids
+  analyze(
+    solicitation: BidSolicitation,
+    bids: VendorBid[],
+    governmentEstimate: IndependentGovernmentCostEstimate
+  ): PriceAnalysisReport {
+    if (governmentEstimate.solicitationId !== solicitation.id) {
+      throw new Error(
+        `Cost estimate is for solicitation ${governmentEstimate.solicitationId}, not ${solicitation.id}`
+      );
+    }
+
+    const estimateItems = this.priceCalculator.calculateLineItems(governmentEstimate.lineItems, solicitation);
+    const estimateTotal = this.sumIncluded(estimateItems);
+    const estimateBaseShare = this.basePeriodShare(estimateItems);
+
+    // Bids whose CLINs cannot be priced are reported instead of aborting the analysis
+    const unpricedBids: { vendorId: string; reason: string }[] = [];
+    const priced: { vendorId: string; lineItems: EvaluatedLineItem[] }[] = [];
+    bids.forEach(bid => {
+      try {
+        priced.push({ vendorId: bid.vendorId, lineItems: this.priceCalculator.calculate(bid, solicitation).lineItems });
+      } catch (error) {
+        unpricedBids.push({ vendorId: bid.vendorId, reason: (error as Error).message });
+      }
+    });
+
+    const bidAnalyses = priced.map(bid => {
+      const peers = priced.filter(other => other.vendorId !== bid.vendorId);
+      const flags: PriceAnalysisFlag[] = [
+        ...this.checkLineItems(bid.lineItems, peers.map(peer => peer.lineItems), estimateItems),
+        ...this.checkFrontLoading(bid.lineItems, estimateBaseShare),
+        ...this.checkPriceRealism(bid.lineItems, peers.map(peer => peer.lineItems), estimateTotal)
+      ];
+
+      const hasUnderpriced = flags.some(flag => flag.flagType === 'UNDERPRICED_LINE_ITEM');
+      const hasOverpriced = flags.some(flag => flag.flagType === 'OVERPRICED_LINE_ITEM');
+      const frontLoaded = flags.some(flag => flag.flagType === 'FRONT_LOADED');
+
+      return {
+        vendorId: bid.vendorId,
+        lineItemTotal: this.sumIncluded(bid.lineItems),
+        flags,
+        // Offsetting over- and under-pricing, or front-loading, is unbalanced pricing
+        unbalanced: (hasUnderpriced && hasOverpriced) || frontLoaded,
+        requiresPriceRealismReview: flags.some(flag => flag.flagType === 'PRICE_REALISM_REVIEW')
+      };
+    });
+
+    return {
+      solicitationId: solicitation.id,
+      governmentEstimateTotal: estimateTotal,
+      bids: bidAnalyses,
+      unpricedBids,
+      generatedAt: new Date()
+    };
+  }
+
+  // Per-CLIN comparison against the IGCE and the peer median evaluated amount
+  private checkLineItems(
+    lineItems: EvaluatedLineItem[],
+    peers: EvaluatedLineItem[][],
+    estimateItems: EvaluatedLineItem[]
+  ): PriceAnalysisFlag[] {
+    const { UNDERPRICED_RATIO, OVERPRICED_RATIO } = UnbalancedPricingAnalyzer.THRESHOLDS;
+    const flags: PriceAnalysisFlag[] = [];
+
+    lineItems.forEach(item => {
+      const benchmarks: { source: BenchmarkSource; amount: number }[] = [];
+
+      const estimateItem = estimateItems.find(entry => entry.clin === item.clin);
+      if (estimateItem) {
+        benchmarks.push({ source: 'IGCE', amount: estimateItem.evaluatedAmount });
+      }
+
+      const peerAmounts = peers
+        .map(peerItems => peerItems.find(entry => entry.clin === item.clin))
+        .filter(Boolean)
+        .map(entry => entry!.evaluatedAmount);
+      if (peerAmounts.length > 0) {
+        benchmarks.push({ source: 'PEER_MEDIAN', amount: this.median(peerAmounts) });
+      }
+
+      benchmarks.forEach(({ source, amount }) => {
+        if (amount <= 0) return;
+        const ratio = item.evaluatedAmount / amount;
+
+        if (ratio < UNDERPRICED_RATIO || ratio > OVERPRICED_RATIO) {
+          const underpriced = ratio < UNDERPRICED_RATIO;
+          flags.push({
+            flagType: underpriced ? 'UNDERPRICED_LINE_ITEM' : 'OVERPRICED_LINE_ITEM',
+            clin: item.clin,
+            observed: item.evaluatedAmount,
+            benchmark: amount,
+            benchmarkSource: source,
+            message: `CLIN ${item.clin} evaluated amount ${item.evaluatedAmount} is ${(ratio * 100).toFixed(0)}% ` +
+              `of the ${source === 'IGCE' ? 'government estimate' : 'median of other bids'} (${amount})`
+          });
+        }
+      });
+    });
+
+    return flags;
+  }
+
+  // Base-period share of the bid versus the IGCE's base-period share
+  private checkFrontLoading(lineItems: EvaluatedLineItem[], estimateBaseShare: number): PriceAnalysisFlag[] {
+    const bidBaseShare = this.basePeriodShare(lineItems);
+    const delta = bidBaseShare - estimateBaseShare;
+
+    if (delta <= UnbalancedPricingAnalyzer.THRESHOLDS.FRONT_LOADING_SHARE_DELTA) {
+      return [];
+    }
+
+    return [{
+      flagType: 'FRONT_LOADED',
+      observed: bidBaseShare,
+      benchmark: estimateBaseShare,
+      benchmarkSource: 'IGCE',
+      message: `Base period carries ${(bidBaseShare * 100).toFixed(1)}% of the bid total versus ` +
+        `${(estimateBaseShare * 100).toFixed(1)}% in the government estimate`
+    }];
+  }
+
+  // Unrealistically low totals are referred for a price-realism review
+  private checkPriceRealism(
+    lineItems: EvaluatedLineItem[],
+    peers: EvaluatedLineItem[][],
+    estimateTotal: number
+  ): PriceAnalysisFlag[] {
+    const ratio = UnbalancedPricingAnalyzer.THRESHOLDS.PRICE_REALISM_RATIO;
+    const bidTotal = this.sumIncluded(lineItems);
+    const flags: PriceAnalysisFlag[] = [];
+
+    const benchmarks: { source: BenchmarkSource; total: number }[] = [
+      { source: 'IGCE', total: estimateTotal }
+    ];
+    if (peers.length > 0) {
+      benchmarks.push({
+        source: 'PEER_MEDIAN',
+        total: this.median(peers.map(peerItems => this.sumIncluded(peerItems)))
+      });
+    }
+
+    benchmarks.forEach(({ source, total }) => {
+      if (total > 0 && bidTotal < total * ratio) {
+        flags.push({
+          flagType: 'PRICE_REALISM_REVIEW',
+          observed: bidTotal,
+          benchmark: total,
+          benchmarkSource: source,
+          message: `Total evaluated price ${bidTotal} is ${((bidTotal / total) * 100).toFixed(0)}% of the ` +
+            `${source === 'IGCE' ? 'government estimate' : 'median of other bids'} (${total})`
+        });
+      }
+    });
+
+    return flags;
+  }
+
+  private basePeriodShare(lineItems: EvaluatedLineItem[]): number {
+    const total = this.sumIncluded(lineItems);
+    if (total === 0) return 0;
+    return this.sumIncluded(lineItems.filter(item => item.period === 0)) / total;
+  }
+
+  // Total over the periods the solicitation evaluates, as in the total evaluated price
+  private sumIncluded(lineItems: EvaluatedLineItem[]): number {
+    return lineItems.filter(item => item.included).reduce((sum, item) => sum + item.evaluatedAmount, 0);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
+
+// Type Definitions
+type BenchmarkSource = 'IGCE' | 'PEER_MEDIAN';
+
+type PriceAnalysisFlagType =
+  'UNDERPRICED_LINE_ITEM' |
+  'OVERPRICED_LINE_ITEM' |
+  'FRONT_LOADED' |
+  'PRICE_REALISM_REVIEW';
+
+// Independent government cost estimate, priced on the same CLIN structure as the bids
+interface IndependentGovernmentCostEstimate {
+  solicitationId: string;
+  preparedBy: string;
+  preparedOn: Date;
+  lineItems: ContractLineItem[];
+}
+
+interface PriceAnalysisFlag {
+  flagType: PriceAnalysisFlagType;
+  clin?: string;
+  observed: number;
+  benchmark: number;
+  benchmarkSource: BenchmarkSource;
+  message: string;
+}
+
+interface BidPriceAnalysis {
+  vendorId: string;
+  lineItemTotal: number;  // Total evaluated price
+  flags: PriceAnalysisFlag[];
+  unbalanced: boolean;
+  requiresPriceRealismReview: boolean;
+}
+
+interface PriceAnalysisReport {
+  solicitationId: string;
+  governmentEstimateTotal: number;
+  bids: BidPriceAnalysis[];
+  unpricedBids: { vendorId: string; reason: string }[];  // Bids whose CLINs could not be priced
+  generatedAt: Date;
+}
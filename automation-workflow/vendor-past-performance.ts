@@ -0,0 +1,235 @@
+// Vendor Past-Performance History Store
+
+class PastPerformanceRepository {
+  // Score assigned to vendors with no relevant history (neither favorable nor unfavorable)
+  static NEUTRAL_RELIABILITY_SCORE = 50;
+
+  // A record's influence halves every three years
+  private static RECENCY_HALF_LIFE_YEARS = 3;
+
+  // Penalty applied per dispute on a contract, capped per record
+  private static DISPUTE_PENALTY = { PER_DISPUTE: 10, MAX: 30 };
+
+  private static CSV_COLUMNS = [
+    'vendorId',
+    'contractNumber',
+    'agencyName',
+    'contractValue',
+    'completedOn',
+    'onTimeDeliveryRate',
+    'qualityRating',
+    'terminatedForDefault',
+    'disputeCount'
+  ];
+
+  private recordsByVendor: Map<string, PastPerformanceRecord[]> = new Map();
+
+  addRecord(record: PastPerformanceRecord) {
+    this.addRecords([record]);
+  }
+
+  // All-or-nothing: every record is validated before any is stored
+  addRecords(records: PastPerformanceRecord[]) {
+    records.forEach(record => this.validateRecord(record));
+
+    records.forEach(record => {
+      const vendorRecords = this.recordsByVendor.get(record.vendorId) || [];
+      vendorRecords.push(record);
+      this.recordsByVendor.set(record.vendorId, vendorRecords);
+    });
+  }
+
+  getRecords(vendorId: string): PastPerformanceRecord[] {
+    return [...(this.recordsByVendor.get(vendorId) || [])];
+  }
+
+  // Local File Import (.json or .csv)
+  async loadFromFile(filePath: string): Promise<number> {
+    const contents = await nodeFs.promises.readFile(filePath, 'utf8');
+
+    if (filePath.toLowerCase().endsWith('.csv')) return this.importCsv(contents);
+    if (filePath.toLowerCase().endsWith('.json')) return this.importJson(contents);
+
+    throw new Error(`Unsupported past-performance file type: ${filePath}`);
+  }
+
+  // JSON array of records; dates as ISO strings
+  importJson(contents: string): number {
+    const rows = JSON.parse(contents);
+    if (!Array.isArray(rows)) {
+      throw new Error('Past-performance JSON import must be an array of records');
+    }
+
+    const records = rows.map((row, index) => {
+      const record = { ...row, completedOn: new Date(row.completedOn) };
+      try {
+        this.validateRecord(record);
+      } catch (error) {
+        throw new Error(`Past-performance JSON record ${index + 1}: ${(error as Error).message}`);
+      }
+      return record;
+    });
+
+    this.addRecords(records);
+    return records.length;
+  }
+
+  // CSV with a header row naming the record fields
+  importCsv(contents: string): number {
+    const [headerLine, ...dataLines] = contents.split(/\r?\n/).filter(line => line.trim());
+    const headers = this.parseCsvLine(headerLine || '');
+
+    const missingColumns = PastPerformanceRepository.CSV_COLUMNS.filter(column => !headers.includes(column));
+    if (missingColumns.length > 0) {
+      throw new Error(`Past-performance CSV is missing columns: ${missingColumns.join(', ')}`);
+    }
+
+    // Every row is parsed and validated before any is stored, so a bad row loads nothing
+    const records = dataLines.map((line, index) => {
+      const values = this.parseCsvLine(line);
+      const row: Record<string, string> = {};
+      headers.forEach((header, column) => { row[header] = values[column]; });
+
+      try {
+        const record: PastPerformanceRecord = {
+          vendorId: row.vendorId,
+          contractNumber: row.contractNumber,
+          agencyName: row.agencyName,
+          contractValue: Number(row.contractValue),
+          completedOn: new Date(row.completedOn),
+          onTimeDeliveryRate: Number(row.onTimeDeliveryRate),
+          qualityRating: Number(row.qualityRating),
+          terminatedForDefault: (row.terminatedForDefault || '').toLowerCase() === 'true',
+          disputeCount: Number(row.disputeCount)
+        };
+        this.validateRecord(record);
+        return record;
+      } catch (error) {
+        throw new Error(`Past-performance CSV row ${index + 2}: ${(error as Error).message}`);
+      }
+    });
+
+    this.addRecords(records);
+    return records.length;
+  }
+
+  // Recency-Weighted Reliability Score (0-100)
+  calculateReliabilityScore(vendorId: string, asOf: Date = new Date()): number {
+    return this.assessReliability(vendorId, asOf).score;
+  }
+
+  // Reliability score plus the record totals it was derived from
+  assessReliability(vendorId: string, asOf: Date = new Date()): ReliabilityAssessment {
+    const records = this.getRecords(vendorId).filter(record => record.completedOn <= asOf);
+    if (records.length === 0) {
+      return {
+        score: PastPerformanceRepository.NEUTRAL_RELIABILITY_SCORE,
+        recordCount: 0,
+        terminationsForDefault: 0,
+        disputeCount: 0,
+        averageOnTimeDeliveryRate: 0,
+        averageQualityRating: 0
+      };
+    }
+
+    let weightedScore = 0;
+    let totalWeight = 0;
+
+    records.forEach(record => {
+      const ageYears = (asOf.getTime() - record.completedOn.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+      const weight = Math.pow(0.5, ageYears / PastPerformanceRepository.RECENCY_HALF_LIFE_YEARS);
+
+      weightedScore += this.scoreRecord(record) * weight;
+      totalWeight += weight;
+    });
+
+    return {
+      score: weightedScore / totalWeight,
+      recordCount: records.length,
+      terminationsForDefault: records.filter(record => record.terminatedForDefault).length,
+      disputeCount: records.reduce((sum, record) => sum + record.disputeCount, 0),
+      averageOnTimeDeliveryRate:
+        records.reduce((sum, record) => sum + record.onTimeDeliveryRate, 0) / records.length,
+      averageQualityRating: records.reduce((sum, record) => sum + record.qualityRating, 0) / records.length
+    };
+  }
+
+  // Single contract: delivery and quality, less dispute penalties; default terminations score zero
+  private scoreRecord(record: PastPerformanceRecord): number {
+    if (record.terminatedForDefault) return 0;
+
+    const deliveryScore = record.onTimeDeliveryRate * 50;
+    const qualityScore = ((record.qualityRating - 1) / 4) * 50;
+    const disputePenalty = Math.min(
+      record.disputeCount * PastPerformanceRepository.DISPUTE_PENALTY.PER_DISPUTE,
+      PastPerformanceRepository.DISPUTE_PENALTY.MAX
+    );
+
+    return Math.max(0, deliveryScore + qualityScore - disputePenalty);
+  }
+
+  private validateRecord(record: PastPerformanceRecord) {
+    if (!record.vendorId || !record.contractNumber) {
+      throw new Error('Past-performance record requires vendorId and contractNumber');
+    }
+    if (isNaN(record.completedOn.getTime())) {
+      throw new Error(`Invalid completion date for contract ${record.contractNumber}`);
+    }
+    if (!(record.onTimeDeliveryRate >= 0 && record.onTimeDeliveryRate <= 1)) {
+      throw new Error(`On-time delivery rate for contract ${record.contractNumber} must be between 0 and 1`);
+    }
+    if (!(record.qualityRating >= 1 && record.qualityRating <= 5)) {
+      throw new Error(`Quality rating for contract ${record.contractNumber} must be between 1 and 5`);
+    }
+    if (!(record.disputeCount >= 0)) {
+      throw new Error(`Dispute count for contract ${record.contractNumber} must be zero or more`);
+    }
+  }
+
+  // Minimal CSV field splitting with double-quote escaping
+  private parseCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted && char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === ',' && !quoted) {
+        fields.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current.trim());
+
+    return fields;
+  }
+}
+
+// Type Definitions
+interface PastPerformanceRecord {
+  vendorId: string;
+  contractNumber: string;
+  agencyName: string;
+  contractValue: number;
+  completedOn: Date;
+  onTimeDeliveryRate: number;    // 0-1 share of deliveries made on schedule
+  qualityRating: number;         // CPARS-style 1 (Unsatisfactory) to 5 (Exceptional)
+  terminatedForDefault: boolean;
+  disputeCount: number;
+}
+
+interface ReliabilityAssessment {
+  score: number;
+  recordCount: number;
+  terminationsForDefault: number;
+  disputeCount: number;
+  averageOnTimeDeliveryRate: number;
+  averageQualityRating: number;
+}
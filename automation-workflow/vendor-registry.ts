@@ -0,0 +1,221 @@
+// Vendor Registry with Identifier Validation and Exclusion Screening
+
+class VendorRegistry {
+  // UEI and CAGE alphabets omit I and O to avoid confusion with 1 and 0
+  private static UEI_PATTERN = /^[1-9A-HJ-NP-Z][0-9A-HJ-NP-Z]{11}$/;
+  private static CAGE_PATTERN = /^[0-9A-HJ-NP-Z]{5}$/;
+  private static NAICS_PATTERN = /^\d{6}$/;
+
+  // Two-digit NAICS sectors (2022 edition)
+  private static NAICS_SECTORS = new Set([
+    '11', '21', '22', '23', '31', '32', '33', '42', '44', '45', '48', '49',
+    '51', '52', '53', '54', '55', '56', '61', '62', '71', '72', '81', '92'
+  ]);
+
+  private vendors: Map<string, VendorProfile> = new Map();
+  private exclusions: ExcludedPartyRecord[] = [];
+
+  // Registration rejects malformed identifiers outright
+  registerVendor(profile: VendorProfile) {
+    const errors = this.validateIdentifiers(profile);
+    if (errors.length > 0) {
+      throw new Error(`Vendor ${profile.vendorId} has invalid registration data: ${errors.join('; ')}`);
+    }
+
+    this.vendors.set(profile.vendorId, {
+      ...profile,
+      naicsCodes: [...profile.naicsCodes],
+      certifications: [...profile.certifications]
+    });
+  }
+
+  getVendor(vendorId: string): VendorProfile | undefined {
+    return this.vendors.get(vendorId);
+  }
+
+  // Vendors holding an active certification, e.g. for set-aside competitions
+  findByCertification(type: CertificationType, asOf: Date = new Date()): VendorProfile[] {
+    return [...this.vendors.values()].filter(vendor =>
+      this.activeCertifications(vendor, asOf).includes(type)
+    );
+  }
+
+  findByNaics(naicsCode: string): VendorProfile[] {
+    return [...this.vendors.values()].filter(vendor => vendor.naicsCodes.includes(naicsCode));
+  }
+
+  // Excluded-Parties List Import (local .json file)
+  async loadExclusionList(filePath: string): Promise<number> {
+    const contents = await nodeFs.promises.readFile(filePath, 'utf8');
+
+    if (filePath.toLowerCase().endsWith('.json')) return this.importExclusionsJson(contents);
+
+    throw new Error(`Unsupported exclusion list file type: ${filePath}`);
+  }
+
+  // JSON array of exclusion records; dates as ISO strings. Replaces the current list.
+  importExclusionsJson(contents: string): number {
+    const rows = JSON.parse(contents);
+    if (!Array.isArray(rows)) {
+      throw new Error('Exclusion list JSON import must be an array of records');
+    }
+
+    this.exclusions = rows.map((row, index) => {
+      if (!row.name || !row.activeDate) {
+        throw new Error(`Exclusion record ${index + 1} requires a name and activeDate`);
+      }
+
+      // An unreadable date would leave the exclusion silently inactive, so the whole import is refused
+      const parseDate = (field: 'activeDate' | 'terminationDate') => {
+        const value = new Date(row[field]);
+        if (Number.isNaN(value.getTime())) {
+          throw new Error(`Exclusion record ${index + 1} has an unparseable ${field}: ${JSON.stringify(row[field])}`);
+        }
+        return value;
+      };
+      return {
+        ...row,
+        uei: row.uei ? String(row.uei).toUpperCase() : undefined,
+        cageCode: row.cageCode ? String(row.cageCode).toUpperCase() : undefined,
+        activeDate: parseDate('activeDate'),
+        terminationDate: row.terminationDate ? parseDate('terminationDate') : undefined
+      };
+    });
+    return this.exclusions.length;
+  }
+
+  // Active exclusions matching the vendor by UEI or CAGE code; records without either fall back to legal name
+  findExclusions(profile: VendorProfile, asOf: Date = new Date()): ExcludedPartyRecord[] {
+    const legalName = this.normalizeName(profile.legalName);
+
+    return this.exclusions.filter(record => {
+      const active = record.activeDate.getTime() <= asOf.getTime() &&
+        (!record.terminationDate || record.terminationDate.getTime() > asOf.getTime());
+      const matches = record.uei || record.cageCode
+        ? (record.uei === profile.uei.toUpperCase() || record.cageCode === profile.cageCode.toUpperCase())
+        : this.normalizeName(record.name) === legalName;
+      return active && matches;
+    });
+  }
+
+  // Full Vendor Validation: identifiers, registration expiry and exclusions
+  validateVendor(profile: VendorProfile, asOf: Date = new Date()): VendorValidationResult {
+    const identifierErrors = this.validateIdentifiers(profile);
+    const registrationExpired = profile.registrationExpiresOn.getTime() <= asOf.getTime();
+    const exclusions = this.findExclusions(profile, asOf);
+
+    const blockingReasons = [
+      ...identifierErrors,
+      ...(registrationExpired
+        ? [`Registration expired on ${profile.registrationExpiresOn.toISOString().slice(0, 10)}`]
+        : []),
+      ...exclusions.map(record => `Listed as excluded party (${record.exclusionType}) since ${
+        record.activeDate.toISOString().slice(0, 10)}`)
+    ];
+
+    return {
+      vendorId: profile.vendorId,
+      eligible: blockingReasons.length === 0,
+      identifierErrors,
+      registrationExpired,
+      exclusions,
+      activeCertifications: this.activeCertifications(profile, asOf),
+      blockingReasons
+    };
+  }
+
+  // Bid eligibility of a registered vendor; unregistered vendors are ineligible
+  checkBidEligibility(vendorId: string, asOf: Date = new Date()): VendorValidationResult {
+    const profile = this.vendors.get(vendorId);
+    if (!profile) {
+      return {
+        vendorId,
+        eligible: false,
+        identifierErrors: [],
+        registrationExpired: false,
+        exclusions: [],
+        activeCertifications: [],
+        blockingReasons: [`Vendor ${vendorId} is not registered`]
+      };
+    }
+    return this.validateVendor(profile, asOf);
+  }
+
+  // UEI: 12 characters, no leading zero. The check character algorithm is not published, so only the format is validated.
+  isValidUei(uei: string): boolean {
+    return VendorRegistry.UEI_PATTERN.test((uei || '').toUpperCase());
+  }
+
+  isValidCageCode(cageCode: string): boolean {
+    return VendorRegistry.CAGE_PATTERN.test((cageCode || '').toUpperCase());
+  }
+
+  isValidNaicsCode(naicsCode: string): boolean {
+    return VendorRegistry.NAICS_PATTERN.test(naicsCode) &&
+      VendorRegistry.NAICS_SECTORS.has(naicsCode.slice(0, 2));
+  }
+
+  private validateIdentifiers(profile: VendorProfile): string[] {
+    const errors: string[] = [];
+
+    if (!this.isValidUei(profile.uei)) {
+      errors.push(`UEI ${profile.uei} is malformed`);
+    }
+    if (!this.isValidCageCode(profile.cageCode)) {
+      errors.push(`CAGE code ${profile.cageCode} is malformed`);
+    }
+    if (profile.naicsCodes.length === 0) {
+      errors.push('At least one NAICS code is required');
+    }
+    profile.naicsCodes
+      .filter(code => !this.isValidNaicsCode(code))
+      .forEach(code => errors.push(`NAICS code ${code} is not a valid 6-digit code`));
+
+    return errors;
+  }
+
+  private activeCertifications(profile: VendorProfile, asOf: Date): CertificationType[] {
+    return profile.certifications
+      .filter(certification => !certification.expiresOn || certification.expiresOn.getTime() > asOf.getTime())
+      .map(certification => certification.type);
+  }
+
+  // Case, punctuation and spacing only; entity suffixes distinguish otherwise identical names
+  private normalizeName(name: string): string {
+    return (name || '')
+      .toUpperCase()
+      .replace(/[^A-Z0-9 ]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+// Type Definitions
+type CertificationType = 'SMALL_BUSINESS' | '8A' | 'HUBZONE' | 'SDVOSB' | 'WOSB';
+
+interface SocioEconomicCertification {
+  type: CertificationType;
+  certifiedOn: Date;
+  expiresOn?: Date;  // Self-certified small business status carries no expiry
+}
+
+// Row of the excluded-parties list
+interface ExcludedPartyRecord {
+  name: string;
+  uei?: string;
+  cageCode?: string;
+  exclusionType: string;  // e.g. 'Ineligible (Proceedings Completed)'
+  excludingAgency?: string;
+  activeDate: Date;
+  terminationDate?: Date;  // Absent for indefinite exclusions
+}
+
+interface VendorValidationResult {
+  vendorId: string;
+  eligible: boolean;
+  identifierErrors: string[];
+  registrationExpired: boolean;
+  exclusions: ExcludedPartyRecord[];
+  activeCertifications: CertificationType[];
+  blockingReasons: string[];
+}
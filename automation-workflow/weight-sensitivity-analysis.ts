@@ -0,0 +1,224 @@
+// Weight Sensitivity Analysis for Bid Rankings
+
+class WeightSensitivityAnalyzer {
+  // Default swing applied to each weight (absolute, e.g. 0.4 -> 0.3..0.5)
+  private static DEFAULT_WEIGHT_RANGE = 0.1;
+
+  // Default number of increments scanned on each side of the baseline weight
+  private static DEFAULT_STEPS = 20;
+
+  constructor(private engine: BidEvaluationEngine) {}
+
+  // Vary each criterion weight and report where the top-ranked bid changes
+  analyze(
+    solicitation: BidSolicitation,
+    bids: VendorBid[],
+    options: SensitivityAnalysisOptions = {}
+  ): WeightSensitivityReport {
+    if (bids.length < 2) {
+      throw new Error('Weight sensitivity analysis requires at least two bids');
+    }
+
+    const weightRange = options.weightRange ?? WeightSensitivityAnalyzer.DEFAULT_WEIGHT_RANGE;
+    const steps = options.steps ?? WeightSensitivityAnalyzer.DEFAULT_STEPS;
+    const profile = this.engine.resolveWeightingProfile(solicitation);
+    // Bids are ranked exactly as the award recommendation ranks them, including LPTA and price tie-breaks
+    const compare = new SourceSelectionEvaluator(this.engine).compareForAward(solicitation);
+
+    // Raw criterion scores stay fixed; only the weights move
+    const rawScores = bids.map(bid => {
+      const score = this.engine.evaluateBid(bid, solicitation, bids);
+      const byCriterion: Record<string, number> = {};
+      score.criterionBreakdown.forEach(entry => { byCriterion[entry.criterion] = entry.rawScore; });
+      const totalEvaluatedPrice = this.engine.calculateTotalEvaluatedPrice(bid, solicitation).total;
+      return { vendorId: bid.vendorId, byCriterion, scoredBid: { bid, score, totalEvaluatedPrice } };
+    });
+
+    const baseline = this.rankAt(rawScores, profile.weights, compare);
+
+    const tornadoTable = Object.keys(profile.weights)
+      .filter(criterion => Object.keys(profile.weights).length > 1 && profile.weights[criterion] < 1)
+      .map(criterion =>
+        this.analyzeCriterion(criterion, profile.weights, rawScores, baseline, compare, weightRange, steps)
+      )
+      // Widest swings first, as in a tornado chart
+      .sort((a, b) =>
+        Math.abs(b.leaderScoreAtHigh - b.leaderScoreAtLow) - Math.abs(a.leaderScoreAtHigh - a.leaderScoreAtLow)
+      );
+
+    const sensitiveCriteria = tornadoTable
+      .filter(row => row.switchPointBelow || row.switchPointAbove)
+      .map(row => row.criterion);
+
+    return {
+      solicitationId: solicitation.id,
+      profileName: profile.profileName,
+      weightRange,
+      stability: {
+        baselineLeaderVendorId: baseline.leaderVendorId,
+        baselineMargin: baseline.margin,
+        stable: sensitiveCriteria.length === 0,
+        sensitiveCriteria,
+        summary: this.summarize(solicitation, baseline, tornadoTable, weightRange)
+      },
+      tornadoTable
+    };
+  }
+
+  private analyzeCriterion(
+    criterion: string,
+    baseWeights: Record<string, number>,
+    rawScores: CriterionRawScores[],
+    baseline: RankingSnapshot,
+    compare: (a: ScoredBid, b: ScoredBid) => number,
+    weightRange: number,
+    steps: number
+  ): TornadoRow {
+    const baselineWeight = baseWeights[criterion];
+    const lowWeight = Math.max(0, baselineWeight - weightRange);
+    const highWeight = Math.min(1, baselineWeight + weightRange);
+
+    // Scan outward from the baseline; the first leader change on each side is the switch point
+    const scan = (targetWeight: number): WeightSwitchPoint | undefined => {
+      for (let step = 1; step <= steps; step++) {
+        const weight = baselineWeight + (targetWeight - baselineWeight) * (step / steps);
+        const ranking = this.rankAt(rawScores, this.reweight(baseWeights, criterion, weight), compare);
+        if (ranking.leaderVendorId !== baseline.leaderVendorId) {
+          return { weight, newLeaderVendorId: ranking.leaderVendorId };
+        }
+      }
+      return undefined;
+    };
+
+    const atLow = this.rankAt(rawScores, this.reweight(baseWeights, criterion, lowWeight), compare);
+    const atHigh = this.rankAt(rawScores, this.reweight(baseWeights, criterion, highWeight), compare);
+
+    return {
+      criterion,
+      baselineWeight,
+      lowWeight,
+      highWeight,
+      leaderScoreAtLow: atLow.totals[baseline.leaderVendorId],
+      leaderScoreAtHigh: atHigh.totals[baseline.leaderVendorId],
+      leaderAtLow: atLow.leaderVendorId,
+      leaderAtHigh: atHigh.leaderVendorId,
+      switchPointBelow: scan(lowWeight),
+      switchPointAbove: scan(highWeight)
+    };
+  }
+
+  // Move one weight and rescale the others proportionally so the profile still sums to 1
+  private reweight(
+    baseWeights: Record<string, number>,
+    criterion: string,
+    newWeight: number
+  ): Record<string, number> {
+    const remainder = 1 - baseWeights[criterion];
+    const weights: Record<string, number> = {};
+
+    Object.keys(baseWeights).forEach(key => {
+      weights[key] = key === criterion
+        ? newWeight
+        : baseWeights[key] * (1 - newWeight) / remainder;
+    });
+    return weights;
+  }
+
+  private rankAt(
+    rawScores: CriterionRawScores[],
+    weights: Record<string, number>,
+    compare: (a: ScoredBid, b: ScoredBid) => number
+  ): RankingSnapshot {
+    const totals: Record<string, number> = {};
+    const reweighted = rawScores.map(({ vendorId, byCriterion, scoredBid }) => {
+      totals[vendorId] = Object.keys(weights)
+        .reduce((sum, criterion) => sum + byCriterion[criterion] * weights[criterion], 0);
+      return { ...scoredBid, score: { ...scoredBid.score, weightedTotal: totals[vendorId] } };
+    });
+
+    const ordered = reweighted.sort(compare).map(({ bid }) => bid.vendorId);
+    return {
+      leaderVendorId: ordered[0],
+      margin: totals[ordered[0]] - totals[ordered[1]],
+      totals
+    };
+  }
+
+  private summarize(
+    solicitation: BidSolicitation,
+    baseline: RankingSnapshot,
+    rows: TornadoRow[],
+    weightRange: number
+  ): string {
+    const switches = rows.filter(row => row.switchPointBelow || row.switchPointAbove);
+    const lead = solicitation.sourceSelectionMode === 'LPTA'
+      ? `${baseline.leaderVendorId} ranks first as the lowest-priced technically acceptable offer.`
+      : `${baseline.leaderVendorId} ranks first by ${baseline.margin.toFixed(2)} points.`;
+
+    if (switches.length === 0) {
+      return `${lead} The ranking holds for every criterion weight varied by ±${weightRange}.`;
+    }
+
+    // A criterion can flip the leader in both directions; each switch point is reported
+    const describe = (point: WeightSwitchPoint) =>
+      `to ${point.weight.toFixed(3)} (new leader ${point.newLeaderVendorId})`;
+    return `${lead} The top-ranked bid changes when ` + switches.map(row =>
+      `${row.criterion} weight moves from ${row.baselineWeight.toFixed(2)} ` +
+      [row.switchPointBelow, row.switchPointAbove]
+        .filter((point): point is WeightSwitchPoint => Boolean(point))
+        .map(describe)
+        .join(' or ')
+    ).join('; ') + '.';
+  }
+}
+
+// Type Definitions
+interface SensitivityAnalysisOptions {
+  weightRange?: number;
+  steps?: number;
+}
+
+interface CriterionRawScores {
+  vendorId: string;
+  byCriterion: Record<string, number>;
+  scoredBid: ScoredBid;             // Baseline score and price, re-totalled at each trial weighting
+}
+
+interface RankingSnapshot {
+  leaderVendorId: string;
+  margin: number;                   // Leader's weighted-total lead over the runner-up; negative when LPTA ranks on price
+  totals: Record<string, number>;
+}
+
+interface WeightSwitchPoint {
+  weight: number;
+  newLeaderVendorId: string;
+}
+
+// One bar of the tornado chart for the source-selection decision document
+interface TornadoRow {
+  criterion: string;
+  baselineWeight: number;
+  lowWeight: number;
+  highWeight: number;
+  leaderScoreAtLow: number;   // Baseline leader's weighted total at lowWeight
+  leaderScoreAtHigh: number;  // Baseline leader's weighted total at highWeight
+  leaderAtLow: string;
+  leaderAtHigh: string;
+  switchPointBelow?: WeightSwitchPoint;
+  switchPointAbove?: WeightSwitchPoint;
+}
+
+interface WeightSensitivityReport {
+  solicitationId: string;
+  profileName: string;
+  weightRange: number;
+  stability: {
+    baselineLeaderVendorId: string;
+    baselineMargin: number;
+    stable: boolean;
+    sensitiveCriteria: string[];
+    summary: string;
+  };
+  tornadoTable: TornadoRow[];
+}
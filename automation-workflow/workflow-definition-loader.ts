@@ -0,0 +1,873 @@
+// Declarative Agency Workflow Definitions (JSON or YAML) with Schema Validation
+
+class WorkflowDefinitionLoader {
+  private static DEFINITION_EXTENSIONS: Record<string, WorkflowDefinitionFormat> = {
+    '.json': 'JSON',
+    '.yaml': 'YAML',
+    '.yml': 'YAML'
+  };
+
+  private schema: WorkflowDefinitionSchema | null = null;
+
+  // Published Schema (schemas/agency-workflow-configuration.schema.json)
+  async loadSchemaFile(schemaPath: string): Promise<WorkflowDefinitionSchema> {
+    const contents = await nodeFs.promises.readFile(schemaPath, 'utf8');
+    return this.importSchema(contents);
+  }
+
+  importSchema(contents: string): WorkflowDefinitionSchema {
+    const schema = JSON.parse(contents);
+    if (!schema || schema.type !== 'object') {
+      throw new Error('Workflow definition schema must describe an object');
+    }
+    this.schema = schema;
+    return schema;
+  }
+
+  // Validation without conversion; every issue carries its line, column and field path
+  validate(contents: string, format: WorkflowDefinitionFormat): WorkflowDefinitionIssue[] {
+    const parser = format === 'YAML' ? new PositionedYamlParser() : new PositionedJsonParser();
+    const parsed = parser.parse(contents);
+    if (!parsed.root) return parsed.issues;
+
+    const schema = this.requireSchema();
+    const issues = [...parsed.issues];
+    new PositionedSchemaValidator(schema).validate(parsed.root, schema, '', issues);
+
+    if (issues.length === 0) {
+      issues.push(
+        ...this.checkDuplicateRuleIds(parsed.root),
+        ...this.checkCompliancePredicates(parsed.root),
+        ...this.checkTransitions(parsed.root),
+        ...this.checkApprovalChains(parsed.root)
+      );
+    }
+    return issues;
+  }
+
+  // Parse, validate and convert a definition; throws listing every issue
+  parseConfiguration(
+    contents: string,
+    format: WorkflowDefinitionFormat,
+    sourceName = 'workflow definition'
+  ): AgencyWorkflowConfiguration {
+    const issues = this.validate(contents, format);
+    if (issues.length > 0) {
+      throw new Error(
+        `Invalid workflow definition ${sourceName}:\n` +
+        issues.map(issue => `  ${sourceName}:${issue.line}:${issue.column} ${issue.path || '(root)'}: ${issue.message}`)
+          .join('\n')
+      );
+    }
+
+    const parser = format === 'YAML' ? new PositionedYamlParser() : new PositionedJsonParser();
+    return this.toConfiguration(toPlainValue(parser.parse(contents).root!) as RawWorkflowDefinition);
+  }
+
+  async loadFile(filePath: string): Promise<AgencyWorkflowConfiguration> {
+    const contents = await nodeFs.promises.readFile(filePath, 'utf8');
+    return this.parseConfiguration(contents, this.formatFor(filePath), filePath);
+  }
+
+  // Register every definition in a directory; new agencies need only a new file
+  async registerDirectory(directoryPath: string, engine: AdaptiveWorkflowEngine): Promise<string[]> {
+    const fileNames = (await nodeFs.promises.readdir(directoryPath))
+      .filter(fileName => this.extensionOf(fileName) in WorkflowDefinitionLoader.DEFINITION_EXTENSIONS)
+      .sort();
+
+    // Validate all files first so one bad file does not leave a partial registration
+    const configurations: AgencyWorkflowConfiguration[] = [];
+    for (const fileName of fileNames) {
+      configurations.push(await this.loadFile(`${directoryPath}/${fileName}`));
+    }
+
+    configurations.forEach(configuration => engine.registerAgencyWorkflow(configuration));
+    return configurations.map(configuration => configuration.agencyId);
+  }
+
+  private toConfiguration(raw: RawWorkflowDefinition): AgencyWorkflowConfiguration {
+    const category = (name: string) => WorkflowCategory[name as keyof typeof WorkflowCategory];
+
+    return {
+      agencyId: raw.agencyId,
+      agencyName: raw.agencyName,
+      workflowType: category(raw.workflowType),
+      specificRules: raw.specificRules.map(rule => ({
+        ...rule,
+        applicableWorkflows: rule.applicableWorkflows.map(category),
+        complianceChecks: rule.complianceChecks || []
+      })),
+      automationTargets: raw.automationTargets || []
+    };
+  }
+
+  private checkDuplicateRuleIds(root: PositionedNode): WorkflowDefinitionIssue[] {
+    const rules = root.kind === 'object' && root.entries.find(entry => entry.key === 'specificRules');
+    if (!rules || rules.value.kind !== 'array') return [];
+
+    const seen = new Set<string>();
+    const issues: WorkflowDefinitionIssue[] = [];
+
+    rules.value.items.forEach((rule, index) => {
+      const ruleId = rule.kind === 'object' && rule.entries.find(entry => entry.key === 'ruleId');
+      if (!ruleId || ruleId.value.kind !== 'scalar') return;
+
+      const value = String(ruleId.value.value);
+      if (seen.has(value)) {
+        issues.push({
+          path: `specificRules[${index}].ruleId`,
+          line: ruleId.value.line,
+          column: ruleId.value.column,
+          message: `Duplicate ruleId ${value}`
+        });
+      }
+      seen.add(value);
+    });
+    return issues;
+  }
+
+  // Predicate-specific requirements the schema cannot express, e.g. a THRESHOLD needs field and value
+  private checkCompliancePredicates(root: PositionedNode): WorkflowDefinitionIssue[] {
+    const rules = root.kind === 'object' && root.entries.find(entry => entry.key === 'specificRules');
+    if (!rules || rules.value.kind !== 'array') return [];
+
+    const evaluator = new ComplianceCheckEvaluator();
+    const issues: WorkflowDefinitionIssue[] = [];
+
+    rules.value.items.forEach((rule, ruleIndex) => {
+      const checks = rule.kind === 'object' && rule.entries.find(entry => entry.key === 'complianceChecks');
+      if (!checks || checks.value.kind !== 'array') return;
+
+      checks.value.items.forEach((check, checkIndex) => {
+        try {
+          evaluator.validateCheck(toPlainValue(check) as ComplianceCheck);
+        } catch (error) {
+          issues.push({
+            path: `specificRules[${ruleIndex}].complianceChecks[${checkIndex}].predicate`,
+            line: check.line,
+            column: check.column,
+            message: (error as Error).message
+          });
+        }
+      });
+    });
+    return issues;
+  }
+
+  // Gateway targets must name rules in the same definition, and gateway conditions must be valid predicates
+  private checkTransitions(root: PositionedNode): WorkflowDefinitionIssue[] {
+    const rules = root.kind === 'object' && root.entries.find(entry => entry.key === 'specificRules');
+    if (!rules || rules.value.kind !== 'array') return [];
+
+    const entryOf = (node: PositionedNode, key: string) =>
+      node.kind === 'object' ? node.entries.find(entry => entry.key === key) : undefined;
+    const ruleIds = new Set(rules.value.items
+      .map(rule => entryOf(rule, 'ruleId'))
+      .filter(entry => entry && entry.value.kind === 'scalar')
+      .map(entry => String((entry!.value as PositionedScalarNode).value)));
+
+    const evaluator = new ComplianceCheckEvaluator();
+    const issues: WorkflowDefinitionIssue[] = [];
+
+    rules.value.items.forEach((rule, ruleIndex) => {
+      const next = entryOf(rule, 'next');
+      if (!next) return;
+      const basePath = `specificRules[${ruleIndex}].next`;
+
+      const targets: { path: string; node: PositionedNode }[] = [];
+      ['goTo', 'otherwise', 'joinAt'].forEach(key => {
+        const entry = entryOf(next.value, key);
+        if (entry) targets.push({ path: `${basePath}.${key}`, node: entry.value });
+      });
+
+      const branches = entryOf(next.value, 'branches');
+      if (branches && branches.value.kind === 'array') {
+        branches.value.items.forEach((branch, index) => targets.push({ path: `${basePath}.branches[${index}]`, node: branch }));
+      }
+
+      const conditions = entryOf(next.value, 'conditions');
+      if (conditions && conditions.value.kind === 'array') {
+        conditions.value.items.forEach((condition, index) => {
+          const goTo = entryOf(condition, 'goTo');
+          if (goTo) targets.push({ path: `${basePath}.conditions[${index}].goTo`, node: goTo.value });
+
+          const when = entryOf(condition, 'when');
+          if (!when) return;
+          try {
+            evaluator.validatePredicate(toPlainValue(when.value) as CompliancePredicate, 'Gateway condition');
+          } catch (error) {
+            issues.push({
+              path: `${basePath}.conditions[${index}].when`,
+              line: when.value.line,
+              column: when.value.column,
+              message: (error as Error).message
+            });
+          }
+        });
+      }
+
+      targets
+        .filter(target => target.node.kind === 'scalar' && !ruleIds.has(String(target.node.value)))
+        .forEach(target => issues.push({
+          path: target.path,
+          line: target.node.line,
+          column: target.node.column,
+          message: `Unknown target step ${(target.node as PositionedScalarNode).value}`
+        }));
+    });
+    return issues;
+  }
+
+  // Approvers must name a role or person to match their type
+  private checkApprovalChains(root: PositionedNode): WorkflowDefinitionIssue[] {
+    const rules = root.kind === 'object' && root.entries.find(entry => entry.key === 'specificRules');
+    if (!rules || rules.value.kind !== 'array') return [];
+
+    const approvals = new ApprovalChainManager();
+    const issues: WorkflowDefinitionIssue[] = [];
+
+    rules.value.items.forEach((rule, ruleIndex) => {
+      const approval = rule.kind === 'object' && rule.entries.find(entry => entry.key === 'approval');
+      if (!approval) return;
+
+      const ruleId = rule.kind === 'object' && rule.entries.find(entry => entry.key === 'ruleId');
+      const mode = rule.kind === 'object' && rule.entries.find(entry => entry.key === 'executionMode');
+      if (mode && mode.value.kind === 'scalar' && mode.value.value === 'AUTOMATED') {
+        issues.push({
+          path: `specificRules[${ruleIndex}].approval`,
+          line: approval.line,
+          column: approval.column,
+          message: 'Automated rules cannot require approval'
+        });
+      }
+
+      try {
+        approvals.validateConfiguration(
+          toPlainValue(approval.value) as ApprovalChainConfiguration,
+          `Approval chain on ${ruleId && ruleId.value.kind === 'scalar' ? ruleId.value.value : `rule ${ruleIndex}`}`
+        );
+      } catch (error) {
+        issues.push({
+          path: `specificRules[${ruleIndex}].approval`,
+          line: approval.value.line,
+          column: approval.value.column,
+          message: (error as Error).message
+        });
+      }
+    });
+    return issues;
+  }
+
+  private formatFor(filePath: string): WorkflowDefinitionFormat {
+    const format = WorkflowDefinitionLoader.DEFINITION_EXTENSIONS[this.extensionOf(filePath)];
+    if (!format) {
+      throw new Error(`Unsupported workflow definition file type: ${filePath}`);
+    }
+    return format;
+  }
+
+  private extensionOf(filePath: string): string {
+    const dot = filePath.lastIndexOf('.');
+    return dot === -1 ? '' : filePath.slice(dot).toLowerCase();
+  }
+
+  private requireSchema(): WorkflowDefinitionSchema {
+    if (!this.schema) {
+      throw new Error('No workflow definition schema has been loaded');
+    }
+    return this.schema;
+  }
+}
+
+// Schema Validation over Positioned Nodes (JSON Schema subset used by the published schema)
+class PositionedSchemaValidator {
+  constructor(private rootSchema: WorkflowDefinitionSchema) {}
+
+  validate(node: PositionedNode, schema: WorkflowDefinitionSchema, path: string, issues: WorkflowDefinitionIssue[]) {
+    const resolved = this.resolve(schema);
+    const issue = (message: string, at: { line: number; column: number } = node) =>
+      issues.push({ path, line: at.line, column: at.column, message });
+
+    if (resolved.type && !this.matchesType(node, resolved.type)) {
+      issue(`Expected ${resolved.type}, found ${this.describe(node)}`);
+      return;
+    }
+
+    if (node.kind === 'scalar') {
+      const value = node.value;
+      if (resolved.enum && !resolved.enum.includes(value)) {
+        issue(`Value ${JSON.stringify(value)} is not one of ${resolved.enum.join(', ')}`);
+      }
+      if (typeof value === 'number') {
+        if (resolved.minimum !== undefined && value < resolved.minimum) {
+          issue(`Value ${value} is below the minimum of ${resolved.minimum}`);
+        }
+        if (resolved.maximum !== undefined && value > resolved.maximum) {
+          issue(`Value ${value} is above the maximum of ${resolved.maximum}`);
+        }
+      }
+      if (typeof value === 'string') {
+        if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+          issue(`Value must be at least ${resolved.minLength} character(s)`);
+        }
+        if (resolved.pattern && !new RegExp(resolved.pattern).test(value)) {
+          issue(`Value ${JSON.stringify(value)} does not match pattern ${resolved.pattern}`);
+        }
+      }
+    }
+
+    if (node.kind === 'array') {
+      if (resolved.minItems !== undefined && node.items.length < resolved.minItems) {
+        issue(`Expected at least ${resolved.minItems} item(s), found ${node.items.length}`);
+      }
+      const itemSchema = resolved.items;
+      if (itemSchema) {
+        node.items.forEach((item, index) => this.validate(item, itemSchema, `${path}[${index}]`, issues));
+      }
+    }
+
+    if (node.kind === 'object') {
+      const properties = resolved.properties || {};
+      const keys = new Set(node.entries.map(entry => entry.key));
+
+      (resolved.required || [])
+        .filter(field => !keys.has(field))
+        .forEach(field => issue(`Missing required field ${field}`));
+
+      node.entries.forEach(entry => {
+        const entryPath = path ? `${path}.${entry.key}` : entry.key;
+        if (properties[entry.key]) {
+          this.validate(entry.value, properties[entry.key], entryPath, issues);
+        } else if (resolved.additionalProperties === false) {
+          issues.push({ path: entryPath, line: entry.line, column: entry.column, message: `Unknown field ${entry.key}` });
+        }
+      });
+    }
+  }
+
+  private resolve(schema: WorkflowDefinitionSchema): WorkflowDefinitionSchema {
+    if (!schema.$ref) return schema;
+
+    const prefix = '#/$defs/';
+    const definition = schema.$ref.startsWith(prefix) && this.rootSchema.$defs
+      ? this.rootSchema.$defs[schema.$ref.slice(prefix.length)]
+      : undefined;
+    if (!definition) {
+      throw new Error(`Workflow definition schema has unresolvable reference ${schema.$ref}`);
+    }
+    return this.resolve(definition);
+  }
+
+  private matchesType(node: PositionedNode, type: string): boolean {
+    if (type === 'object' || type === 'array') return node.kind === type;
+    if (node.kind !== 'scalar') return false;
+
+    const value = node.value;
+    switch (type) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number';
+      case 'integer': return typeof value === 'number' && Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'null': return value === null;
+      default: return false;
+    }
+  }
+
+  private describe(node: PositionedNode): string {
+    if (node.kind !== 'scalar') return node.kind;
+    return node.value === null ? 'null' : `${typeof node.value} ${JSON.stringify(node.value)}`;
+  }
+}
+
+// JSON Parser Recording Line and Column of Every Value
+class PositionedJsonParser {
+  private text = '';
+  private offset = 0;
+  private line = 1;
+  private column = 1;
+
+  parse(text: string): ParsedDefinitionDocument {
+    this.text = text;
+    this.offset = 0;
+    this.line = 1;
+    this.column = 1;
+
+    try {
+      const root = this.parseValue();
+      this.skipWhitespace();
+      if (this.offset < this.text.length) {
+        throw new Error(`Unexpected content after the document: ${JSON.stringify(this.peek())}`);
+      }
+      return { root, issues: [] };
+    } catch (error) {
+      return { issues: [{ path: '', line: this.line, column: this.column, message: (error as Error).message }] };
+    }
+  }
+
+  private parseValue(): PositionedNode {
+    this.skipWhitespace();
+    const position = { line: this.line, column: this.column };
+    const char = this.peek();
+
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    if (char === '"') return { kind: 'scalar', ...position, value: this.parseString() };
+    if (char === '-' || (char >= '0' && char <= '9')) return { kind: 'scalar', ...position, value: this.parseNumber() };
+
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.text.startsWith(literal, this.offset)) {
+        this.advance(literal.length);
+        return { kind: 'scalar', ...position, value };
+      }
+    }
+
+    throw new Error(char ? `Unexpected character ${JSON.stringify(char)}` : 'Unexpected end of document');
+  }
+
+  private parseObject(): PositionedNode {
+    const node: PositionedObjectNode = { kind: 'object', line: this.line, column: this.column, entries: [] };
+    this.advance(1);
+    this.skipWhitespace();
+
+    if (this.peek() === '}') {
+      this.advance(1);
+      return node;
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      const keyPosition = { line: this.line, column: this.column };
+      if (this.peek() !== '"') throw new Error('Expected a double-quoted field name');
+
+      const key = this.parseString();
+      if (node.entries.some(entry => entry.key === key)) {
+        this.line = keyPosition.line;
+        this.column = keyPosition.column;
+        throw new Error(`Duplicate field ${key}`);
+      }
+
+      this.skipWhitespace();
+      this.expect(':');
+      node.entries.push({ key, ...keyPosition, value: this.parseValue() });
+
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.advance(1);
+        continue;
+      }
+      this.expect('}');
+      return node;
+    }
+  }
+
+  private parseArray(): PositionedNode {
+    const node: PositionedArrayNode = { kind: 'array', line: this.line, column: this.column, items: [] };
+    this.advance(1);
+    this.skipWhitespace();
+
+    if (this.peek() === ']') {
+      this.advance(1);
+      return node;
+    }
+
+    while (true) {
+      node.items.push(this.parseValue());
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.advance(1);
+        continue;
+      }
+      this.expect(']');
+      return node;
+    }
+  }
+
+  private parseString(): string {
+    const start = this.offset;
+    this.advance(1);
+
+    while (this.offset < this.text.length && this.peek() !== '"') {
+      if (this.peek() === '\n') throw new Error('Unterminated string');
+      this.advance(this.peek() === '\\' ? 2 : 1);
+    }
+    if (this.offset >= this.text.length) throw new Error('Unterminated string');
+
+    this.advance(1);
+    return JSON.parse(this.text.slice(start, this.offset));
+  }
+
+  private parseNumber(): number {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(this.text.slice(this.offset));
+    if (!match) throw new Error('Invalid number');
+
+    this.advance(match[0].length);
+    return Number(match[0]);
+  }
+
+  private expect(char: string) {
+    if (this.peek() !== char) {
+      throw new Error(`Expected ${JSON.stringify(char)} but found ${this.peek() ? JSON.stringify(this.peek()) : 'end of document'}`);
+    }
+    this.advance(1);
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.peek())) this.advance(1);
+  }
+
+  private peek(): string {
+    return this.text.charAt(this.offset);
+  }
+
+  private advance(count: number) {
+    for (let i = 0; i < count && this.offset < this.text.length; i++) {
+      if (this.text[this.offset] === '\n') {
+        this.line += 1;
+        this.column = 1;
+      } else {
+        this.column += 1;
+      }
+      this.offset += 1;
+    }
+  }
+}
+
+// YAML Subset Parser: block mappings and sequences, quoted and plain scalars, flow sequences, comments
+class PositionedYamlParser {
+  // Unquoted value tokens that would start an anchor, alias or tag, or a block scalar header
+  private static NODE_PROPERTY = /^[&*!]\S/;
+  private static BLOCK_SCALAR_HEADER = /^[|>][-+0-9]*$/;
+
+  private lines: YamlLine[] = [];
+  private currentLine = 1;
+  private currentColumn = 1;
+  private currentPath = '';
+
+  parse(text: string): ParsedDefinitionDocument {
+    try {
+      this.lines = this.tokenize(text);
+      if (this.lines.length === 0) throw new Error('Document is empty');
+
+      const { node, next } = this.parseBlock(0, this.lines[0].indent, '');
+      if (next < this.lines.length) {
+        this.at(this.lines[next]);
+        this.currentPath = '';
+        throw new Error('Unexpected content; check the indentation');
+      }
+      return { root: node, issues: [] };
+    } catch (error) {
+      return {
+        issues: [{ path: this.currentPath, line: this.currentLine, column: this.currentColumn, message: (error as Error).message }]
+      };
+    }
+  }
+
+  // Split into significant lines with indentation, stripping comments and blank lines
+  private tokenize(text: string): YamlLine[] {
+    const lines: YamlLine[] = [];
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+      this.currentLine = index + 1;
+      this.currentColumn = 1;
+
+      const content = this.stripComment(raw).replace(/\s+$/, '');
+      if (!content.trim() || content.trim() === '---') return;
+
+      const indentMatch = /^[ \t]*/.exec(content)![0];
+      if (indentMatch.includes('\t')) throw new Error('Tabs are not allowed for indentation');
+
+      lines.push({ line: index + 1, indent: indentMatch.length, text: content.slice(indentMatch.length) });
+    });
+    return lines;
+  }
+
+  // path is the field path of the block, as reported by schema validation
+  private parseBlock(index: number, indent: number, path: string): { node: PositionedNode; next: number } {
+    const first = this.lines[index];
+    this.at(first);
+    this.currentPath = path;
+
+    if (first.indent !== indent) throw new Error('Unexpected indentation');
+    if (this.isSequenceItem(first.text)) return this.parseSequence(index, indent, path);
+    if (this.splitMappingEntry(first.text)) return this.parseMapping(index, indent, path);
+
+    return { node: this.parseScalar(first.text, first.line, first.indent + 1), next: index + 1 };
+  }
+
+  private parseSequence(index: number, indent: number, path: string): { node: PositionedNode; next: number } {
+    const node: PositionedArrayNode = { kind: 'array', line: this.lines[index].line, column: indent + 1, items: [] };
+    let next = index;
+
+    while (next < this.lines.length && this.lines[next].indent === indent && this.isSequenceItem(this.lines[next].text)) {
+      const current = this.lines[next];
+      const itemPath = `${path}[${node.items.length}]`;
+      this.at(current);
+      this.currentPath = itemPath;
+
+      const rest = current.text.slice(1);
+      const itemText = rest.trim();
+
+      if (!itemText) {
+        // Item content on the following, more indented lines
+        const child = this.lines[next + 1];
+        if (!child || child.indent <= indent) {
+          node.items.push({ kind: 'scalar', line: current.line, column: indent + 1, value: null });
+          next += 1;
+          continue;
+        }
+        const parsed = this.parseBlock(next + 1, child.indent, itemPath);
+        node.items.push(parsed.node);
+        next = parsed.next;
+        continue;
+      }
+
+      // Inline item content: re-read the line as if it began at the item's column
+      const itemIndent = indent + 1 + (rest.length - rest.trimStart().length);
+      this.lines[next] = { line: current.line, indent: itemIndent, text: itemText };
+      const parsed = this.parseBlock(next, itemIndent, itemPath);
+      node.items.push(parsed.node);
+      next = parsed.next;
+    }
+
+    return { node, next };
+  }
+
+  private parseMapping(index: number, indent: number, path: string): { node: PositionedNode; next: number } {
+    const node: PositionedObjectNode = { kind: 'object', line: this.lines[index].line, column: indent + 1, entries: [] };
+    let next = index;
+
+    while (next < this.lines.length && this.lines[next].indent === indent) {
+      const current = this.lines[next];
+      this.at(current);
+      this.currentPath = path;
+
+      const entry = this.splitMappingEntry(current.text);
+      if (!entry) throw new Error(`Expected a "field: value" entry, found ${JSON.stringify(current.text)}`);
+
+      this.currentPath = path ? `${path}.${entry.key}` : entry.key;
+      if (!entry.quotedKey && PositionedYamlParser.NODE_PROPERTY.test(entry.key)) {
+        throw new Error('Anchors, aliases and tags are not supported in workflow definitions');
+      }
+      if (node.entries.some(existing => existing.key === entry.key)) {
+        throw new Error(`Duplicate field ${entry.key}`);
+      }
+
+      const keyPosition = { line: current.line, column: indent + 1 };
+
+      if (entry.value) {
+        node.entries.push({
+          key: entry.key,
+          ...keyPosition,
+          value: this.parseScalar(entry.value, current.line, indent + 1 + entry.valueOffset)
+        });
+        next += 1;
+        continue;
+      }
+
+      // Nested block, or a sequence written at the same indentation as its key
+      const child = this.lines[next + 1];
+      const nested = child && (child.indent > indent || (child.indent === indent && this.isSequenceItem(child.text)));
+      if (!nested) {
+        node.entries.push({ key: entry.key, ...keyPosition, value: { kind: 'scalar', ...keyPosition, value: null } });
+        next += 1;
+        continue;
+      }
+
+      const parsed = this.parseBlock(next + 1, child.indent, this.currentPath);
+      node.entries.push({ key: entry.key, ...keyPosition, value: parsed.node });
+      next = parsed.next;
+    }
+
+    return { node, next };
+  }
+
+  private parseScalar(text: string, line: number, column: number): PositionedNode {
+    this.currentLine = line;
+    this.currentColumn = column;
+
+    // Only unquoted tokens can carry YAML syntax; quoted strings are taken literally
+    if (PositionedYamlParser.NODE_PROPERTY.test(text)) {
+      throw new Error('Anchors, aliases and tags are not supported in workflow definitions');
+    }
+    if (PositionedYamlParser.BLOCK_SCALAR_HEADER.test(text)) {
+      throw new Error('Block scalars are not supported in workflow definitions; use a quoted string');
+    }
+
+    if (text.startsWith('[')) return this.parseFlowSequence(text, line, column);
+    if (text.startsWith('{')) {
+      if (text.replace(/\s/g, '') !== '{}') throw new Error('Only empty flow mappings ({}) are supported');
+      return { kind: 'object', line, column, entries: [] };
+    }
+    return { kind: 'scalar', line, column, value: this.scalarValue(text) };
+  }
+
+  private parseFlowSequence(text: string, line: number, column: number): PositionedNode {
+    if (!text.endsWith(']')) throw new Error('Unterminated flow sequence');
+
+    const inner = text.slice(1, -1);
+    const node: PositionedArrayNode = { kind: 'array', line, column, items: [] };
+    if (!inner.trim()) return node;
+
+    let start = 0;
+    let quote: string | null = null;
+    for (let i = 0; i <= inner.length; i++) {
+      const char = inner[i];
+      if (quote) {
+        if (char === quote) quote = null;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        quote = char;
+        continue;
+      }
+      if (char === '[' || char === '{') throw new Error('Nested flow collections are not supported');
+      if (char === ',' || i === inner.length) {
+        const raw = inner.slice(start, i);
+        const itemColumn = column + 1 + start + (raw.length - raw.trimStart().length);
+        if (!raw.trim()) {
+          this.currentColumn = itemColumn;
+          throw new Error('Empty item in flow sequence');
+        }
+        node.items.push(this.parseScalar(raw.trim(), line, itemColumn));
+        start = i + 1;
+      }
+    }
+    if (quote) throw new Error('Unterminated quoted string');
+    return node;
+  }
+
+  private scalarValue(text: string): string | number | boolean | null {
+    if (text.startsWith('"')) {
+      if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) throw new Error('Malformed double-quoted string');
+      return JSON.parse(text);
+    }
+    if (text.startsWith("'")) {
+      if (!/^'(?:[^']|'')*'$/.test(text)) throw new Error('Malformed single-quoted string');
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+
+    if (/^(true|True|TRUE)$/.test(text)) return true;
+    if (/^(false|False|FALSE)$/.test(text)) return false;
+    if (/^(null|Null|NULL|~)$/.test(text)) return null;
+    if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+    return text;
+  }
+
+  // "key: value" with a plain or quoted key; returns null for anything else
+  private splitMappingEntry(text: string): { key: string; quotedKey: boolean; value: string; valueOffset: number } | null {
+    const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#:][^:]*?)\s*:(\s+|$)/.exec(text);
+    if (!match) return null;
+
+    const rawKey = match[1];
+    const quotedKey = rawKey.startsWith('"') || rawKey.startsWith("'");
+    const key = quotedKey ? String(this.scalarValue(rawKey)) : rawKey.trim();
+    return { key, quotedKey, value: text.slice(match[0].length).trim(), valueOffset: match[0].length };
+  }
+
+  private isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  private stripComment(raw: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < raw.length; i++) {
+      const char = raw[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(raw[i - 1]))) {
+        return raw.slice(0, i);
+      }
+    }
+    return raw;
+  }
+
+  private at(line: YamlLine) {
+    this.currentLine = line.line;
+    this.currentColumn = line.indent + 1;
+  }
+}
+
+// Strip positions from a parsed document
+function toPlainValue(node: PositionedNode): unknown {
+  if (node.kind === 'scalar') return node.value;
+  if (node.kind === 'array') return node.items.map(toPlainValue);
+
+  const value: Record<string, unknown> = {};
+  node.entries.forEach(entry => { value[entry.key] = toPlainValue(entry.value); });
+  return value;
+}
+
+// Type Definitions
+type WorkflowDefinitionFormat = 'JSON' | 'YAML';
+
+interface WorkflowDefinitionIssue {
+  path: string;   // Field path, e.g. 'specificRules[0].automationPriority'
+  line: number;   // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+// Subset of JSON Schema (2020-12) keywords understood by the validator
+interface WorkflowDefinitionSchema {
+  $ref?: string;
+  $defs?: Record<string, WorkflowDefinitionSchema>;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  required?: string[];
+  properties?: Record<string, WorkflowDefinitionSchema>;
+  additionalProperties?: boolean;
+  items?: WorkflowDefinitionSchema;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+type PositionedNode = PositionedObjectNode | PositionedArrayNode | PositionedScalarNode;
+
+interface PositionedObjectNode {
+  kind: 'object';
+  line: number;
+  column: number;
+  entries: { key: string; line: number; column: number; value: PositionedNode }[];
+}
+
+interface PositionedArrayNode {
+  kind: 'array';
+  line: number;
+  column: number;
+  items: PositionedNode[];
+}
+
+interface PositionedScalarNode {
+  kind: 'scalar';
+  line: number;
+  column: number;
+  value: string | number | boolean | null;
+}
+
+interface ParsedDefinitionDocument {
+  root?: PositionedNode;
+  issues: WorkflowDefinitionIssue[];
+}
+
+interface YamlLine {
+  line: number;
+  indent: number;
+  text: string;
+}
+
+// Definition file shape before enum names are resolved
+interface RawWorkflowDefinition {
+  agencyId: string;
+  agencyName: string;
+  workflowType: string;
+  specificRules: (Omit<AgencySpecificRule, 'applicableWorkflows' | 'complianceChecks'> & {
+    applicableWorkflows: string[];
+    complianceChecks?: ComplianceCheck[];
+  })[];
+  automationTargets?: AutomationTarget[];
+}
@@ -0,0 +1,703 @@
+// Executable Workflow Instances for AdaptiveWorkflowEngine Definitions
+
+class WorkflowInstanceRuntime {
+  // Guards against automated rework loops that never reach a human step
+  private static MAX_STEP_EXECUTIONS = 25;
+
+  // Checks that do not name a waiver role may be waived by this role
+  private static DEFAULT_WAIVER_ROLE = 'COMPLIANCE_OFFICER';
+
+  private handlers: Map<string, AutomatedStepHandler> = new Map();
+  private instances: Map<string, WorkflowInstance> = new Map();
+  private complianceEvaluator = new ComplianceCheckEvaluator();
+  private sequence = 0;
+
+  constructor(
+    private engine: AdaptiveWorkflowEngine,
+    private approvals: ApprovalChainManager = new ApprovalChainManager()
+  ) {}
+
+  // Automated steps run the handler named by their automationHandler key
+  registerStepHandler(handlerKey: string, handler: AutomatedStepHandler) {
+    this.handlers.set(handlerKey, handler);
+  }
+
+  // Instance Start: generate the agency definition and run until human steps or the end
+  async startInstance(
+    agencyId: string,
+    workflowType: WorkflowCategory,
+    startedBy: string,
+    data: Record<string, unknown> = {}
+  ): Promise<WorkflowInstance> {
+    return this.startFromDefinition(this.engine.generateWorkflowForAgency(agencyId, workflowType), startedBy, data);
+  }
+
+  async startFromDefinition(
+    definition: AgencyWorkflowDefinition,
+    startedBy: string,
+    data: Record<string, unknown> = {}
+  ): Promise<WorkflowInstance> {
+    this.validateDefinition(definition);
+    this.sequence += 1;
+
+    const instance: WorkflowInstance = {
+      instanceId: `WFI-${definition.agencyId}-${String(this.sequence).padStart(6, '0')}`,
+      definition,
+      status: 'RUNNING',
+      activeStepIds: [],
+      steps: definition.workflowSteps.map(step => ({ stepId: step.stepId, status: 'PENDING', executions: 0 })),
+      openJoins: {},
+      data: { ...data },
+      waivers: [],
+      startedBy,
+      startedAt: new Date(),
+      history: []
+    };
+    this.instances.set(instance.instanceId, instance);
+    this.recordEvent(instance, null, 'INSTANCE_STARTED', startedBy);
+
+    const firstStep = definition.workflowSteps[0];
+    await this.advance(instance, firstStep ? [firstStep.stepId] : []);
+    return this.snapshot(instance);
+  }
+
+  // Human Step Completion: only a holder of the step's assigned role may complete it
+  async completeHumanStep(
+    instanceId: string,
+    stepId: string,
+    completedBy: string,
+    output: Record<string, unknown> = {}
+  ): Promise<WorkflowInstance> {
+    const instance = this.requireInstance(instanceId);
+    const step = this.getStepDefinition(instance, stepId);
+
+    if (step.assignedRole && !this.approvals.hasRole(completedBy, step.assignedRole)) {
+      throw new Error(`${completedBy} does not hold role ${step.assignedRole} required to complete step ${stepId}`);
+    }
+    return this.snapshot(await this.finishHumanStep(instance, stepId, completedBy, output));
+  }
+
+  // Approval Decisions: the step completes once its chain is approved. A rejection fails the
+  // instance unless the step's exclusive gateway routes on the approval outcome
+  async recordApprovalDecision(
+    instanceId: string,
+    stepId: string,
+    actor: string,
+    decision: ApprovalDecision,
+    comment?: string,
+    output: Record<string, unknown> = {}
+  ): Promise<WorkflowInstance> {
+    const instance = this.requireInstance(instanceId);
+    const stepState = this.getStepState(instance, stepId);
+    if (instance.status === 'FAILED' || stepState.status !== 'WAITING' || !stepState.approvalChainId) {
+      throw new Error(`Step ${stepId} of instance ${instanceId} is not awaiting approval`);
+    }
+
+    const task = this.approvals.decide(stepState.approvalChainId, actor, decision, comment);
+    this.recordEvent(instance, stepId, 'APPROVAL_DECISION', actor,
+      `${decision}${task.onBehalfOf ? ` on behalf of ${task.onBehalfOf}` : ''}${comment ? `: ${comment}` : ''}`);
+
+    const chain = this.approvals.getChain(stepState.approvalChainId);
+    if (chain.status === 'PENDING') return this.snapshot(instance);
+
+    const step = this.getStepDefinition(instance, stepId);
+    if (chain.status === 'REJECTED' && !this.routesApprovalOutcome(step)) {
+      const reason = `Approval chain ${chain.chainId} was rejected by ${actor}${comment ? `: ${comment}` : ''}`;
+      this.deactivate(instance, stepId);
+      stepState.status = 'FAILED';
+      stepState.error = reason;
+      stepState.finishedAt = new Date();
+      this.failInstance(instance, stepId, 'APPROVAL_REJECTED', reason);
+      return this.snapshot(instance);
+    }
+
+    // approved is numeric so exclusive gateways can route rejections with a THRESHOLD condition.
+    // It is recorded before the compliance checks run so a step they block keeps its outcome
+    const approvalOutcomes = (instance.data.approvals || {}) as Record<string, unknown>;
+    instance.data.approvals = {
+      ...approvalOutcomes,
+      [stepId]: { chainId: chain.chainId, approved: chain.status === 'APPROVED' ? 1 : 0 }
+    };
+    return this.snapshot(await this.finishHumanStep(instance, stepId, actor, output));
+  }
+
+  // Escalation Timer: call on a schedule; overdue approvals escalate and each breach is recorded
+  processApprovalTimers(asOf: Date = new Date()): { instanceId: string; stepId: string; breach: SlaBreach }[] {
+    return [...this.instances.values()]
+      .filter(instance => instance.status !== 'FAILED')
+      .flatMap(instance => instance.activeStepIds
+        .map(stepId => this.getStepState(instance, stepId))
+        .filter(stepState => stepState.status === 'WAITING' && stepState.approvalChainId)
+        .flatMap(stepState => this.approvals.escalateOverdue(stepState.approvalChainId!, asOf).map(breach => {
+          const escalation = breach.escalatedTo
+            ? `escalated to ${this.describeApprover(breach.escalatedTo)}`
+            : 'escalation path exhausted';
+          this.recordEvent(instance, stepState.stepId, 'SLA_BREACHED', 'SYSTEM',
+            `${breach.taskId} due ${breach.dueAt.toISOString()}; ${escalation}`);
+          return { instanceId: instance.instanceId, stepId: stepState.stepId, breach };
+        })));
+  }
+
+  getApprovalChain(instanceId: string, stepId: string): ApprovalChain | undefined {
+    const stepState = this.getStepState(this.requireInstance(instanceId), stepId);
+    return stepState.approvalChainId ? this.approvals.getChain(stepState.approvalChainId) : undefined;
+  }
+
+  // Waive a check for the current execution of a waiting or blocked step; a rework loop back
+  // into the step evaluates the check again
+  waiveComplianceCheck(
+    instanceId: string,
+    stepId: string,
+    checkId: string,
+    waivedBy: string,
+    justification: string
+  ): ComplianceWaiver {
+    const instance = this.requireInstance(instanceId);
+    const step = this.getStepDefinition(instance, stepId);
+    const stepState = this.getStepState(instance, stepId);
+    const check = step.complianceChecks.find(candidate => candidate.checkId === checkId);
+
+    if (!check) {
+      throw new Error(`Step ${stepId} of instance ${instanceId} has no compliance check ${checkId}`);
+    }
+    if (instance.status === 'FAILED' || !instance.activeStepIds.includes(stepId)) {
+      throw new Error(`Step ${stepId} of instance ${instanceId} is not waiting or blocked`);
+    }
+    const waiverRole = check.waiverRole || WorkflowInstanceRuntime.DEFAULT_WAIVER_ROLE;
+    if (!this.approvals.hasRole(waivedBy, waiverRole)) {
+      throw new Error(`${waivedBy} does not hold role ${waiverRole} required to waive ${checkId}`);
+    }
+    if (!justification || !justification.trim()) {
+      throw new Error(`Waiving ${checkId} requires a justification`);
+    }
+
+    const waiver: ComplianceWaiver = {
+      checkId,
+      stepId,
+      execution: stepState.executions,
+      waivedBy,
+      justification,
+      waivedAt: new Date()
+    };
+    instance.waivers.push(waiver);
+    this.recordEvent(instance, stepId, 'CHECK_WAIVED', waivedBy, `${checkId}: ${justification}`);
+    return waiver;
+  }
+
+  // Re-run a blocked automated step after a waiver or corrected data
+  async resumeBlockedStep(
+    instanceId: string,
+    stepId: string,
+    actor: string,
+    dataCorrections: Record<string, unknown> = {}
+  ): Promise<WorkflowInstance> {
+    const instance = this.requireInstance(instanceId);
+    const stepState = this.getStepState(instance, stepId);
+    if (instance.status === 'FAILED' || stepState.status !== 'BLOCKED') {
+      throw new Error(`Step ${stepId} of instance ${instanceId} is not blocked`);
+    }
+
+    Object.assign(instance.data, dataCorrections);
+    this.deactivate(instance, stepId);
+    instance.status = 'RUNNING';
+    this.recordEvent(instance, stepId, 'STEP_RESUMED', actor);
+
+    // Resumption re-runs the step in place; it is not a new arrival at a join
+    const queue: string[] = [];
+    await this.executeStep(instance, stepId, queue);
+    await this.advance(instance, queue);
+    return this.snapshot(instance);
+  }
+
+  // Failure Retry: re-run the failed step, or re-route from it, once the cause has been corrected
+  async retryFailedInstance(
+    instanceId: string,
+    actor: string,
+    dataCorrections: Record<string, unknown> = {}
+  ): Promise<WorkflowInstance> {
+    const instance = this.requireInstance(instanceId);
+    const failure = instance.failure;
+    if (instance.status !== 'FAILED' || !failure) {
+      throw new Error(`Instance ${instanceId} has not failed`);
+    }
+    if (failure.kind === 'UNSATISFIED_JOIN') {
+      throw new Error(`Instance ${instanceId} failed with unsatisfied joins and cannot be retried: ${failure.reason}`);
+    }
+    if (failure.kind === 'APPROVAL_REJECTED') {
+      throw new Error(`Instance ${instanceId} was rejected at step ${failure.stepId} and cannot be retried`);
+    }
+
+    // Only unsatisfied joins fail the instance as a whole, so a step is always named here
+    const failedStepId = failure.stepId!;
+    Object.assign(instance.data, dataCorrections);
+    instance.status = 'RUNNING';
+    instance.failure = undefined;
+    this.recordEvent(instance, failedStepId, 'INSTANCE_RETRIED', actor, failure.reason);
+
+    // Approvals cancelled by the failure are requested afresh
+    instance.activeStepIds
+      .map(stepId => this.getStepState(instance, stepId))
+      .filter(stepState => stepState.approvalChainId &&
+        this.approvals.getChain(stepState.approvalChainId).status === 'CANCELLED')
+      .forEach(stepState => this.openApprovalChain(instance, this.getStepDefinition(instance, stepState.stepId), stepState));
+
+    const step = this.getStepDefinition(instance, failedStepId);
+    const stepState = this.getStepState(instance, failedStepId);
+    const queue: string[] = [];
+
+    if (failure.kind === 'STEP_ERROR') {
+      stepState.error = undefined;
+      await this.executeStep(instance, failedStepId, queue);
+    } else if (failure.kind === 'ROUTING') {
+      this.routeInto(instance, step, queue);
+    } else {
+      // A fresh execution budget for a step that exceeded its limit; the count itself is kept
+      // so waivers from earlier executions stay out of scope
+      stepState.executionLimit = stepState.executions + WorkflowInstanceRuntime.MAX_STEP_EXECUTIONS;
+      queue.push(failedStepId);
+    }
+
+    await this.advance(instance, queue);
+    return this.snapshot(instance);
+  }
+
+  // Callers receive copies; instance state changes only through the runtime
+  getInstance(instanceId: string): WorkflowInstance {
+    return this.snapshot(this.requireInstance(instanceId));
+  }
+
+  listInstances(filter: { agencyId?: string; status?: WorkflowInstanceStatus } = {}): WorkflowInstance[] {
+    return [...this.instances.values()]
+      .filter(instance =>
+        (!filter.agencyId || instance.definition.agencyId === filter.agencyId) &&
+        (!filter.status || instance.status === filter.status)
+      )
+      .map(instance => this.snapshot(instance));
+  }
+
+  // Human steps currently waiting, optionally for one role
+  getPendingHumanSteps(assignedRole?: string): { instanceId: string; step: WorkflowStepDefinition }[] {
+    return [...this.instances.values()]
+      .filter(instance => instance.status !== 'FAILED')
+      .flatMap(instance => instance.activeStepIds
+        .filter(stepId => this.getStepState(instance, stepId).status === 'WAITING')
+        .map(stepId => ({ instanceId: instance.instanceId, step: this.getStepDefinition(instance, stepId) })))
+      .filter(({ step }) => !assignedRole || step.assignedRole === assignedRole);
+  }
+
+  // Compliance checks run against the submitted output before the instance moves on
+  private async finishHumanStep(
+    instance: WorkflowInstance,
+    stepId: string,
+    completedBy: string,
+    output: Record<string, unknown>
+  ): Promise<WorkflowInstance> {
+    const stepState = this.getStepState(instance, stepId);
+
+    if (instance.status === 'FAILED' || stepState.status !== 'WAITING') {
+      throw new Error(`Step ${stepId} of instance ${instance.instanceId} is not awaiting human completion`);
+    }
+    // A rejection only completes the step when a gateway routes it; otherwise it has failed the instance
+    const step = this.getStepDefinition(instance, stepId);
+    const chain = stepState.approvalChainId ? this.approvals.getChain(stepState.approvalChainId) : undefined;
+    if (chain && chain.status === 'PENDING') {
+      throw new Error(`Step ${stepId} of instance ${instance.instanceId} is awaiting approval`);
+    }
+    if (chain && (chain.status === 'CANCELLED' || (chain.status === 'REJECTED' && !this.routesApprovalOutcome(step)))) {
+      throw new Error(`Step ${stepId} of instance ${instance.instanceId} cannot complete: approval chain ${chain.chainId} was ${chain.status.toLowerCase()}`);
+    }
+
+    // A failed blocking check leaves the step waiting for corrected input or a waiver
+    if (!this.passesComplianceChecks(instance, step, stepState, { ...instance.data, ...output }, completedBy)) {
+      return instance;
+    }
+
+    this.deactivate(instance, stepId);
+    this.completeStep(instance, stepState, completedBy, output);
+    instance.status = 'RUNNING';
+
+    const successors: string[] = [];
+    this.routeInto(instance, step, successors);
+    await this.advance(instance, successors);
+    return instance;
+  }
+
+  // Token Execution: run queued steps until every branch waits, blocks or ends
+  private async advance(instance: WorkflowInstance, queue: string[]) {
+    while (queue.length > 0 && instance.status !== 'FAILED') {
+      const stepId = queue.shift()!;
+      if (!this.arriveAt(instance, stepId)) continue;
+
+      const stepState = this.getStepState(instance, stepId);
+      const executionLimit = stepState.executionLimit || WorkflowInstanceRuntime.MAX_STEP_EXECUTIONS;
+      if (stepState.executions >= executionLimit) {
+        this.failInstance(instance, stepId, 'EXECUTION_LIMIT', `Step ${stepId} exceeded ${executionLimit} executions`);
+        return;
+      }
+
+      // Re-entry through a rework loop starts the step afresh
+      stepState.executions += 1;
+      stepState.output = undefined;
+      stepState.completedBy = undefined;
+      stepState.finishedAt = undefined;
+      stepState.blockedReason = undefined;
+      stepState.approvalChainId = undefined;
+
+      await this.executeStep(instance, stepId, queue);
+    }
+
+    this.refreshStatus(instance);
+  }
+
+  // Join gateways hold arriving branches until the last one arrives
+  private arriveAt(instance: WorkflowInstance, stepId: string): boolean {
+    const join = instance.openJoins[stepId];
+    if (!join) return true;
+
+    join.arrived += 1;
+    this.recordEvent(instance, stepId, 'JOIN_ARRIVAL', 'SYSTEM', `${join.arrived} of ${join.expected} branches`);
+    if (join.arrived < join.expected) return false;
+
+    delete instance.openJoins[stepId];
+    return true;
+  }
+
+  private async executeStep(instance: WorkflowInstance, stepId: string, queue: string[]) {
+    const step = this.getStepDefinition(instance, stepId);
+    const stepState = this.getStepState(instance, stepId);
+    stepState.startedAt = new Date();
+
+    if (step.executionMode === 'HUMAN') {
+      stepState.status = 'WAITING';
+      instance.activeStepIds.push(stepId);
+      this.recordEvent(instance, stepId, 'AWAITING_HUMAN', step.assignedRole || 'UNASSIGNED');
+
+      if (step.approval && !stepState.approvalChainId) {
+        this.openApprovalChain(instance, step, stepState);
+      }
+      return;
+    }
+
+    stepState.status = 'RUNNING';
+
+    // Automated steps check their preconditions against the data gathered so far
+    if (!this.passesComplianceChecks(instance, step, stepState, instance.data, 'SYSTEM')) {
+      stepState.status = 'BLOCKED';
+      instance.activeStepIds.push(stepId);
+      return;
+    }
+
+    let output: Record<string, unknown> | void;
+    try {
+      const handler = this.handlers.get(step.automationHandler!)!;
+      output = await handler({
+        instanceId: instance.instanceId,
+        agencyId: instance.definition.agencyId,
+        step,
+        data: instance.data
+      });
+    } catch (error) {
+      stepState.status = 'FAILED';
+      stepState.error = (error as Error).message;
+      stepState.finishedAt = new Date();
+      this.failInstance(instance, stepId, 'STEP_ERROR', (error as Error).message);
+      return;
+    }
+
+    this.completeStep(instance, stepState, 'SYSTEM', output || {});
+    this.routeInto(instance, step, queue);
+  }
+
+  private openApprovalChain(instance: WorkflowInstance, step: WorkflowStepDefinition, stepState: WorkflowStepState) {
+    const approval = step.approval!;
+    const chain = this.approvals.openChain(instance.instanceId, step.stepId, approval);
+    stepState.approvalChainId = chain.chainId;
+    const approvers = approval.approvers.map(approver => this.describeApprover(approver)).join(', ');
+    this.recordEvent(instance, step.stepId, 'APPROVAL_REQUESTED', 'SYSTEM',
+      `${chain.chainId} ${approval.mode.toLowerCase()}: ${approvers}`);
+  }
+
+  // Queue the successors of a completed step; a routing error fails the instance at that step
+  private routeInto(instance: WorkflowInstance, step: WorkflowStepDefinition, queue: string[]) {
+    try {
+      queue.push(...this.routeFrom(instance, step));
+    } catch (error) {
+      this.failInstance(instance, step.stepId, 'ROUTING', (error as Error).message);
+    }
+  }
+
+  // Gateway Routing: successor steps of a completed step
+  private routeFrom(instance: WorkflowInstance, step: WorkflowStepDefinition): string[] {
+    const next = step.next;
+
+    if (!next) {
+      const following = instance.definition.workflowSteps[this.stepIndex(instance, step.stepId) + 1];
+      return following ? [following.stepId] : [];
+    }
+
+    switch (next.type) {
+      case 'END':
+        return [];
+
+      case 'GOTO':
+        this.recordEvent(instance, step.stepId, 'ROUTED', 'SYSTEM', `to ${next.goTo}`);
+        return [next.goTo];
+
+      case 'EXCLUSIVE': {
+        const matched = next.conditions.find(condition => this.complianceEvaluator.test(condition.when, instance.data));
+        const target = matched ? matched.goTo : next.otherwise;
+        if (!target) {
+          throw new Error(`No exclusive gateway condition after step ${step.stepId} matched and no otherwise route is set`);
+        }
+        this.recordEvent(instance, step.stepId, 'ROUTED', 'SYSTEM', `to ${target}${matched ? '' : ' (otherwise)'}`);
+        return [target];
+      }
+
+      case 'PARALLEL':
+        if (instance.openJoins[next.joinAt]) {
+          throw new Error(`Join ${next.joinAt} is still waiting on an earlier parallel split`);
+        }
+        instance.openJoins[next.joinAt] = { expected: next.branches.length, arrived: 0 };
+        this.recordEvent(instance, step.stepId, 'PARALLEL_SPLIT', 'SYSTEM',
+          `to ${next.branches.join(', ')}; joining at ${next.joinAt}`);
+        return [...next.branches];
+    }
+  }
+
+  private refreshStatus(instance: WorkflowInstance) {
+    if (instance.status === 'FAILED') return;
+
+    const activeStatuses = instance.activeStepIds.map(stepId => this.getStepState(instance, stepId).status);
+    if (activeStatuses.includes('BLOCKED')) {
+      instance.status = 'BLOCKED';
+    } else if (activeStatuses.includes('WAITING')) {
+      instance.status = 'WAITING';
+    } else if (Object.keys(instance.openJoins).length > 0) {
+      // A branch ended without reaching its join
+      this.failInstance(instance, null, 'UNSATISFIED_JOIN',
+        `Joins never satisfied: ${Object.keys(instance.openJoins).join(', ')}`);
+    } else {
+      instance.status = 'COMPLETED';
+      instance.completedAt = new Date();
+      this.recordEvent(instance, null, 'INSTANCE_COMPLETED', 'SYSTEM');
+    }
+  }
+
+  private failInstance(
+    instance: WorkflowInstance,
+    stepId: string | null,
+    kind: WorkflowFailureKind,
+    reason: string
+  ) {
+    instance.status = 'FAILED';
+    instance.failure = { stepId, kind, reason, at: new Date() };
+    instance.activeStepIds
+      .map(activeStepId => this.getStepState(instance, activeStepId).approvalChainId)
+      .filter(chainId => chainId)
+      .forEach(chainId => this.approvals.cancelChain(chainId!));
+    this.recordEvent(instance, stepId, stepId ? 'STEP_FAILED' : 'INSTANCE_FAILED', 'SYSTEM', reason);
+  }
+
+  // A rejection is routed only when a gateway condition after the step reads its approval outcome
+  private routesApprovalOutcome(step: WorkflowStepDefinition): boolean {
+    const outcomeField = `approvals.${step.stepId}.approved`;
+    return step.next !== undefined && step.next.type === 'EXCLUSIVE' && step.next.conditions
+      .some(condition => this.complianceEvaluator.referencedFields(condition.when).includes(outcomeField));
+  }
+
+  private deactivate(instance: WorkflowInstance, stepId: string) {
+    instance.activeStepIds = instance.activeStepIds.filter(activeStepId => activeStepId !== stepId);
+  }
+
+  private passesComplianceChecks(
+    instance: WorkflowInstance,
+    step: WorkflowStepDefinition,
+    stepState: WorkflowStepState,
+    data: Record<string, unknown>,
+    actor: string
+  ): boolean {
+    const waivers = instance.waivers
+      .filter(waiver => waiver.stepId === step.stepId && waiver.execution === stepState.executions);
+    const report = this.complianceEvaluator.evaluate(step.complianceChecks, data, waivers);
+    stepState.complianceReport = report;
+
+    if (report.passed) {
+      stepState.blockedReason = undefined;
+      return true;
+    }
+
+    stepState.blockedReason = report.results
+      .filter(result => report.blockingFailures.includes(result.checkId))
+      .map(result => `${result.checkId}: ${result.reason}`)
+      .join('; ');
+    this.recordEvent(instance, step.stepId, 'STEP_BLOCKED', actor, stepState.blockedReason);
+    return false;
+  }
+
+  private completeStep(
+    instance: WorkflowInstance,
+    stepState: WorkflowStepState,
+    completedBy: string,
+    output: Record<string, unknown>
+  ) {
+    stepState.status = 'COMPLETED';
+    stepState.completedBy = completedBy;
+    stepState.output = output;
+    stepState.finishedAt = new Date();
+    Object.assign(instance.data, output);
+    this.recordEvent(instance, stepState.stepId, 'STEP_COMPLETED', completedBy);
+  }
+
+  // Reject definitions that could never run to completion
+  private validateDefinition(definition: AgencyWorkflowDefinition) {
+    const stepIds = new Set(definition.workflowSteps.map(step => step.stepId));
+    if (stepIds.size !== definition.workflowSteps.length) {
+      throw new Error(`Workflow definition for ${definition.agencyId} repeats a step id`);
+    }
+
+    const requireStep = (target: string, from: string) => {
+      if (!stepIds.has(target)) {
+        throw new Error(`Step ${from} routes to ${target}, which is not part of the workflow`);
+      }
+    };
+
+    definition.workflowSteps.forEach(step => {
+      if (step.executionMode === 'AUTOMATED' && !this.handlers.has(step.automationHandler || '')) {
+        throw new Error(
+          `Automated step ${step.stepId} references unregistered handler ${step.automationHandler}`
+        );
+      }
+      step.complianceChecks.forEach(check => this.complianceEvaluator.validateCheck(check));
+      if (step.approval) {
+        if (step.executionMode !== 'HUMAN') {
+          throw new Error(`Automated step ${step.stepId} cannot require approval`);
+        }
+        this.approvals.validateConfiguration(step.approval, `Approval chain on ${step.stepId}`);
+      }
+
+      const next = step.next;
+      if (!next || next.type === 'END') return;
+
+      if (next.type === 'GOTO') {
+        requireStep(next.goTo, step.stepId);
+      } else if (next.type === 'EXCLUSIVE') {
+        if (next.conditions.length === 0 && !next.otherwise) {
+          throw new Error(`Exclusive gateway after ${step.stepId} has no routes`);
+        }
+        next.conditions.forEach(condition => {
+          this.complianceEvaluator.validatePredicate(condition.when, `Gateway condition after ${step.stepId}`);
+          requireStep(condition.goTo, step.stepId);
+        });
+        if (next.otherwise) requireStep(next.otherwise, step.stepId);
+      } else if (next.type === 'PARALLEL') {
+        if (new Set(next.branches).size < 2) {
+          throw new Error(`Parallel split after ${step.stepId} needs at least two distinct branches`);
+        }
+        if (next.branches.includes(next.joinAt)) {
+          throw new Error(`Parallel split after ${step.stepId} cannot join at one of its own branches`);
+        }
+        next.branches.forEach(branch => requireStep(branch, step.stepId));
+        requireStep(next.joinAt, step.stepId);
+      } else {
+        throw new Error(`Step ${step.stepId} has unknown transition type ${(next as { type: string }).type}`);
+      }
+    });
+  }
+
+  private requireInstance(instanceId: string): WorkflowInstance {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      throw new Error(`Unknown workflow instance: ${instanceId}`);
+    }
+    return instance;
+  }
+
+  private snapshot(instance: WorkflowInstance): WorkflowInstance {
+    return structuredClone(instance);
+  }
+
+  private describeApprover(approver: ApproverReference): string {
+    return approver.type === 'ROLE' ? `role ${approver.role}` : approver.userId;
+  }
+
+  private getStepState(instance: WorkflowInstance, stepId: string): WorkflowStepState {
+    const stepState = instance.steps.find(step => step.stepId === stepId);
+    if (!stepState) {
+      throw new Error(`Instance ${instance.instanceId} has no step ${stepId}`);
+    }
+    return stepState;
+  }
+
+  private getStepDefinition(instance: WorkflowInstance, stepId: string): WorkflowStepDefinition {
+    const index = this.stepIndex(instance, stepId);
+    if (index === -1) {
+      throw new Error(`Instance ${instance.instanceId} has no step ${stepId}`);
+    }
+    return instance.definition.workflowSteps[index];
+  }
+
+  private stepIndex(instance: WorkflowInstance, stepId: string): number {
+    return instance.definition.workflowSteps.findIndex(step => step.stepId === stepId);
+  }
+
+  private recordEvent(
+    instance: WorkflowInstance,
+    stepId: string | null,
+    event: string,
+    actor: string,
+    note?: string
+  ) {
+    instance.history.push({ stepId, event, actor, at: new Date(), note });
+  }
+}
+
+// Type Definitions
+type WorkflowInstanceStatus = 'RUNNING' | 'WAITING' | 'BLOCKED' | 'COMPLETED' | 'FAILED';
+
+// How an instance failed decides how a retry resumes it
+type WorkflowFailureKind = 'STEP_ERROR' | 'ROUTING' | 'EXECUTION_LIMIT' | 'UNSATISFIED_JOIN' | 'APPROVAL_REJECTED';
+
+type WorkflowStepStatus = 'PENDING' | 'RUNNING' | 'WAITING' | 'BLOCKED' | 'COMPLETED' | 'FAILED';
+
+interface AutomatedStepContext {
+  instanceId: string;
+  agencyId: string;
+  step: WorkflowStepDefinition;
+  data: Readonly<Record<string, unknown>>;  // Instance data accumulated from earlier steps
+}
+
+// Returned output is merged into the instance data
+type AutomatedStepHandler = (
+  context: AutomatedStepContext
+) => Promise<Record<string, unknown> | void> | Record<string, unknown> | void;
+
+interface WorkflowStepState {
+  stepId: string;
+  status: WorkflowStepStatus;
+  executions: number;  // Times the step was entered, counting rework loops
+  executionLimit?: number;  // Raised from MAX_STEP_EXECUTIONS when an instance that hit it is retried
+  startedAt?: Date;
+  finishedAt?: Date;
+  completedBy?: string;
+  output?: Record<string, unknown>;
+  error?: string;
+  complianceReport?: ComplianceCheckReport;  // Latest evaluation of the step's checks
+  blockedReason?: string;
+  approvalChainId?: string;  // Approval chain opened on the latest entry into the step
+}
+
+interface WorkflowInstance {
+  instanceId: string;
+  definition: AgencyWorkflowDefinition;
+  status: WorkflowInstanceStatus;
+  activeStepIds: string[];  // Steps waiting on a person or blocked by compliance checks
+  steps: WorkflowStepState[];
+  openJoins: Record<string, { expected: number; arrived: number }>;  // Join step -> branch arrivals
+  data: Record<string, unknown>;
+  waivers: ComplianceWaiver[];
+  failure?: { stepId: string | null; kind: WorkflowFailureKind; reason: string; at: Date };  // Cleared on retry
+  startedBy: string;
+  startedAt: Date;
+  completedAt?: Date;
+  history: { stepId: string | null; event: string; actor: string; at: Date; note?: string }[];
+}